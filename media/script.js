@@ -8,6 +8,46 @@
     let currentData = null;
     let currentTab = 'dashboard';
     let editingItem = null;
+    let pendingSubmission = null;
+    let pendingConflict = null;
+    let selectedSnapshots = [];
+    let editingLinks = [];
+    let activeQuery = '';
+    let searchResultItems = [];
+    let savedQueries = [];
+    let pendingOpenItem = null;
+    let pendingNewItem = null;
+    let editingLocation = null;
+    let timesheetWeekOffset = 0;
+    let sprintReport = null;
+    let activityFeed = [];
+    let selectedBacklogIds = new Set();
+    const selectedItems = { features: new Set(), bugs: new Set(), tasks: new Set() };
+    let projects = [];
+    let activeProjectId = null;
+    let config = {
+        statuses: {
+            feature: ['backlog', 'planning', 'in-progress', 'testing', 'completed'],
+            bug: ['open', 'in-progress', 'resolved', 'closed', 'wont-fix'],
+            task: ['todo', 'in-progress', 'blocked', 'completed']
+        },
+        transitions: {},
+        closedStatuses: {
+            feature: ['completed'],
+            bug: ['closed', 'wont-fix'],
+            task: ['completed']
+        },
+        wipLimits: {},
+        customFields: { feature: [], bug: [], task: [] }
+    };
+
+    // Board state, persisted across reloads of the webview
+    const savedState = vscode.getState() || {};
+    const viewModes = savedState.viewModes || { features: 'list', bugs: 'list', tasks: 'list' };
+    const swimlanes = savedState.swimlanes || { features: '', bugs: '', tasks: '' };
+    let selectedSprintId = savedState.selectedSprintId || null;
+    const boardLanes = {};
+    let draggedCard = null;
 
     // DOM elements
     const elements = {
@@ -17,9 +57,20 @@
 
         // Header
         projectName: document.getElementById('project-name'),
+        projectSelect: document.getElementById('project-select'),
         lastUpdated: document.getElementById('last-updated'),
         addItemBtn: document.getElementById('add-item-btn'),
         exportBtn: document.getElementById('export-btn'),
+        importBtn: document.getElementById('import-btn'),
+
+        // Search
+        searchInput: document.getElementById('search-input'),
+        savedQueries: document.getElementById('saved-queries'),
+        saveQueryBtn: document.getElementById('save-query-btn'),
+        deleteQueryBtn: document.getElementById('delete-query-btn'),
+        searchSummary: document.getElementById('search-summary'),
+        searchError: document.getElementById('search-error'),
+        searchResults: document.getElementById('search-results'),
 
         // Counts
         featuresCount: document.getElementById('features-count'),
@@ -28,19 +79,55 @@
 
         // Lists
         featuresList: document.getElementById('features-list'),
+        featuresBulk: document.getElementById('features-bulk'),
+        bugsBulk: document.getElementById('bugs-bulk'),
+        tasksBulk: document.getElementById('tasks-bulk'),
         bugsList: document.getElementById('bugs-list'),
         tasksList: document.getElementById('tasks-list'),
 
+        // Boards
+        featuresBoard: document.getElementById('features-board'),
+        bugsBoard: document.getElementById('bugs-board'),
+        tasksBoard: document.getElementById('tasks-board'),
+        viewModeButtons: document.querySelectorAll('[data-view-mode]'),
+        swimlaneSelects: document.querySelectorAll('.swimlane-select'),
+
         // Dashboard
         projectStats: document.getElementById('project-stats'),
         recentActivity: document.getElementById('recent-activity'),
         highPriority: document.getElementById('high-priority'),
+        timeVariance: document.getElementById('time-variance'),
+        timesheet: document.getElementById('timesheet'),
+        timesheetWeek: document.getElementById('timesheet-week'),
+        timesheetPrev: document.getElementById('timesheet-prev'),
+        timesheetNext: document.getElementById('timesheet-next'),
+        dashboardBurndownTitle: document.getElementById('dashboard-burndown-title'),
+        dashboardBurndown: document.getElementById('dashboard-burndown'),
+        velocity: document.getElementById('velocity'),
+
+        // Sprints
+        sprintSelect: document.getElementById('sprint-select'),
+        newSprintBtn: document.getElementById('new-sprint-btn'),
+        deleteSprintBtn: document.getElementById('delete-sprint-btn'),
+        sprintSummary: document.getElementById('sprint-summary'),
+        sprintPlanning: document.getElementById('sprint-planning'),
+        sprintAddBtn: document.getElementById('sprint-add-btn'),
+        sprintBacklog: document.getElementById('sprint-backlog'),
+        sprintItems: document.getElementById('sprint-items'),
+        sprintCapacity: document.getElementById('sprint-capacity'),
+        sprintBurndown: document.getElementById('sprint-burndown'),
 
         // Filters
         featuresFilter: document.getElementById('features-filter'),
         bugsFilter: document.getElementById('bugs-filter'),
         tasksFilter: document.getElementById('tasks-filter'),
 
+        // History
+        historyList: document.getElementById('history-list'),
+        historyPolicy: document.getElementById('history-policy'),
+        historyCompareBtn: document.getElementById('history-compare-btn'),
+        historyRefreshBtn: document.getElementById('history-refresh-btn'),
+
         // Modal
         modal: document.getElementById('item-modal'),
         modalTitle: document.getElementById('modal-title'),
@@ -48,6 +135,15 @@
         itemForm: document.getElementById('item-form'),
         cancelBtn: document.getElementById('cancel-btn'),
         saveBtn: document.getElementById('save-btn'),
+        modalWarning: document.getElementById('modal-warning'),
+        modalWarningText: document.getElementById('modal-warning-text'),
+        modalWarningReload: document.getElementById('modal-warning-reload'),
+        conflictPanel: document.getElementById('conflict-panel'),
+        conflictList: document.getElementById('conflict-list'),
+        conflictApply: document.getElementById('conflict-apply'),
+        transferActions: document.getElementById('transfer-actions'),
+        copyToProjectBtn: document.getElementById('copy-to-project-btn'),
+        moveToProjectBtn: document.getElementById('move-to-project-btn'),
 
         // Form fields
         itemType: document.getElementById('item-type'),
@@ -58,6 +154,17 @@
         itemAssignee: document.getElementById('item-assignee'),
         itemTags: document.getElementById('item-tags'),
         typeSpecificFields: document.getElementById('type-specific-fields'),
+        itemLinks: document.getElementById('item-links'),
+        linkType: document.getElementById('link-type'),
+        linkTarget: document.getElementById('link-target'),
+        linkAddBtn: document.getElementById('link-add-btn'),
+        itemGitGroup: document.getElementById('item-git-group'),
+        itemBranches: document.getElementById('item-branches'),
+        itemCommits: document.getElementById('item-commits'),
+        itemReferencesGroup: document.getElementById('item-references-group'),
+        itemReferences: document.getElementById('item-references'),
+        itemHistoryGroup: document.getElementById('item-history-group'),
+        itemHistory: document.getElementById('item-history'),
 
         // Loading
         loading: document.getElementById('loading')
@@ -83,20 +190,118 @@
         // Header actions
         elements.addItemBtn.addEventListener('click', () => openModal());
         elements.exportBtn.addEventListener('click', () => exportData());
+        elements.importBtn.addEventListener('click', () => vscode.postMessage({ command: 'importData' }));
+        elements.projectSelect.addEventListener('change', () => {
+            vscode.postMessage({ command: 'switchProject', data: { projectId: elements.projectSelect.value } });
+        });
+
+        // Search
+        const debouncedSearch = debounce(() => runSearch(elements.searchInput.value), 250);
+        elements.searchInput.addEventListener('input', () => {
+            elements.savedQueries.value = '';
+            elements.deleteQueryBtn.style.display = 'none';
+            debouncedSearch();
+        });
+        elements.searchInput.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') {
+                runSearch(elements.searchInput.value);
+            }
+        });
+        elements.savedQueries.addEventListener('change', () => {
+            const saved = savedQueries.find(query => query.name === elements.savedQueries.value);
+            elements.deleteQueryBtn.style.display = saved ? '' : 'none';
+            if (saved) {
+                elements.searchInput.value = saved.query;
+                runSearch(saved.query);
+            }
+        });
+        elements.saveQueryBtn.addEventListener('click', () => {
+            const query = elements.searchInput.value.trim();
+            if (query) {
+                vscode.postMessage({ command: 'saveQuery', data: { query } });
+            }
+        });
+        elements.deleteQueryBtn.addEventListener('click', () => {
+            if (elements.savedQueries.value) {
+                vscode.postMessage({ command: 'deleteQuery', data: { name: elements.savedQueries.value } });
+            }
+        });
 
         // Modal controls
         elements.modalClose.addEventListener('click', () => closeModal());
         elements.cancelBtn.addEventListener('click', () => closeModal());
         elements.itemForm.addEventListener('submit', handleFormSubmit);
+        elements.modalWarningReload.addEventListener('click', reloadEditingItem);
+        elements.conflictApply.addEventListener('click', applyConflictResolution);
+        elements.copyToProjectBtn.addEventListener('click', () => transferEditingItem('copy'));
+        elements.moveToProjectBtn.addEventListener('click', () => transferEditingItem('move'));
 
         // Form type change
         elements.itemType.addEventListener('change', updateFormFields);
 
+        // Links
+        elements.linkAddBtn.addEventListener('click', addEditingLink);
+
         // Filters
         elements.featuresFilter.addEventListener('change', () => filterItems('features'));
         elements.bugsFilter.addEventListener('change', () => filterItems('bugs'));
         elements.tasksFilter.addEventListener('change', () => filterItems('tasks'));
 
+        // Board
+        elements.viewModeButtons.forEach(button => {
+            button.addEventListener('click', () => setViewMode(button.dataset.collection, button.dataset.viewMode));
+        });
+        elements.swimlaneSelects.forEach(select => {
+            select.value = swimlanes[select.dataset.collection] || '';
+            select.addEventListener('change', () => {
+                swimlanes[select.dataset.collection] = select.value;
+                saveViewState();
+                renderBoard(select.dataset.collection);
+            });
+        });
+        ['features', 'bugs', 'tasks'].forEach(collection => {
+            setupBoardDragAndDrop(collection);
+            setViewMode(collection, viewModes[collection]);
+        });
+
+        // Timesheet
+        elements.timesheetPrev.addEventListener('click', () => {
+            timesheetWeekOffset--;
+            updateTimesheet();
+        });
+        elements.timesheetNext.addEventListener('click', () => {
+            timesheetWeekOffset++;
+            updateTimesheet();
+        });
+
+        // Sprints
+        elements.sprintSelect.addEventListener('change', () => selectSprint(elements.sprintSelect.value));
+        elements.newSprintBtn.addEventListener('click', () => vscode.postMessage({ command: 'createSprint' }));
+        elements.deleteSprintBtn.addEventListener('click', () => {
+            if (selectedSprintId) {
+                vscode.postMessage({ command: 'deleteSprint', data: { sprintId: selectedSprintId } });
+            }
+        });
+        elements.sprintAddBtn.addEventListener('click', () => {
+            if (selectedSprintId && selectedBacklogIds.size > 0) {
+                vscode.postMessage({
+                    command: 'addToSprint',
+                    data: { sprintId: selectedSprintId, itemIds: [...selectedBacklogIds] }
+                });
+                selectedBacklogIds = new Set();
+            }
+        });
+
+        // History
+        elements.historyRefreshBtn.addEventListener('click', () => loadHistory());
+        elements.historyCompareBtn.addEventListener('click', () => {
+            if (selectedSnapshots.length === 2) {
+                // Older snapshot on the left
+                const [newer, older] = [...selectedSnapshots].sort((a, b) => b.localeCompare(a, undefined, { numeric: true }));
+                vscode.postMessage({ command: 'compareSnapshots', data: { left: older, right: newer } });
+            }
+        });
+
         // Click outside modal to close
         elements.modal.addEventListener('click', (e) => {
             if (e.target === elements.modal) {
@@ -110,6 +315,20 @@
                 closeModal();
             }
         });
+
+        // Undo/redo keys go to the project's history unless a text field has
+        // focus, where they keep editing the text
+        const isTextField = target => target.matches && target.matches('input[type="text"], input:not([type]), textarea, [contenteditable="true"]');
+        document.addEventListener('focusin', e => {
+            if (isTextField(e.target)) {
+                vscode.postMessage({ command: 'editingChanged', data: { editing: true } });
+            }
+        });
+        document.addEventListener('focusout', e => {
+            if (isTextField(e.target)) {
+                vscode.postMessage({ command: 'editingChanged', data: { editing: false } });
+            }
+        });
     }
 
     // Message handler for VS Code communication
@@ -122,6 +341,103 @@
                     currentData = message.data;
                     updateUI();
                     hideLoading();
+                    refreshSearch();
+                    if (pendingOpenItem) {
+                        window.editItem(pendingOpenItem.type, pendingOpenItem.id);
+                        pendingOpenItem = null;
+                    }
+                    if (pendingNewItem) {
+                        openPrefilledModal(pendingNewItem);
+                        pendingNewItem = null;
+                    }
+                    break;
+
+                case 'newItem':
+                    if (currentData) {
+                        openPrefilledModal(message.data);
+                    } else {
+                        pendingNewItem = message.data;
+                    }
+                    break;
+
+                case 'openItem':
+                    if (currentData) {
+                        window.editItem(message.data.type, message.data.id);
+                    } else {
+                        pendingOpenItem = message.data;
+                    }
+                    break;
+
+                case 'gitActivityLoaded':
+                    renderGitActivity(message.data);
+                    break;
+
+                case 'activityLoaded':
+                    activityFeed = message.data;
+                    if (currentData) {
+                        updateRecentActivity();
+                    }
+                    if (editingItem && activityFeed.some(entry => entry.itemType === editingItem.type && entry.itemId === editingItem.id)) {
+                        vscode.postMessage({ command: 'loadItemHistory', data: { type: editingItem.type, id: editingItem.id } });
+                    }
+                    break;
+
+                case 'itemHistoryLoaded':
+                    renderItemHistory(message.data);
+                    break;
+
+                case 'referencesLoaded':
+                    renderReferences(message.data);
+                    break;
+
+                case 'sprintsLoaded':
+                    sprintReport = message.data;
+                    if (currentData) {
+                        currentData.sprints = message.data.sprints;
+                    }
+                    renderSprints();
+                    updateSprintDashboard();
+                    break;
+
+                case 'sprintCreated':
+                    selectSprint(message.data.id);
+                    break;
+
+                case 'searchResults':
+                    renderSearchResults(message.data);
+                    break;
+
+                case 'savedQueriesLoaded':
+                    renderSavedQueries(message.data);
+                    break;
+
+                case 'configLoaded':
+                    config = message.data;
+                    renderCustomFilters();
+                    if (currentData) {
+                        updateLists();
+                    }
+                    break;
+
+                case 'dataChanged':
+                    applyExternalChanges(message.data);
+                    break;
+
+                case 'mergeConflict':
+                    hideLoading();
+                    showConflicts(message.data);
+                    break;
+
+                case 'switchTab':
+                    switchTab(message.tab);
+                    break;
+
+                case 'historyLoaded':
+                    renderHistory(message.data);
+                    break;
+
+                case 'snapshotDetail':
+                    renderSnapshotDetail(message.data);
                     break;
 
                 case 'dataLoadError':
@@ -129,9 +445,23 @@
                     hideLoading();
                     break;
 
+                case 'projectsLoaded':
+                    projects = message.data.projects;
+                    activeProjectId = message.data.activeId;
+                    renderProjects();
+                    break;
+
+                case 'bulkEditApplied':
+                    if (message.data.action === 'delete') {
+                        Object.values(selectedItems).forEach(selected => selected.clear());
+                    }
+                    ['features', 'bugs', 'tasks'].forEach(type => renderBulkBar(type, true));
+                    break;
+
                 case 'itemCreated':
                 case 'itemUpdated':
                 case 'itemDeleted':
+                case 'itemTransferred':
                     // Data will be refreshed automatically
                     closeModal();
                     break;
@@ -156,6 +486,144 @@
         updateCounts();
         updateDashboard();
         updateLists();
+        renderSprints();
+    }
+
+    // Merge changes made outside the dashboard into the current data
+    function applyExternalChanges({ metadata, changes }) {
+        if (!currentData) return;
+
+        currentData.metadata = metadata;
+
+        changes.removed.forEach(ref => {
+            const collection = currentData[ref.type + 's'];
+            const index = collection.findIndex(item => item.id === ref.id);
+            if (index !== -1) {
+                collection.splice(index, 1);
+            }
+        });
+
+        [...changes.added, ...changes.updated].forEach(item => {
+            const collection = currentData[item.type + 's'];
+            const index = collection.findIndex(existing => existing.id === item.id);
+            if (index === -1) {
+                collection.push(item);
+            } else {
+                collection[index] = item;
+            }
+        });
+
+        updateUI();
+        ['features', 'bugs', 'tasks'].forEach(filterItems);
+        refreshSearch();
+
+        // While our own save is in flight the change is most likely ours;
+        // a real conflict is reported by the save itself
+        if (editingItem && !pendingSubmission) {
+            const isEditing = ref => ref.type === editingItem.type && ref.id === editingItem.id;
+            if (changes.removed.some(isEditing)) {
+                showModalWarning('This item was deleted outside the dashboard. Saving will fail.', false);
+            } else if (changes.updated.some(isEditing)) {
+                showModalWarning('This item was changed outside the dashboard. Your edits are kept until you load the latest version.', true);
+            }
+        }
+    }
+
+    function showModalWarning(text, canReload) {
+        elements.modalWarningText.textContent = text;
+        elements.modalWarningReload.style.display = canReload ? '' : 'none';
+        elements.modalWarning.classList.add('active');
+    }
+
+    function hideModalWarning() {
+        elements.modalWarning.classList.remove('active');
+    }
+
+    function reloadEditingItem() {
+        if (!editingItem) return;
+
+        const latest = currentData[editingItem.type + 's'].find(item => item.id === editingItem.id);
+        if (latest) {
+            editingItem = latest;
+            populateForm(latest);
+        }
+        hideModalWarning();
+    }
+
+    // Show the fields that were edited on both sides so the user can pick a value
+    function showConflicts(conflict) {
+        pendingConflict = conflict;
+
+        elements.conflictList.innerHTML = conflict.conflicts.map(({ field, ours, theirs }) => `
+      <div class="conflict-item">
+        <div class="conflict-field">${escapeHtml(field)}</div>
+        <label>
+          <input type="radio" name="conflict-${escapeHtml(field)}" value="ours" checked>
+          Mine: <span class="conflict-value">${escapeHtml(formatConflictValue(ours))}</span>
+        </label>
+        <label>
+          <input type="radio" name="conflict-${escapeHtml(field)}" value="theirs">
+          Theirs: <span class="conflict-value">${escapeHtml(formatConflictValue(theirs))}</span>
+        </label>
+      </div>
+    `).join('');
+
+        elements.conflictPanel.classList.add('active');
+    }
+
+    function hideConflicts() {
+        pendingConflict = null;
+        elements.conflictPanel.classList.remove('active');
+    }
+
+    function formatConflictValue(value) {
+        if (value === undefined || value === null || value === '') return '(empty)';
+        if (Array.isArray(value)) return value.join(', ');
+        return String(value);
+    }
+
+    // Resubmit the edit against the latest stored version with the chosen values
+    function applyConflictResolution() {
+        if (!pendingConflict || !pendingSubmission) return;
+
+        const data = { ...pendingSubmission, base: pendingConflict.latest };
+        pendingConflict.conflicts.forEach(({ field, theirs }) => {
+            const choice = elements.conflictList.querySelector(`input[name="conflict-${field}"]:checked`);
+            if (choice && choice.value === 'theirs') {
+                data[field] = theirs;
+            }
+        });
+
+        editingItem = pendingConflict.latest;
+        pendingSubmission = data;
+        hideConflicts();
+        showLoading();
+
+        vscode.postMessage({
+            command: 'updateItem',
+            data: data
+        });
+    }
+
+    // The switcher only shows in multi-root workspaces with several projects
+    function renderProjects() {
+        const multiple = projects.length > 1;
+        elements.projectSelect.hidden = !multiple;
+        elements.projectName.hidden = multiple;
+        elements.projectSelect.innerHTML = [
+            ...projects.map(project => `<option value="${escapeAttribute(project.id)}">${escapeHtml(project.name)}</option>`),
+            '<option value="*">All projects</option>'
+        ].join('');
+        elements.projectSelect.value = activeProjectId;
+
+        // New items and sprints need a single project to go into
+        const showingAll = activeProjectId === '*';
+        elements.addItemBtn.disabled = showingAll;
+        elements.newSprintBtn.disabled = showingAll;
+    }
+
+    function projectBadge(item) {
+        return item.projectName ? `<span class="project-badge">${escapeHtml(item.projectName)}</span>` : '';
     }
 
     // Update header information
@@ -176,6 +644,344 @@
         updateProjectStats();
         updateRecentActivity();
         updateHighPriority();
+        updateTimeVariance();
+        updateTimesheet();
+        updateSprintDashboard();
+    }
+
+    function formatHours(hours) {
+        return `${Math.round(hours * 10) / 10}h`;
+    }
+
+    function entryHours(entry) {
+        return Math.max(new Date(entry.end) - new Date(entry.start), 0) / 3600000;
+    }
+
+    // Estimated vs logged hours over tasks that have an estimate
+    function updateTimeVariance() {
+        const tasks = currentData.tasks.filter(task => typeof task.estimatedHours === 'number');
+        if (tasks.length === 0) {
+            elements.timeVariance.innerHTML = '<p class="empty-state">No tasks have an estimate yet</p>';
+            return;
+        }
+
+        const estimated = tasks.reduce((total, task) => total + task.estimatedHours, 0);
+        const actual = tasks.reduce((total, task) => total + (task.actualHours || 0), 0);
+        const variance = actual - estimated;
+        const percent = estimated > 0 ? Math.round(variance / estimated * 100) : 0;
+        const overruns = tasks
+            .map(task => ({ task, over: (task.actualHours || 0) - task.estimatedHours }))
+            .filter(({ over }) => over > 0)
+            .sort((a, b) => b.over - a.over)
+            .slice(0, 5);
+
+        elements.timeVariance.innerHTML = `
+      <div class="stats">
+        <div class="stat-item">
+          <span class="stat-number">${formatHours(estimated)}</span>
+          <span class="stat-label">Estimated</span>
+        </div>
+        <div class="stat-item">
+          <span class="stat-number">${formatHours(actual)}</span>
+          <span class="stat-label">Actual</span>
+        </div>
+        <div class="stat-item">
+          <span class="stat-number ${variance > 0 ? 'variance-over' : 'variance-under'}">${variance > 0 ? '+' : ''}${percent}%</span>
+          <span class="stat-label">Variance</span>
+        </div>
+      </div>
+      ${overruns.length > 0 ? `
+        <div class="time-overruns">
+          ${overruns.map(({ task, over }) => `
+            <div class="time-overrun">
+              <span>${escapeHtml(task.title)}</span>
+              <span class="variance-over">+${formatHours(over)}</span>
+            </div>
+          `).join('')}
+        </div>
+      ` : ''}
+    `;
+    }
+
+    // Hours logged per person and day, for the week timesheetWeekOffset weeks from now
+    function updateTimesheet() {
+        const weekStart = new Date();
+        weekStart.setHours(0, 0, 0, 0);
+        // Weeks start on Monday
+        weekStart.setDate(weekStart.getDate() - (weekStart.getDay() + 6) % 7 + timesheetWeekOffset * 7);
+        const days = Array.from({ length: 7 }, (_, index) => {
+            const day = new Date(weekStart);
+            day.setDate(day.getDate() + index);
+            return day;
+        });
+        const weekEnd = new Date(days[6]);
+        weekEnd.setDate(weekEnd.getDate() + 1);
+
+        elements.timesheetWeek.textContent = `${days[0].toLocaleDateString()} – ${days[6].toLocaleDateString()}`;
+        elements.timesheetNext.disabled = timesheetWeekOffset >= 0;
+
+        const rows = {};
+        currentData.tasks.forEach(task => (task.timeEntries || []).forEach(entry => {
+            const start = new Date(entry.start);
+            if (start < weekStart || start >= weekEnd) return;
+            const user = entry.user || 'Unknown';
+            rows[user] = rows[user] || new Array(7).fill(0);
+            rows[user][(start.getDay() + 6) % 7] += entryHours(entry);
+        }));
+
+        const users = Object.keys(rows).sort();
+        if (users.length === 0) {
+            elements.timesheet.innerHTML = '<p class="empty-state">No time logged this week</p>';
+            return;
+        }
+
+        const dayTotals = days.map((_, index) => users.reduce((total, user) => total + rows[user][index], 0));
+        const cell = hours => hours > 0 ? formatHours(hours) : '–';
+
+        elements.timesheet.innerHTML = `
+      <table class="timesheet-table">
+        <thead>
+          <tr>
+            <th>Person</th>
+            ${days.map(day => `<th>${day.toLocaleDateString(undefined, { weekday: 'short' })}</th>`).join('')}
+            <th>Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${users.map(user => `
+            <tr>
+              <td>${escapeHtml(user)}</td>
+              ${rows[user].map(hours => `<td>${cell(hours)}</td>`).join('')}
+              <td>${formatHours(rows[user].reduce((a, b) => a + b, 0))}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td>Total</td>
+            ${dayTotals.map(hours => `<td>${cell(hours)}</td>`).join('')}
+            <td>${formatHours(dayTotals.reduce((a, b) => a + b, 0))}</td>
+          </tr>
+        </tfoot>
+      </table>
+    `;
+    }
+
+    // Sprints
+    function isClosed(item) {
+        return (config.closedStatuses[item.type] || []).includes(item.status);
+    }
+
+    function itemPoints(item) {
+        return item.type === 'feature' ? item.storyPoints || 0 : 0;
+    }
+
+    function formatDay(date) {
+        return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+    }
+
+    function todayString() {
+        const now = new Date();
+        return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+    }
+
+    function getSelectedSprint() {
+        return sprintReport && sprintReport.sprints.find(sprint => sprint.id === selectedSprintId);
+    }
+
+    function selectSprint(id) {
+        selectedSprintId = id || null;
+        selectedBacklogIds = new Set();
+        saveViewState();
+        renderSprints();
+    }
+
+    function renderSprints() {
+        if (!sprintReport || !currentData) return;
+
+        if (!getSelectedSprint()) {
+            selectedSprintId = sprintReport.currentSprintId || null;
+        }
+        const sprint = getSelectedSprint();
+
+        elements.sprintSelect.innerHTML = sprintReport.sprints.length > 0
+            ? sprintReport.sprints.map(candidate => `
+          <option value="${escapeAttribute(candidate.id)}" ${candidate.id === selectedSprintId ? 'selected' : ''}>
+            ${escapeHtml(candidate.name)} (${formatDay(candidate.startDate)} – ${formatDay(candidate.endDate)})
+          </option>
+        `).join('')
+            : '<option value="">No sprints</option>';
+        elements.sprintSelect.disabled = !sprint;
+        elements.deleteSprintBtn.disabled = !sprint;
+        elements.sprintPlanning.style.display = sprint ? '' : 'none';
+
+        if (!sprint) {
+            elements.sprintSummary.innerHTML = '<p class="empty-state">No sprints yet. Create one to start planning.</p>';
+            elements.sprintBurndown.innerHTML = '';
+            return;
+        }
+
+        const allItems = [...currentData.features, ...currentData.bugs, ...currentData.tasks];
+        const committed = allItems.filter(item => sprint.itemIds.includes(item.id));
+        const today = todayString();
+        // Items already planned into a sprint that hasn't ended stay out of the backlog
+        const planned = new Set(sprintReport.sprints
+            .filter(candidate => candidate.endDate >= today)
+            .flatMap(candidate => candidate.itemIds));
+        const priorityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
+        const backlog = allItems
+            .filter(item => !isClosed(item) && !planned.has(item.id) && !sprint.itemIds.includes(item.id))
+            .sort((a, b) => priorityOrder[a.priority] - priorityOrder[b.priority] || b.updatedAt.localeCompare(a.updatedAt));
+
+        selectedBacklogIds = new Set([...selectedBacklogIds].filter(id => backlog.some(item => item.id === id)));
+        elements.sprintAddBtn.disabled = selectedBacklogIds.size === 0;
+
+        const daysLeft = Math.round((new Date(`${sprint.endDate}T00:00:00`) - new Date(`${today}T00:00:00`)) / 86400000) + 1;
+        const timing = sprint.startDate > today
+            ? `Starts ${formatDay(sprint.startDate)}`
+            : sprint.endDate < today ? 'Finished' : `${daysLeft} day${daysLeft === 1 ? '' : 's'} left`;
+        elements.sprintSummary.innerHTML = `
+      <span class="tag">${formatDay(sprint.startDate)} – ${formatDay(sprint.endDate)}</span>
+      <span class="tag">${timing}</span>
+      ${sprint.goal ? `<span class="sprint-goal">${escapeHtml(sprint.goal)}</span>` : ''}
+    `;
+
+        const points = committed.reduce((total, item) => total + itemPoints(item), 0);
+        elements.sprintCapacity.textContent = sprint.capacity !== undefined
+            ? `${points} / ${sprint.capacity} points`
+            : `${points} points`;
+        elements.sprintCapacity.classList.toggle('over-capacity', sprint.capacity !== undefined && points > sprint.capacity);
+
+        elements.sprintBacklog.innerHTML = backlog.length > 0
+            ? backlog.map(item => renderSprintRow(item, `
+          <input type="checkbox" ${selectedBacklogIds.has(item.id) ? 'checked' : ''}
+            onchange="toggleBacklogItem('${escapeAttribute(item.id)}', this.checked)" aria-label="Select for sprint">
+        `, '')).join('')
+            : '<p class="empty-state">The backlog is empty</p>';
+
+        elements.sprintItems.innerHTML = committed.length > 0
+            ? committed.map(item => renderSprintRow(item, '', `
+          <button class="sprint-row-remove" onclick="removeFromSprint('${escapeAttribute(item.id)}')" title="Remove from sprint">&times;</button>
+        `)).join('')
+            : '<p class="empty-state">Nothing committed yet. Select backlog items and add them.</p>';
+
+        renderBurndownChart(elements.sprintBurndown, sprintReport.burndowns[sprint.id]);
+    }
+
+    function renderSprintRow(item, before, after) {
+        return `
+      <div class="sprint-row ${isClosed(item) ? 'sprint-row-closed' : ''}">
+        ${before}
+        <span class="item-type ${item.type}">${item.type}</span>
+        <a class="sprint-row-title" onclick="editItem('${item.type}', '${escapeAttribute(item.id)}')">${escapeHtml(item.title)}</a>
+        <span class="status-badge ${item.status}">${item.status.replace('-', ' ')}</span>
+        ${itemPoints(item) ? `<span class="tag">${itemPoints(item)} pts</span>` : ''}
+        ${after}
+      </div>
+    `;
+    }
+
+    window.toggleBacklogItem = function (id, selected) {
+        if (selected) {
+            selectedBacklogIds.add(id);
+        } else {
+            selectedBacklogIds.delete(id);
+        }
+        elements.sprintAddBtn.disabled = selectedBacklogIds.size === 0;
+    };
+
+    window.removeFromSprint = function (id) {
+        if (selectedSprintId) {
+            vscode.postMessage({ command: 'removeFromSprint', data: { sprintId: selectedSprintId, itemId: id } });
+        }
+    };
+
+    function updateSprintDashboard() {
+        if (!sprintReport) return;
+
+        const current = sprintReport.sprints.find(sprint => sprint.id === sprintReport.currentSprintId);
+        elements.dashboardBurndownTitle.textContent = current ? `Burndown · ${current.name}` : 'Burndown';
+        if (current) {
+            renderBurndownChart(elements.dashboardBurndown, sprintReport.burndowns[current.id]);
+        } else {
+            elements.dashboardBurndown.innerHTML = '<p class="empty-state">No sprints yet</p>';
+        }
+        renderVelocityChart(elements.velocity, sprintReport.velocity);
+    }
+
+    // Remaining work per day against the ideal line, as an inline SVG
+    function renderBurndownChart(container, burndown) {
+        if (!burndown || burndown.total === 0) {
+            container.innerHTML = '<p class="empty-state">Commit items to the sprint to see its burndown</p>';
+            return;
+        }
+
+        const width = 600;
+        const height = 200;
+        const pad = 30;
+        const max = Math.max(burndown.total, ...burndown.days.map(day => day.remaining || 0));
+        const x = index => pad + (burndown.days.length > 1 ? index / (burndown.days.length - 1) : 0) * (width - 2 * pad);
+        const y = value => height - pad - (value / max) * (height - 2 * pad);
+        const line = points => points.map(([px, py]) => `${px.toFixed(1)},${py.toFixed(1)}`).join(' ');
+
+        const ideal = burndown.days.map((day, index) => [x(index), y(day.ideal)]);
+        const actual = burndown.days
+            .map((day, index) => day.remaining === null ? null : [x(index), y(day.remaining)])
+            .filter(Boolean);
+        const last = burndown.days.filter(day => day.remaining !== null).pop();
+        const unit = burndown.unit === 'points' ? 'points' : 'items';
+
+        container.innerHTML = `
+      <svg class="chart" viewBox="0 0 ${width} ${height}" role="img" aria-label="Burndown chart">
+        <line class="chart-axis" x1="${pad}" y1="${height - pad}" x2="${width - pad}" y2="${height - pad}"/>
+        <line class="chart-axis" x1="${pad}" y1="${pad}" x2="${pad}" y2="${height - pad}"/>
+        <text class="chart-label" x="${pad - 6}" y="${y(max) + 4}" text-anchor="end">${max}</text>
+        <text class="chart-label" x="${pad - 6}" y="${height - pad + 4}" text-anchor="end">0</text>
+        <text class="chart-label" x="${pad}" y="${height - 8}">${formatDay(burndown.days[0].date)}</text>
+        <text class="chart-label" x="${width - pad}" y="${height - 8}" text-anchor="end">${formatDay(burndown.days[burndown.days.length - 1].date)}</text>
+        <polyline class="chart-ideal" points="${line(ideal)}"/>
+        ${actual.length > 0 ? `<polyline class="chart-actual" points="${line(actual)}"/>` : ''}
+        ${actual.map(([px, py]) => `<circle class="chart-dot" cx="${px.toFixed(1)}" cy="${py.toFixed(1)}" r="3"/>`).join('')}
+      </svg>
+      <p class="chart-caption">${last ? `${last.remaining} of ${burndown.total} ${unit} remaining` : `${burndown.total} ${unit} committed, not started yet`}</p>
+    `;
+    }
+
+    // Committed and completed work for the last finished sprints
+    function renderVelocityChart(container, velocity) {
+        if (velocity.sprints.length === 0) {
+            container.innerHTML = '<p class="empty-state">Velocity shows up once a sprint has finished</p>';
+            return;
+        }
+
+        const width = 600;
+        const height = 200;
+        const pad = 30;
+        const max = Math.max(1, ...velocity.sprints.map(entry => Math.max(entry.committed, entry.completed)));
+        const slot = (width - 2 * pad) / velocity.sprints.length;
+        const barWidth = Math.min(slot / 3, 40);
+        const y = value => height - pad - (value / max) * (height - 2 * pad);
+        const unit = velocity.unit === 'points' ? 'points' : 'items';
+
+        container.innerHTML = `
+      <svg class="chart" viewBox="0 0 ${width} ${height}" role="img" aria-label="Velocity chart">
+        <line class="chart-axis" x1="${pad}" y1="${height - pad}" x2="${width - pad}" y2="${height - pad}"/>
+        ${velocity.sprints.map((entry, index) => {
+            const center = pad + slot * (index + 0.5);
+            return `
+          <rect class="chart-bar-committed" x="${center - barWidth}" y="${y(entry.committed)}" width="${barWidth}" height="${height - pad - y(entry.committed)}">
+            <title>${escapeHtml(entry.name)}: ${entry.committed} committed</title>
+          </rect>
+          <rect class="chart-bar-completed" x="${center}" y="${y(entry.completed)}" width="${barWidth}" height="${height - pad - y(entry.completed)}">
+            <title>${escapeHtml(entry.name)}: ${entry.completed} completed</title>
+          </rect>
+          <text class="chart-label" x="${center}" y="${height - 10}" text-anchor="middle">${escapeHtml(entry.name)}</text>
+        `;
+        }).join('')}
+        <line class="chart-ideal" x1="${pad}" y1="${y(velocity.average)}" x2="${width - pad}" y2="${y(velocity.average)}"/>
+      </svg>
+      <p class="chart-caption">Average ${Math.round(velocity.average * 10) / 10} ${unit} completed per sprint</p>
+    `;
     }
 
     // Update project statistics
@@ -212,9 +1018,7 @@
 
         return {
             totalItems: allItems.length,
-            completed: allItems.filter(item =>
-                ['completed', 'resolved', 'closed'].includes(item.status)
-            ).length,
+            completed: allItems.filter(isClosed).length,
             inProgress: allItems.filter(item =>
                 item.status === 'in-progress'
             ).length,
@@ -226,6 +1030,29 @@
 
     // Update recent activity
     function updateRecentActivity() {
+        if (activityFeed.length > 0) {
+            elements.recentActivity.innerHTML = activityFeed.slice(0, 8).map(entry => `
+      <div class="activity-item">
+        <svg class="activity-icon" viewBox="0 0 24 24" fill="none">
+          <path d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>
+        </svg>
+        <div class="activity-content">
+          <div class="activity-title">
+            ${escapeHtml(entry.actor)} ${AUDIT_VERBS[entry.action]} ${entry.itemType}
+            ${findItem(entry.itemType, entry.itemId)
+                ? `<a onclick="editItem('${entry.itemType}', '${escapeAttribute(entry.itemId)}')">${escapeHtml(entry.title)}</a>`
+                : escapeHtml(entry.title)}
+          </div>
+          ${entry.projectName ? `<div>${projectBadge(entry)}</div>` : ''}
+          ${entry.action === 'update' ? `<div class="activity-changes">${escapeHtml(summarizeChanges(entry.changes))}</div>` : ''}
+          <div class="activity-time">${formatRelativeTime(entry.at)}</div>
+        </div>
+      </div>
+    `).join('');
+            return;
+        }
+
+        // Projects without an audit log yet: fall back to last-updated items
         const allItems = [
             ...currentData.features,
             ...currentData.bugs,
@@ -264,7 +1091,7 @@
 
         const highPriorityItems = allItems
             .filter(item => ['high', 'critical'].includes(item.priority))
-            .filter(item => !['completed', 'resolved', 'closed'].includes(item.status))
+            .filter(item => !isClosed(item))
             .sort((a, b) => {
                 const priorityOrder = { critical: 0, high: 1 };
                 return priorityOrder[a.priority] - priorityOrder[b.priority];
@@ -294,6 +1121,213 @@
         updateItemList('features', currentData.features, elements.featuresList);
         updateItemList('bugs', currentData.bugs, elements.bugsList);
         updateItemList('tasks', currentData.tasks, elements.tasksList);
+        ['features', 'bugs', 'tasks'].forEach(renderBoard);
+    }
+
+    // Board view
+    function saveViewState() {
+        vscode.setState({ ...vscode.getState(), viewModes, swimlanes, selectedSprintId });
+    }
+
+    function setViewMode(collection, mode) {
+        viewModes[collection] = mode;
+        saveViewState();
+
+        const isBoard = mode === 'board';
+        document.querySelectorAll(`[data-view-mode][data-collection="${collection}"]`).forEach(button => {
+            button.classList.toggle('active', button.dataset.viewMode === mode);
+        });
+        elements[`${collection}List`].style.display = isBoard ? 'none' : '';
+        elements[`${collection}Filter`].style.display = isBoard ? 'none' : '';
+        elements[`${collection}Board`].style.display = isBoard ? '' : 'none';
+        document.getElementById(`${collection}-swimlane`).style.display = isBoard ? '' : 'none';
+
+        renderBoard(collection);
+        renderBulkBar(collection);
+    }
+
+    function effectiveRank(item) {
+        return typeof item.rank === 'number' ? item.rank : new Date(item.createdAt).getTime();
+    }
+
+    // Rank for an item dropped between two neighbours (either may be missing)
+    function rankBetween(previous, next) {
+        if (previous && next) return (effectiveRank(previous) + effectiveRank(next)) / 2;
+        if (previous) return effectiveRank(previous) + 1000;
+        if (next) return effectiveRank(next) - 1000;
+        return Date.now();
+    }
+
+    function getSwimlanes(items, groupBy) {
+        if (groupBy === 'priority') {
+            return ['critical', 'high', 'medium', 'low'].map(priority => ({
+                label: priority,
+                field: 'priority',
+                value: priority,
+                items: items.filter(item => item.priority === priority)
+            }));
+        }
+
+        if (groupBy === 'assignee') {
+            const assignees = [...new Set(items.map(item => item.assignee).filter(Boolean))].sort();
+            return [
+                ...assignees.map(assignee => ({
+                    label: assignee,
+                    field: 'assignee',
+                    value: assignee,
+                    items: items.filter(item => item.assignee === assignee)
+                })),
+                {
+                    label: 'Unassigned',
+                    field: 'assignee',
+                    value: '',
+                    items: items.filter(item => !item.assignee)
+                }
+            ];
+        }
+
+        return [{ label: '', field: null, value: null, items }];
+    }
+
+    function renderBoard(collection) {
+        const container = elements[`${collection}Board`];
+        if (!currentData || viewModes[collection] !== 'board') return;
+
+        const type = collection.slice(0, -1);
+        const statuses = config.statuses[type] || [];
+        const limits = config.wipLimits[type] || {};
+        const items = [...currentData[collection]].sort((a, b) => effectiveRank(a) - effectiveRank(b));
+        const lanes = getSwimlanes(items, swimlanes[collection]);
+        boardLanes[collection] = lanes;
+
+        container.innerHTML = lanes.map((lane, laneIndex) => `
+      <div class="board-lane">
+        ${lane.label ? `
+          <div class="board-lane-header">
+            ${escapeHtml(lane.label)} <span class="count">${lane.items.length}</span>
+          </div>
+        ` : ''}
+        <div class="board-columns">
+          ${statuses.map(status => {
+            const count = items.filter(item => item.status === status).length;
+            const limit = limits[status];
+            const limitClass = limit ? (count > limit ? 'over-limit' : count === limit ? 'at-limit' : '') : '';
+            return `
+            <div class="board-column ${limitClass}">
+              <div class="board-column-header">
+                <span class="status-badge ${status}">${status.replace('-', ' ')}</span>
+                <span class="board-wip" ${limit ? `title="WIP limit ${limit}"` : ''}>${count}${limit ? ` / ${limit}` : ''}</span>
+              </div>
+              <div class="board-column-body" data-type="${type}" data-status="${status}" data-lane="${laneIndex}">
+                ${lane.items.filter(item => item.status === status).map(createBoardCard).join('')}
+              </div>
+            </div>
+          `;
+        }).join('')}
+        </div>
+      </div>
+    `).join('');
+    }
+
+    function createBoardCard(item) {
+        return `
+      <div class="board-card" draggable="true" data-id="${item.id}" onclick="editItem('${item.type}', '${item.id}')">
+        <div class="board-card-title">${escapeHtml(item.title)}</div>
+        <div class="board-card-meta">
+          <span class="priority-badge ${item.priority}">${item.priority}</span>
+          ${item.assignee ? `<span class="assignee">👤 ${escapeHtml(item.assignee)}</span>` : ''}
+          ${projectBadge(item)}
+        </div>
+      </div>
+    `;
+    }
+
+    // Statuses an item may be given: its own plus the workflow's next states
+    function allowedStatuses(type, currentStatus) {
+        const statuses = config.statuses[type] || [];
+        const transitions = config.transitions[type];
+        if (!currentStatus || !transitions) return statuses;
+
+        const next = transitions[currentStatus] || [];
+        return statuses.filter(status => status === currentStatus || next.includes(status));
+    }
+
+    function setupBoardDragAndDrop(collection) {
+        const board = elements[`${collection}Board`];
+        const type = collection.slice(0, -1);
+
+        board.addEventListener('dragstart', (e) => {
+            const card = e.target.closest('.board-card');
+            if (!card) return;
+            draggedCard = { type, id: card.dataset.id };
+            card.classList.add('dragging');
+            e.dataTransfer.effectAllowed = 'move';
+            e.dataTransfer.setData('text/plain', card.dataset.id);
+        });
+
+        board.addEventListener('dragend', (e) => {
+            const card = e.target.closest('.board-card');
+            if (card) card.classList.remove('dragging');
+            board.querySelectorAll('.drop-target').forEach(body => body.classList.remove('drop-target'));
+            draggedCard = null;
+        });
+
+        board.addEventListener('dragover', (e) => {
+            const body = e.target.closest('.board-column-body');
+            if (!body || !draggedCard || draggedCard.type !== type) return;
+
+            const item = findItem(type, draggedCard.id);
+            if (!allowedStatuses(type, item.status).includes(body.dataset.status)) return;
+
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'move';
+            board.querySelectorAll('.drop-target').forEach(other => {
+                if (other !== body) other.classList.remove('drop-target');
+            });
+            body.classList.add('drop-target');
+        });
+
+        board.addEventListener('drop', (e) => {
+            const body = e.target.closest('.board-column-body');
+            if (!body || !draggedCard) return;
+            e.preventDefault();
+            body.classList.remove('drop-target');
+            handleBoardDrop(collection, body, e.clientY);
+        });
+    }
+
+    function handleBoardDrop(collection, body, clientY) {
+        const type = collection.slice(0, -1);
+        const item = findItem(type, draggedCard.id);
+        const lane = boardLanes[collection][Number(body.dataset.lane)];
+        if (!item || !lane) return;
+
+        // Position among the other cards of the column, by the cursor's height
+        const cards = [...body.querySelectorAll('.board-card')].filter(card => card.dataset.id !== item.id);
+        let index = cards.findIndex(card => {
+            const rect = card.getBoundingClientRect();
+            return clientY < rect.top + rect.height / 2;
+        });
+        if (index === -1) index = cards.length;
+
+        const neighbours = cards.map(card => findItem(type, card.dataset.id));
+        const updates = {
+            status: body.dataset.status,
+            rank: rankBetween(neighbours[index - 1], neighbours[index])
+        };
+        // The "Unassigned" lane clears the field; null, as postMessage drops undefined
+        if (lane.field && lane.value !== null && (item[lane.field] || '') !== lane.value) {
+            updates[lane.field] = lane.value === '' ? null : lane.value;
+        }
+
+        const base = { ...item };
+        Object.assign(item, updates);
+        renderBoard(collection);
+
+        vscode.postMessage({
+            command: 'moveItem',
+            data: { type, id: item.id, base, ...updates }
+        });
     }
 
     // Update a specific item list
@@ -308,26 +1342,151 @@
           <p>Create your first ${type.slice(0, -1)} to get started</p>
         </div>
       `;
+            selectedItems[type].clear();
+            renderBulkBar(type);
             return;
         }
 
-        container.innerHTML = items.map(item => createItemCard(item)).join('');
+        // Only what the list shows can stay selected
+        const shown = new Set(items.map(item => item.id));
+        [...selectedItems[type]].filter(id => !shown.has(id)).forEach(id => selectedItems[type].delete(id));
+
+        container.innerHTML = items.map(item => createItemCard(item, true)).join('');
+        renderBulkBar(type);
+    }
+
+    /**
+     * The actions for the items ticked in a list. The bar is only rebuilt
+     * when it appears (or `rebuild` is set) so typing in it isn't lost
+     * while the selection changes.
+     */
+    function renderBulkBar(type, rebuild = false) {
+        const bar = elements[`${type}Bulk`];
+        const selected = selectedItems[type];
+        const visible = selected.size > 0 && viewModes[type] !== 'board';
+        if (!visible || rebuild) {
+            bar.innerHTML = '';
+        }
+        bar.hidden = !visible;
+        if (!visible) return;
+
+        if (!bar.innerHTML) {
+            const statuses = config.statuses[type.slice(0, -1)] || [];
+            bar.innerHTML = `
+      <label class="bulk-count">
+        <input type="checkbox" onchange="selectAllItems('${type}', this.checked)" aria-label="Select all">
+        <span></span>
+      </label>
+      <select class="filter-select" onchange="bulkUpdate('${type}', { status: this.value })" aria-label="Set status">
+        <option value="">Set status…</option>
+        ${statuses.map(status => `<option value="${escapeAttribute(status)}">${escapeHtml(status.replace('-', ' '))}</option>`).join('')}
+      </select>
+      <select class="filter-select" onchange="bulkUpdate('${type}', { priority: this.value })" aria-label="Set priority">
+        <option value="">Set priority…</option>
+        ${['low', 'medium', 'high', 'critical'].map(priority => `<option value="${priority}">${priority}</option>`).join('')}
+      </select>
+      <input type="text" class="bulk-input" data-bulk="assignee" placeholder="Assignee" aria-label="Assignee">
+      <button class="btn btn-secondary" onclick="bulkAssign('${type}')">Assign</button>
+      <input type="text" class="bulk-input" data-bulk="tag" placeholder="Tag" aria-label="Tag">
+      <button class="btn btn-secondary" onclick="bulkTag('${type}', 'addTags')">Add Tag</button>
+      <button class="btn btn-secondary" onclick="bulkTag('${type}', 'removeTags')">Remove Tag</button>
+      <button class="btn btn-danger" onclick="bulkDelete('${type}')">Delete</button>
+      <button class="btn btn-secondary" onclick="selectAllItems('${type}', false)">Clear</button>
+    `;
+        }
+
+        const shownCount = elements[`${type}List`].querySelectorAll('.item-select').length;
+        bar.querySelector('.bulk-count span').textContent = `${selected.size} selected`;
+        bar.querySelector('.bulk-count input').checked = selected.size === shownCount;
+    }
+
+    window.toggleItemSelection = function (type, id, selected) {
+        const collection = type + 's';
+        if (selected) {
+            selectedItems[collection].add(id);
+        } else {
+            selectedItems[collection].delete(id);
+        }
+        renderBulkBar(collection);
+    };
+
+    window.selectAllItems = function (type, selected) {
+        const checkboxes = elements[`${type}List`].querySelectorAll('.item-select');
+        checkboxes.forEach(checkbox => {
+            checkbox.checked = selected;
+            if (selected) {
+                selectedItems[type].add(checkbox.dataset.id);
+            }
+        });
+        if (!selected) {
+            selectedItems[type].clear();
+        }
+        renderBulkBar(type);
+    };
+
+    function sendBulkEdit(type, edit) {
+        const items = [...selectedItems[type]].map(id => ({ type: type.slice(0, -1), id }));
+        if (items.length === 0) return;
+        vscode.postMessage({ command: 'bulkEdit', data: { items, ...edit } });
     }
 
+    window.bulkUpdate = function (type, updates) {
+        if (Object.values(updates).some(value => !value)) return;
+        sendBulkEdit(type, { action: 'update', updates });
+    };
+
+    window.bulkAssign = function (type) {
+        const assignee = elements[`${type}Bulk`].querySelector('[data-bulk="assignee"]').value.trim();
+        // An empty name unassigns
+        sendBulkEdit(type, { action: 'update', updates: { assignee: assignee || undefined } });
+    };
+
+    window.bulkTag = function (type, change) {
+        const tag = elements[`${type}Bulk`].querySelector('[data-bulk="tag"]').value.trim();
+        if (!tag) return;
+        sendBulkEdit(type, { action: 'update', [change]: [tag] });
+    };
+
+    // The extension asks for confirmation once for the whole selection
+    window.bulkDelete = function (type) {
+        sendBulkEdit(type, { action: 'delete' });
+    };
+
     // Create an item card HTML
-    function createItemCard(item) {
+    function createItemCard(item, selectable = false) {
         const typeSpecificInfo = getTypeSpecificInfo(item);
 
         return `
       <div class="item-card">
         <div class="item-header">
+          ${selectable ? `<input type="checkbox" class="item-select" data-id="${escapeAttribute(item.id)}"
+            ${selectedItems[item.type + 's'].has(item.id) ? 'checked' : ''}
+            onchange="toggleItemSelection('${item.type}', '${escapeAttribute(item.id)}', this.checked)" aria-label="Select">` : ''}
           <h3 class="item-title">${escapeHtml(item.title)}</h3>
+          ${projectBadge(item)}
           <span class="item-type ${item.type}">${item.type}</span>
         </div>
         
         <p class="item-description">${escapeHtml(item.description)}</p>
         
         ${typeSpecificInfo}
+        ${getCustomFieldInfo(item)}
+
+        ${renderLinkChips(item.links || [], false)}
+
+        ${item.location ? `
+          <p class="item-location">
+            <a href="#" onclick="openLocation('${item.type}', '${item.id}'); return false;">${escapeHtml(item.location.file)}:${item.location.line}</a>
+          </p>
+        ` : ''}
+
+        ${item.externalRef ? `
+          <p class="item-location" title="Imported from ${escapeAttribute(TRACKER_NAMES[item.externalRef.system] || item.externalRef.system)}">
+            ${item.externalRef.url
+                ? `<a href="#" onclick="openExternalRef('${item.type}', '${item.id}'); return false;">${escapeHtml(item.externalRef.id)}</a>`
+                : escapeHtml(item.externalRef.id)}
+          </p>
+        ` : ''}
         
         <div class="item-meta">
           <span class="status-badge ${item.status}">${item.status.replace('-', ' ')}</span>
@@ -414,6 +1573,161 @@
         }
     }
 
+    // Where imported items came from
+    const TRACKER_NAMES = { github: 'GitHub', gitlab: 'GitLab', jira: 'Jira' };
+
+    // Links
+    const LINK_LABELS = {
+        'blocks': 'blocks',
+        'blocked-by': 'blocked by',
+        'relates-to': 'relates to',
+        'duplicate-of': 'duplicate of',
+        'duplicated-by': 'duplicated by',
+        'implements': 'implements',
+        'implemented-by': 'implemented by',
+        'parent-of': 'parent of',
+        'child-of': 'child of'
+    };
+
+    function findItem(type, id) {
+        return (currentData[type + 's'] || []).find(item => item.id === id);
+    }
+
+    function renderLinkChips(links, removable) {
+        if (links.length === 0) {
+            return removable ? '<span class="link-empty">No links</span>' : '';
+        }
+
+        return `
+      <div class="link-chips">
+        ${links.map((link, index) => {
+            const target = findItem(link.targetType, link.targetId);
+            const title = target ? target.title : `missing ${link.targetType}`;
+            return `
+          <span class="link-chip ${target ? '' : 'dangling'}">
+            <span class="link-chip-label" onclick="editItem('${link.targetType}', '${link.targetId}')">
+              ${LINK_LABELS[link.type]}: <span class="item-type ${link.targetType}">${link.targetType}</span> ${escapeHtml(title)}
+            </span>
+            ${removable ? `<button type="button" class="link-chip-remove" aria-label="Remove link" onclick="removeEditingLink(${index})">&times;</button>` : ''}
+          </span>
+        `;
+        }).join('')}
+      </div>
+    `;
+    }
+
+    function renderEditingLinks() {
+        elements.itemLinks.innerHTML = renderLinkChips(editingLinks, true);
+
+        const self = editingItem ? `${editingItem.type}:${editingItem.id}` : null;
+        const candidates = [...currentData.features, ...currentData.bugs, ...currentData.tasks]
+            .filter(item => `${item.type}:${item.id}` !== self);
+
+        elements.linkTarget.innerHTML = candidates.length > 0
+            ? candidates.map(item => `<option value="${item.type}:${item.id}">${item.type}: ${escapeHtml(item.title)}</option>`).join('')
+            : '<option value="">No other items</option>';
+        elements.linkAddBtn.disabled = candidates.length === 0;
+    }
+
+    function addEditingLink() {
+        const [targetType, targetId] = elements.linkTarget.value.split(':');
+        if (!targetType || !targetId) return;
+
+        const link = { type: elements.linkType.value, targetType, targetId };
+        const exists = editingLinks.some(existing =>
+            existing.type === link.type && existing.targetType === targetType && existing.targetId === targetId
+        );
+        if (!exists) {
+            editingLinks.push(link);
+            renderEditingLinks();
+        }
+    }
+
+    // Branches and commits whose names or messages mention the item being edited
+    function renderGitActivity({ type, id, commits, branches }) {
+        if (!editingItem || editingItem.type !== type || editingItem.id !== id) return;
+
+        elements.itemGitGroup.style.display = commits.length > 0 || branches.length > 0 ? '' : 'none';
+        elements.itemBranches.innerHTML = branches
+            .map(branch => `<span class="link-chip">⎇ ${escapeHtml(branch)}</span>`)
+            .join('');
+        elements.itemCommits.innerHTML = commits.map(commit => `
+      <li title="${escapeAttribute(commit.sha)}">
+        <code>${escapeHtml(commit.shortSha)}</code> ${escapeHtml(commit.subject)}
+        <span class="commit-meta">${escapeHtml(commit.author)}, ${formatDate(commit.date)}</span>
+      </li>
+    `).join('');
+    }
+
+    const AUDIT_VERBS = { create: 'created', update: 'updated', delete: 'deleted' };
+
+    function formatAuditValue(value) {
+        if (value === undefined || value === null || value === '') return '—';
+        if (Array.isArray(value)) {
+            return value.length > 0
+                ? value.map(element => typeof element === 'object' ? JSON.stringify(element) : String(element)).join(', ')
+                : '—';
+        }
+        const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+        return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+    }
+
+    // "status: open → in-progress, priority: low → high"
+    function summarizeChanges(changes) {
+        return changes
+            .map(change => `${change.field}: ${formatAuditValue(change.before)} → ${formatAuditValue(change.after)}`)
+            .join(', ');
+    }
+
+    // Audit log entries for the item being edited, newest first
+    function renderItemHistory({ type, id, entries }) {
+        if (!editingItem || editingItem.type !== type || editingItem.id !== id) return;
+
+        elements.itemHistoryGroup.style.display = entries.length > 0 ? '' : 'none';
+        elements.itemHistory.innerHTML = entries.map(entry => `
+      <li class="audit-entry">
+        <div class="audit-entry-header">
+          <strong>${escapeHtml(entry.actor)}</strong> ${AUDIT_VERBS[entry.action]} this ${entry.itemType}
+          <span class="audit-entry-time" title="${escapeAttribute(formatDateTime(entry.at))}">${formatRelativeTime(entry.at)}</span>
+        </div>
+        ${entry.action === 'update' ? `
+          <ul class="audit-changes">
+            ${entry.changes.map(change => `
+              <li>
+                <span class="audit-field">${escapeHtml(change.field)}</span>
+                <span class="audit-before">${escapeHtml(formatAuditValue(change.before))}</span>
+                → <span class="audit-after">${escapeHtml(formatAuditValue(change.after))}</span>
+              </li>
+            `).join('')}
+          </ul>
+        ` : ''}
+      </li>
+    `).join('');
+    }
+
+    // Source locations that mention the item being edited
+    function renderReferences({ type, id, references }) {
+        if (!editingItem || editingItem.type !== type || editingItem.id !== id) return;
+
+        elements.itemReferencesGroup.style.display = references.length > 0 ? '' : 'none';
+        elements.itemReferences.innerHTML = references.map((reference, index) => `
+      <li><a href="#" class="reference-link" data-index="${index}">${escapeHtml(reference.label)}</a></li>
+    `).join('');
+
+        elements.itemReferences.querySelectorAll('.reference-link').forEach(link => {
+            link.addEventListener('click', (e) => {
+                e.preventDefault();
+                const { uri, line, character } = references[Number(link.dataset.index)];
+                vscode.postMessage({ command: 'openReference', data: { uri, line, character } });
+            });
+        });
+    }
+
+    window.removeEditingLink = function (index) {
+        editingLinks.splice(index, 1);
+        renderEditingLinks();
+    };
+
     // Tab switching
     function switchTab(tabName) {
         // Update active tab
@@ -427,6 +1741,181 @@
         });
 
         currentTab = tabName;
+
+        if (tabName === 'history') {
+            loadHistory();
+        }
+    }
+
+    // History
+    function loadHistory() {
+        vscode.postMessage({ command: 'loadHistory' });
+    }
+
+    function renderHistory({ snapshots, policy }) {
+        const limits = [`last ${policy.maxCount} snapshots`];
+        if (policy.maxAgeDays > 0) limits.push(`at most ${policy.maxAgeDays} days old`);
+        if (policy.maxTotalSizeMB > 0) limits.push(`up to ${policy.maxTotalSizeMB} MB in total`);
+        elements.historyPolicy.textContent = `Keeping the ${limits.join(', ')}.`;
+
+        selectedSnapshots = selectedSnapshots.filter(file => snapshots.some(snapshot => snapshot.file === file));
+        updateCompareButton();
+
+        if (snapshots.length === 0) {
+            elements.historyList.innerHTML = '<p class="empty-state">No snapshots yet. One is taken every time project data is saved.</p>';
+            return;
+        }
+
+        elements.historyList.innerHTML = snapshots.map(snapshot => `
+      <div class="item-card snapshot-card">
+        <div class="item-header">
+          <label class="snapshot-select">
+            <input type="checkbox" ${selectedSnapshots.includes(snapshot.file) ? 'checked' : ''}
+              onchange="selectSnapshot('${snapshot.file}', this.checked)">
+            <h3 class="item-title">${formatDateTime(snapshot.timestamp)}</h3>
+          </label>
+          <span class="snapshot-size">${(snapshot.size / 1024).toFixed(1)} KB</span>
+        </div>
+
+        <div class="item-meta">
+          <span class="tag">${snapshot.itemCount} items</span>
+          <span class="snapshot-change added">+${snapshot.added}</span>
+          <span class="snapshot-change changed">~${snapshot.changed}</span>
+          <span class="snapshot-change removed">-${snapshot.removed}</span>
+
+          <div class="item-actions">
+            <button class="btn btn-secondary" onclick="toggleSnapshotDetail('${snapshot.file}')">Details</button>
+            <button class="btn btn-secondary" onclick="compareSnapshot('${snapshot.file}')">Diff with Current</button>
+            <button class="btn btn-danger" onclick="restoreSnapshot('${snapshot.file}')">Restore</button>
+          </div>
+        </div>
+
+        <div class="snapshot-detail" data-snapshot="${snapshot.file}"></div>
+      </div>
+    `).join('');
+    }
+
+    // Lists what restoring the snapshot would change, with per-item restore
+    function renderSnapshotDetail({ file, changes }) {
+        const container = elements.historyList.querySelector(`[data-snapshot="${file}"]`);
+        if (!container) return;
+
+        const restorable = [
+            ...changes.added.map(item => ({ item, label: 'Deleted since' })),
+            ...changes.updated.map(item => ({ item, label: 'Changed since' }))
+        ];
+
+        if (restorable.length === 0 && changes.removed.length === 0) {
+            container.innerHTML = '<p class="empty-state">Identical to the current data</p>';
+        } else {
+            container.innerHTML = `
+          ${restorable.map(({ item, label }) => `
+            <div class="snapshot-item">
+              <span class="item-type ${item.type}">${item.type}</span>
+              <span class="snapshot-item-title">${escapeHtml(item.title)}</span>
+              <span class="snapshot-item-label">${label}</span>
+              <button class="btn btn-secondary" onclick="restoreSnapshotItem('${file}', '${item.type}', '${item.id}')">Restore item</button>
+            </div>
+          `).join('')}
+          ${changes.removed.length > 0 ? `
+            <p class="snapshot-item-label">${changes.removed.length} item(s) created since this snapshot would be removed by a full restore.</p>
+          ` : ''}
+        `;
+        }
+
+        container.classList.add('active');
+    }
+
+    function updateCompareButton() {
+        elements.historyCompareBtn.disabled = selectedSnapshots.length !== 2;
+    }
+
+    window.selectSnapshot = function (file, checked) {
+        selectedSnapshots = selectedSnapshots.filter(selected => selected !== file);
+        if (checked) {
+            selectedSnapshots.push(file);
+        }
+        // Compare works on a pair; keep the two most recent selections
+        if (selectedSnapshots.length > 2) {
+            const dropped = selectedSnapshots.shift();
+            const checkbox = elements.historyList.querySelector(`input[onchange*="'${dropped}'"]`);
+            if (checkbox) checkbox.checked = false;
+        }
+        updateCompareButton();
+    };
+
+    window.toggleSnapshotDetail = function (file) {
+        const container = elements.historyList.querySelector(`[data-snapshot="${file}"]`);
+        if (container && container.classList.contains('active')) {
+            container.classList.remove('active');
+            return;
+        }
+        vscode.postMessage({ command: 'loadSnapshotDetail', data: { file } });
+    };
+
+    window.compareSnapshot = function (file) {
+        vscode.postMessage({ command: 'compareSnapshots', data: { left: file } });
+    };
+
+    window.restoreSnapshot = function (file) {
+        vscode.postMessage({ command: 'restoreSnapshot', data: { file } });
+    };
+
+    window.restoreSnapshotItem = function (file, type, id) {
+        vscode.postMessage({ command: 'restoreSnapshotItem', data: { file, type, id } });
+    };
+
+    // Search, evaluated by the extension across all item types
+    function runSearch(query) {
+        activeQuery = query.trim();
+        if (!activeQuery) {
+            if (currentTab === 'search') switchTab('dashboard');
+            return;
+        }
+
+        vscode.postMessage({ command: 'search', data: { query: activeQuery } });
+        switchTab('search');
+    }
+
+    // Re-runs the current search after the data changed
+    function refreshSearch() {
+        if (activeQuery && currentTab === 'search') {
+            vscode.postMessage({ command: 'search', data: { query: activeQuery } });
+        }
+    }
+
+    function renderSearchResults({ query, items, error }) {
+        // Ignore results for a query that has since been edited
+        if (query !== activeQuery) return;
+
+        searchResultItems = items;
+        elements.searchError.textContent = error || '';
+        elements.searchError.classList.toggle('visible', Boolean(error));
+        elements.searchSummary.textContent = error ? '' : `${items.length} item${items.length === 1 ? '' : 's'} matching ${query}`;
+
+        if (items.length === 0) {
+            elements.searchResults.innerHTML = error ? '' : `
+        <div class="empty-state">
+          <h3>No matching items</h3>
+          <p>Try fewer terms, or a field such as type:bug, status:open or tag:frontend</p>
+        </div>
+      `;
+            return;
+        }
+
+        elements.searchResults.innerHTML = items.map(item => createItemCard(item)).join('');
+    }
+
+    function renderSavedQueries(queries) {
+        savedQueries = queries;
+        const selected = elements.savedQueries.value;
+        elements.savedQueries.innerHTML = '<option value="">Saved queries</option>' + queries
+            .map(query => `<option value="${escapeAttribute(query.name)}" title="${escapeAttribute(query.query)}">${escapeHtml(query.name)}</option>`)
+            .join('');
+
+        const stillSaved = queries.some(query => query.name === selected);
+        elements.savedQueries.value = stillSaved ? selected : '';
+        elements.deleteQueryBtn.style.display = stillSaved ? '' : 'none';
     }
 
     // Filter items in lists
@@ -435,7 +1924,7 @@
         const items = currentData[type];
 
         const filteredItems = filter ?
-            items.filter(item => item.status === filter) :
+            items.filter(item => matchesListFilter(item, filter)) :
             items;
 
         updateItemList(type, filteredItems, elements[`${type}List`]);
@@ -445,22 +1934,52 @@
     function openModal(item = null) {
         editingItem = item;
 
+        elements.itemReferencesGroup.style.display = 'none';
+        elements.itemGitGroup.style.display = 'none';
+        elements.itemHistoryGroup.style.display = 'none';
+        elements.transferActions.style.display = item && projects.length > 1 ? 'flex' : 'none';
         if (item) {
             elements.modalTitle.textContent = `Edit ${item.type.charAt(0).toUpperCase() + item.type.slice(1)}`;
             populateForm(item);
+            vscode.postMessage({ command: 'loadReferences', data: { type: item.type, id: item.id } });
+            vscode.postMessage({ command: 'loadGitActivity', data: { type: item.type, id: item.id } });
+            vscode.postMessage({ command: 'loadItemHistory', data: { type: item.type, id: item.id } });
         } else {
             elements.modalTitle.textContent = 'Add New Item';
             elements.itemForm.reset();
             elements.itemType.value = 'feature';
             updateFormFields();
+            editingLinks = [];
+            renderEditingLinks();
         }
 
         elements.modal.classList.add('active');
     }
 
+    // Add form with some fields already filled in, e.g. from an editor selection
+    function openPrefilledModal(prefill) {
+        openModal();
+        elements.itemType.value = prefill.type;
+        updateFormFields();
+
+        elements.itemTitle.value = prefill.title || '';
+        elements.itemDescription.value = prefill.description || '';
+        if (prefill.priority) elements.itemPriority.value = prefill.priority;
+        if (prefill.tags) elements.itemTags.value = prefill.tags.join(', ');
+        if (prefill.environment !== undefined) {
+            const environment = elements.typeSpecificFields.querySelector('#environment');
+            if (environment) environment.value = prefill.environment;
+        }
+        editingLocation = prefill.location || null;
+    }
+
     function closeModal() {
         elements.modal.classList.remove('active');
+        hideModalWarning();
+        hideConflicts();
+        pendingSubmission = null;
         editingItem = null;
+        editingLocation = null;
         elements.itemForm.reset();
     }
 
@@ -472,6 +1991,8 @@
         elements.itemPriority.value = item.priority;
         elements.itemAssignee.value = item.assignee || '';
         elements.itemTags.value = item.tags.join(', ');
+        editingLinks = (item.links || []).map(link => ({ ...link }));
+        renderEditingLinks();
 
         updateFormFields();
 
@@ -481,9 +2002,9 @@
         const typeFields = elements.typeSpecificFields;
         switch (item.type) {
             case 'feature':
-                typeFields.querySelector('#epic')?.setvalue = item.epic || '';
-                typeFields.querySelector('#story-points')?.setvalue = item.storyPoints || '';
-                typeFields.querySelector('#acceptance-criteria')?.setvalue = item.acceptanceCriteria.join('\n');
+                typeFields.querySelector('#epic').value = item.epic || '';
+                typeFields.querySelector('#story-points').value = item.storyPoints || '';
+                typeFields.querySelector('#acceptance-criteria').value = item.acceptanceCriteria.join('\n');
                 break;
 
             case 'bug':
@@ -498,9 +2019,16 @@
                 typeFields.querySelector('#due-date').value = item.dueDate || '';
                 typeFields.querySelector('#estimated-hours').value = item.estimatedHours || '';
                 typeFields.querySelector('#actual-hours').value = item.actualHours || '';
+                // Logged time entries own actualHours; disabled fields aren't submitted
+                if (item.timeEntries && item.timeEntries.length > 0) {
+                    typeFields.querySelector('#actual-hours').disabled = true;
+                    typeFields.querySelector('#actual-hours').title = `Derived from ${item.timeEntries.length} logged time entries`;
+                }
                 typeFields.querySelector('#subtasks').value = item.subtasks.join('\n');
                 break;
         }
+
+        populateCustomFields(item);
     }
 
     // Update form fields based on selected type
@@ -512,19 +2040,18 @@
 
     // Update status options based on type
     function updateStatusOptions(type) {
-        const statusOptions = {
-            feature: ['backlog', 'planning', 'in-progress', 'testing', 'completed'],
-            bug: ['open', 'in-progress', 'resolved', 'closed', 'wont-fix'],
-            task: ['todo', 'in-progress', 'blocked', 'completed']
-        };
+        // When editing, only offer the transitions the workflow allows
+        const statusOptions = editingItem && editingItem.type === type
+            ? allowedStatuses(type, editingItem.status)
+            : config.statuses[type] || [];
 
         const currentValue = elements.itemStatus.value;
-        elements.itemStatus.innerHTML = statusOptions[type]
+        elements.itemStatus.innerHTML = statusOptions
             .map(status => `<option value="${status}">${status.replace('-', ' ')}</option>`)
             .join('');
 
         // Restore value if it's valid for the new type
-        if (statusOptions[type].includes(currentValue)) {
+        if (statusOptions.includes(currentValue)) {
             elements.itemStatus.value = currentValue;
         }
     }
@@ -614,6 +2141,151 @@
             default:
                 typeFields.innerHTML = '';
         }
+
+        typeFields.insertAdjacentHTML('beforeend', renderCustomFieldInputs(type));
+    }
+
+    // Custom fields, declared per type in .docsToCode/config.json
+    function fieldLabel(field) {
+        return field.label || field.name;
+    }
+
+    function renderCustomFieldInputs(type) {
+        const fields = config.customFields[type] || [];
+        if (fields.length === 0) return '';
+
+        // Suggest everyone already named on an item for user fields
+        const users = new Set();
+        if (currentData) {
+            [...currentData.features, ...currentData.bugs, ...currentData.tasks].forEach(item => {
+                if (item.assignee) users.add(item.assignee);
+                fields.filter(field => field.type === 'user').forEach(field => {
+                    const value = (item.customFields || {})[field.name];
+                    if (typeof value === 'string') users.add(value);
+                });
+            });
+        }
+
+        const input = field => {
+            const attributes = `id="custom-field-${escapeAttribute(field.name)}" data-custom-field="${escapeAttribute(field.name)}"`;
+            switch (field.type) {
+                case 'number':
+                    return `<input type="number" ${attributes} step="any">`;
+                case 'date':
+                    return `<input type="date" ${attributes}>`;
+                case 'user':
+                    return `<input type="text" ${attributes} list="custom-field-users">`;
+                case 'enum':
+                    return `<select ${attributes}>
+                <option value=""></option>
+                ${field.options.map(option => `<option value="${escapeAttribute(option)}">${escapeHtml(option)}</option>`).join('')}
+              </select>`;
+                case 'multi-select':
+                    return `<select ${attributes} multiple size="${Math.min(field.options.length, 4)}">
+                ${field.options.map(option => `<option value="${escapeAttribute(option)}">${escapeHtml(option)}</option>`).join('')}
+              </select>`;
+                default:
+                    return `<input type="text" ${attributes}>`;
+            }
+        };
+
+        return `
+          <h4>Custom Fields</h4>
+          ${fields.map(field => `
+          <div class="form-group">
+            <label for="custom-field-${escapeAttribute(field.name)}">${escapeHtml(fieldLabel(field))}</label>
+            ${input(field)}
+          </div>`).join('')}
+          <datalist id="custom-field-users">
+            ${[...users].sort().map(user => `<option value="${escapeAttribute(user)}">`).join('')}
+          </datalist>
+        `;
+    }
+
+    function populateCustomFields(item) {
+        const values = item.customFields || {};
+        elements.typeSpecificFields.querySelectorAll('[data-custom-field]').forEach(input => {
+            const value = values[input.dataset.customField];
+            if (input.multiple) {
+                const selected = Array.isArray(value) ? value : [];
+                Array.from(input.options).forEach(option => {
+                    option.selected = selected.includes(option.value);
+                });
+            } else {
+                input.value = value === undefined ? '' : String(value);
+            }
+        });
+    }
+
+    // Values of fields config.json no longer declares are kept as they are
+    function readCustomFields(type) {
+        const values = editingItem && editingItem.type === type ? { ...(editingItem.customFields || {}) } : {};
+        (config.customFields[type] || []).forEach(field => {
+            const input = elements.typeSpecificFields.querySelector(`[data-custom-field="${field.name}"]`);
+            if (!input) return;
+
+            let value;
+            if (field.type === 'multi-select') {
+                value = Array.from(input.selectedOptions).map(option => option.value);
+            } else if (field.type === 'number') {
+                value = input.value === '' ? undefined : parseFloat(input.value);
+            } else {
+                value = input.value.trim() || undefined;
+            }
+
+            if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+                delete values[field.name];
+            } else {
+                values[field.name] = value;
+            }
+        });
+        return values;
+    }
+
+    function getCustomFieldInfo(item) {
+        const values = item.customFields || {};
+        return (config.customFields[item.type] || [])
+            .filter(field => values[field.name] !== undefined)
+            .map(field => {
+                const value = values[field.name];
+                const text = Array.isArray(value) ? value.join(', ') : field.type === 'date' ? formatDate(value) : String(value);
+                return `<p><strong>${escapeHtml(fieldLabel(field))}:</strong> ${escapeHtml(text)}</p>`;
+            })
+            .join('');
+    }
+
+    // List filters offer the options of enum and multi-select fields next to the statuses, as "<field>=<option>"
+    function renderCustomFilters() {
+        ['features', 'bugs', 'tasks'].forEach(collection => {
+            const select = elements[`${collection}Filter`];
+            const selected = select.value;
+            select.querySelectorAll('optgroup[data-custom-field]').forEach(group => group.remove());
+
+            (config.customFields[collection.slice(0, -1)] || [])
+                .filter(field => field.options)
+                .forEach(field => {
+                    select.insertAdjacentHTML('beforeend', `
+                <optgroup label="${escapeAttribute(fieldLabel(field))}" data-custom-field="${escapeAttribute(field.name)}">
+                  ${field.options.map(option => `<option value="${escapeAttribute(`${field.name}=${option}`)}">${escapeHtml(option)}</option>`).join('')}
+                </optgroup>`);
+                });
+
+            // An option of a field that is gone falls back to all items
+            select.value = selected;
+            if (select.value !== selected) {
+                select.value = '';
+            }
+        });
+    }
+
+    function matchesListFilter(item, filter) {
+        const separator = filter.indexOf('=');
+        if (separator === -1) {
+            return item.status === filter;
+        }
+        const value = (item.customFields || {})[filter.slice(0, separator)];
+        const option = filter.slice(separator + 1);
+        return Array.isArray(value) ? value.includes(option) : value === option;
     }
 
     // Handle form submission
@@ -636,6 +2308,12 @@
 
         // Handle tags
         data.tags = data.tags || '';
+        data.links = editingLinks;
+
+        const customFields = readCustomFields(data.type);
+        if (Object.keys(customFields).length > 0 || (editingItem && editingItem.customFields)) {
+            data.customFields = customFields;
+        }
 
         // Handle type-specific arrays
         const type = data.type;
@@ -660,11 +2338,16 @@
 
         if (editingItem) {
             data.id = editingItem.id;
+            data.base = editingItem;
+            pendingSubmission = data;
             vscode.postMessage({
                 command: 'updateItem',
                 data: data
             });
         } else {
+            if (editingLocation) {
+                data.location = editingLocation;
+            }
             vscode.postMessage({
                 command: 'createItem',
                 data: data
@@ -681,6 +2364,26 @@
         }
     };
 
+    window.openExternalRef = function (type, id) {
+        const item = (currentData[type + 's'] || []).find(i => i.id === id);
+        if (item && item.externalRef && item.externalRef.url) {
+            vscode.postMessage({ command: 'openExternalRef', data: { url: item.externalRef.url } });
+        }
+    };
+
+    window.openLocation = function (type, id) {
+        const item = (currentData[type + 's'] || []).find(i => i.id === id);
+        if (item && item.location) {
+            vscode.postMessage({ command: 'openLocation', data: { type, id, location: item.location } });
+        }
+    };
+
+    // The extension asks for the target project and reports back with itemTransferred
+    function transferEditingItem(mode) {
+        if (!editingItem) return;
+        vscode.postMessage({ command: 'transferItem', data: { type: editingItem.type, id: editingItem.id, mode } });
+    }
+
     window.deleteItem = function (type, id) {
         if (confirm(`Are you sure you want to delete this ${type}?`)) {
             showLoading();
@@ -692,8 +2395,39 @@
     };
 
     // Export data
+    // Exports what the current tab shows, as filtered there
     function exportData() {
-        vscode.postMessage({ command: 'exportData' });
+        const { title, items } = currentView();
+        vscode.postMessage({
+            command: 'exportData',
+            data: { title, items: items.map(item => ({ type: item.type, id: item.id })) }
+        });
+    }
+
+    function currentView() {
+        if (!currentData) return { title: 'All items', items: [] };
+
+        if (['features', 'bugs', 'tasks'].includes(currentTab)) {
+            const filter = elements[`${currentTab}Filter`].value;
+            const label = currentTab.charAt(0).toUpperCase() + currentTab.slice(1);
+            return {
+                title: filter ? `${label} (${filter.includes('=') ? filter.replace('=', ': ') : filter.replace('-', ' ')})` : label,
+                items: filter ? currentData[currentTab].filter(item => matchesListFilter(item, filter)) : currentData[currentTab]
+            };
+        }
+        if (currentTab === 'search' && activeQuery) {
+            return { title: `Search: ${activeQuery}`, items: searchResultItems };
+        }
+        if (currentTab === 'sprints' && selectedSprintId) {
+            const sprint = (currentData.sprints || []).find(candidate => candidate.id === selectedSprintId);
+            if (sprint) {
+                return {
+                    title: `Sprint: ${sprint.name}`,
+                    items: [...currentData.features, ...currentData.bugs, ...currentData.tasks].filter(item => sprint.itemIds.includes(item.id))
+                };
+            }
+        }
+        return { title: 'All items', items: [...currentData.features, ...currentData.bugs, ...currentData.tasks] };
     }
 
     // Utility functions
@@ -726,6 +2460,10 @@
         return div.innerHTML;
     }
 
+    function escapeAttribute(text) {
+        return escapeHtml(text).replace(/"/g, '&quot;');
+    }
+
     function formatDate(dateString) {
         if (!dateString) return '';
 
@@ -741,6 +2479,23 @@
         }
     }
 
+    function formatDateTime(dateString) {
+        if (!dateString) return '';
+
+        try {
+            return new Date(dateString).toLocaleString('en-US', {
+                year: 'numeric',
+                month: 'short',
+                day: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit',
+                second: '2-digit'
+            });
+        } catch {
+            return dateString;
+        }
+    }
+
     function formatRelativeTime(dateString) {
         if (!dateString) return '';
 
@@ -781,9 +2536,9 @@
         }
 
         // Tab navigation with numbers
-        if ((e.ctrlKey || e.metaKey) && e.key >= '1' && e.key <= '4') {
+        if ((e.ctrlKey || e.metaKey) && e.key >= '1' && e.key <= '5') {
             e.preventDefault();
-            const tabs = ['dashboard', 'features', 'bugs', 'tasks'];
+            const tabs = ['dashboard', 'features', 'bugs', 'tasks', 'history'];
             const tabIndex = parseInt(e.key) - 1;
             if (tabs[tabIndex]) {
                 switchTab(tabs[tabIndex]);
@@ -1,5 +1,21 @@
+import { AnnotationProvider } from '@/providers/AnnotationProvider';
+import { ItemsTreeNode, ItemsTreeProvider } from '@/providers/ItemsTreeProvider';
+import { SearchQuickPick } from '@/providers/SearchQuickPick';
+import { ValidationDiagnosticsProvider } from '@/providers/ValidationDiagnosticsProvider';
 import { ProjectManagerWebviewProvider } from '@/providers/WebviewProvider';
+import { DATA_FORMAT_VERSION } from '@/schemas/project-schemas';
 import { DataManager } from '@/services/DataManager';
+import { WorkflowError } from '@/services/errors';
+import { GitService } from '@/services/GitService';
+import { ImportExportService } from '@/services/ImportExportService';
+import { ProjectService, TransferMode } from '@/services/ProjectService';
+import { ReferenceService } from '@/services/ReferenceService';
+import { SprintService } from '@/services/SprintService';
+import { StorageKind } from '@/services/StorageAdapter';
+import { TimeTrackingService } from '@/services/TimeTrackingService';
+import { TodoService } from '@/services/TodoService';
+import { UndoService } from '@/services/UndoService';
+import { parseTodo } from '@/utils/todos';
 import * as fs from 'fs';
 import * as path from 'path';
 import { promisify } from 'util';
@@ -7,24 +23,59 @@ import * as vscode from 'vscode';
 
 let webviewProvider: ProjectManagerWebviewProvider | undefined;
 
+// Per-folder watchers and diagnostics of each open project, by folder URI
+const openProjects = new Map<string, vscode.Disposable>();
+
+// Delay before re-reading project data after a burst of file system events
+const RELOAD_DEBOUNCE_MS = 300;
+
+const ACTIVE_PROJECT_KEY = 'docstocode.activeProject';
+
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
 
-    // Check if .docsToCode folder exists
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
+    if (!vscode.workspace.workspaceFolders?.length) {
         return;
     }
-    const projectManagerPath = path.join(workspaceFolder.uri.fsPath, '.docsTocode');
-
-    const access = promisify(fs.access);
 
     try {
-        await access(projectManagerPath);
+        // Every workspace folder with a .docsToCode folder is a project
+        const projectFolders = await findProjectFolders();
+        if (projectFolders.length === 0) {
+            throw new Error('No .docsToCode folder found');
+        }
 
         await vscode.commands.executeCommand('setContext', 'projectManagerActive', true);
 
-        const dataManager = DataManager.getInstance();
-        await dataManager.initialize();
+        for (const folder of projectFolders) {
+            openProjects.set(folder.uri.toString(), await openProject(folder));
+        }
+
+        const savedProject = DataManager.getProject(context.workspaceState.get<string>(ACTIVE_PROJECT_KEY, ''));
+        DataManager.setActive(savedProject ?? DataManager.forFolder(projectFolders[0]!));
+
+        const updateProjectsContext = (): void => {
+            vscode.commands.executeCommand('setContext', 'docstocode.multipleProjects', DataManager.getProjects().length > 1);
+        };
+        updateProjectsContext();
+
+        const projectListeners = [
+            DataManager.onDidChangeProjects(updateProjectsContext),
+            DataManager.onDidChangeActiveProject(manager => {
+                context.workspaceState.update(ACTIVE_PROJECT_KEY, manager.getProjectId());
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(async event => {
+                for (const folder of event.removed) {
+                    openProjects.get(folder.uri.toString())?.dispose();
+                    openProjects.delete(folder.uri.toString());
+                    DataManager.removeProject(folder);
+                }
+                for (const folder of event.added) {
+                    if (await hasProjectFolder(folder)) {
+                        openProjects.set(folder.uri.toString(), await openProject(folder));
+                    }
+                }
+            })
+        ];
 
         webviewProvider = new ProjectManagerWebviewProvider(context);
 
@@ -37,10 +88,421 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             }
         );
 
+        const browseHistoryCommand = vscode.commands.registerCommand(
+            'docstocode.browseHistory',
+            async () => {
+                if (webviewProvider) {
+                    await webviewProvider.showHistory();
+                }
+            }
+        );
+
+        const planSprintsCommand = vscode.commands.registerCommand(
+            'docstocode.planSprints',
+            async () => {
+                if (webviewProvider) {
+                    await webviewProvider.showSprints();
+                }
+            }
+        );
+
+        const createSprintCommand = vscode.commands.registerCommand(
+            'docstocode.createSprint',
+            async () => {
+                try {
+                    const sprint = await SprintService.getInstance().promptCreateSprint();
+                    if (sprint) {
+                        await webviewProvider?.showSprints();
+                    }
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to create sprint: ${error instanceof Error ? error.message : error}`);
+                }
+            }
+        );
+
+        // Scanning the workspace for annotations can take a while; don't hold up activation
+        const referenceService = ReferenceService.getInstance();
+        const annotationProvider = new AnnotationProvider(referenceService);
+        annotationProvider.initialize().catch(error => {
+            console.warn('Failed to scan for item references:', error);
+        });
+
+        const gitService = GitService.getInstance();
+        gitService.initialize(context.workspaceState).catch(error => {
+            console.warn('Failed to read git repository:', error);
+        });
+
+        const syncGitCommand = vscode.commands.registerCommand(
+            'docstocode.syncGit',
+            async () => {
+                try {
+                    await gitService.sync();
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Git sync failed: ${error}`);
+                }
+            }
+        );
+
+        const undoService = UndoService.getInstance();
+        const undoCommands = (['undo', 'redo'] as const).map(action => vscode.commands.registerCommand(
+            `docstocode.${action}`,
+            async () => {
+                try {
+                    const label = await undoService[action]();
+                    vscode.window.setStatusBarMessage(
+                        label ? `${action === 'undo' ? 'Undid' : 'Redid'}: ${label}` : `Nothing to ${action}`,
+                        3000
+                    );
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to ${action}: ${error instanceof Error ? error.message : error}`);
+                }
+            }
+        ));
+
+        const timeTrackingService = TimeTrackingService.getInstance();
+        timeTrackingService.initialize(context.workspaceState);
+
+        const timerCommands = [
+            // Also offered on tasks in the Items view, which pass their node
+            vscode.commands.registerCommand('docstocode.startTimer', async (node?: ItemsTreeNode) => {
+                try {
+                    await timeTrackingService.start(node?.kind === 'item' && node.item.type === 'task' ? node.item : undefined);
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to start timer: ${error}`);
+                }
+            }),
+
+            vscode.commands.registerCommand('docstocode.stopTimer', async () => {
+                await timeTrackingService.stop();
+            })
+        ];
+
+        const itemsTreeProvider = new ItemsTreeProvider();
+        const itemsTreeView = vscode.window.createTreeView('docstocode.items', {
+            treeDataProvider: itemsTreeProvider,
+            showCollapseAll: true
+        });
+        itemsTreeProvider.attach(itemsTreeView);
+
+        const treeCommands = [
+            vscode.commands.registerCommand('docstocode.tree.refresh', () => itemsTreeProvider.refresh()),
+
+            vscode.commands.registerCommand('docstocode.tree.openItem', async (node?: ItemsTreeNode) => {
+                if (node?.kind === 'item') {
+                    await webviewProvider?.showItem(node.item);
+                }
+            }),
+
+            vscode.commands.registerCommand('docstocode.tree.changeStatus', async (node?: ItemsTreeNode) => {
+                if (node?.kind !== 'item') {
+                    return;
+                }
+                const { item } = node;
+                const dataManager = DataManager.getInstance();
+                const workflow = dataManager.getWorkflowService().getWorkflow(item.type);
+                const next = workflow.transitions[item.status] ?? [];
+
+                if (next.length === 0) {
+                    vscode.window.showInformationMessage(`The workflow allows no status changes from "${item.status}"`);
+                    return;
+                }
+
+                const status = await vscode.window.showQuickPick(next, {
+                    title: `Change status of "${item.title}"`,
+                    placeHolder: `Currently ${item.status}`
+                });
+                if (!status) {
+                    return;
+                }
+
+                try {
+                    await dataManager.updateItem(item.type, item.id, { status: status as typeof item.status }, item);
+                } catch (error) {
+                    if (error instanceof WorkflowError) {
+                        vscode.window.showWarningMessage(error.message);
+                    } else {
+                        vscode.window.showErrorMessage(`Failed to change status: ${error}`);
+                    }
+                }
+            }),
+
+            vscode.commands.registerCommand('docstocode.tree.assign', async (node?: ItemsTreeNode) => {
+                if (node?.kind !== 'item') {
+                    return;
+                }
+                const { item } = node;
+                const assignee = await vscode.window.showInputBox({
+                    title: `Assign "${item.title}"`,
+                    prompt: 'Leave empty to unassign',
+                    value: item.assignee ?? ''
+                });
+                if (assignee === undefined) {
+                    return;
+                }
+
+                try {
+                    const updates = { assignee: assignee.trim() || undefined } as Partial<Omit<typeof item, 'id' | 'type' | 'createdAt'>>;
+                    await DataManager.getInstance().updateItem(item.type, item.id, updates, item);
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to assign item: ${error}`);
+                }
+            }),
+
+            vscode.commands.registerCommand('docstocode.tree.deleteItem', async (node?: ItemsTreeNode) => {
+                if (node?.kind !== 'item') {
+                    return;
+                }
+                const { item } = node;
+                const result = await vscode.window.showWarningMessage(
+                    `Are you sure you want to delete the ${item.type} "${item.title}"?`,
+                    { modal: true },
+                    'Delete'
+                );
+                if (result !== 'Delete') {
+                    return;
+                }
+
+                try {
+                    const mark = undoService.mark();
+                    await DataManager.getInstance().deleteItem(item.type, item.id);
+                    undoService.offerUndo(`Deleted ${item.type} "${item.title}"`, mark);
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to delete item: ${error}`);
+                }
+            }),
+
+            ...(['copy', 'move'] as TransferMode[]).map(mode => vscode.commands.registerCommand(
+                mode === 'copy' ? 'docstocode.tree.copyToProject' : 'docstocode.tree.moveToProject',
+                async (node?: ItemsTreeNode) => {
+                    if (node?.kind === 'item') {
+                        await ProjectService.getInstance().promptTransfer(DataManager.getInstance(), node.item, mode);
+                    }
+                }
+            ))
+        ];
+
+        const switchProjectCommand = vscode.commands.registerCommand(
+            'docstocode.switchProject',
+            async () => {
+                const manager = await ProjectService.getInstance().pickProject('Switch Project');
+                if (manager) {
+                    DataManager.setActive(manager);
+                }
+            }
+        );
+
+        const todoService = TodoService.getInstance();
+
+        const createBugFromSelectionCommand = vscode.commands.registerCommand(
+            'docstocode.createBugFromSelection',
+            async () => {
+                const editor = vscode.window.activeTextEditor;
+                if (!editor || editor.selection.isEmpty) {
+                    vscode.window.showInformationMessage('Select the code the bug is about first');
+                    return;
+                }
+
+                const { document, selection } = editor;
+                const selectedText = document.getText(selection);
+                // The bug goes to the project of the file's folder, which the dashboard switches to
+                const owner = todoService.projectFor(document.uri) ?? DataManager.getInstance();
+                DataManager.setActive(owner);
+                const location = todoService.toLocation(document.uri, selection.start.line, undefined, owner);
+                const firstLine = selectedText.split(/\r?\n/).map(line => line.trim()).find(Boolean) ?? '';
+
+                await webviewProvider?.showNewItem({
+                    type: 'bug',
+                    // Comment markers make poor titles
+                    title: firstLine.replace(/^(\/\/+|#+|\/\*+|\*+|<!--)\s*/, '').slice(0, 200),
+                    description: `${location.file}:${location.line}\n\n${selectedText}`.slice(0, 2000),
+                    environment: `${vscode.env.appName} ${vscode.version}, ${process.platform}, ${document.languageId}`,
+                    location
+                });
+            }
+        );
+
+        const createTaskFromTodoCommand = vscode.commands.registerCommand(
+            'docstocode.createTaskFromTodo',
+            async () => {
+                const editor = vscode.window.activeTextEditor;
+                if (!editor) {
+                    return;
+                }
+
+                const line = editor.selection.active.line;
+                const todo = parseTodo(editor.document.lineAt(line).text);
+                if (!todo || !todo.text) {
+                    vscode.window.showInformationMessage('There is no TODO or FIXME comment on this line');
+                    return;
+                }
+
+                const owner = todoService.projectFor(editor.document.uri) ?? DataManager.getInstance();
+                DataManager.setActive(owner);
+                const location = todoService.toLocation(editor.document.uri, line, todo.text, owner);
+                const warnings: string[] = [];
+                await webviewProvider?.showNewItem(todoService.toTaskData({ ...todo, line }, location, owner, warnings));
+                if (warnings.length > 0) {
+                    vscode.window.showWarningMessage(`The TODO comment was too long for a title (${warnings.join('; ')}); the description has the full text`);
+                }
+            }
+        );
+
+        const importTodosCommand = vscode.commands.registerCommand(
+            'docstocode.importTodos',
+            async () => {
+                try {
+                    const result = await vscode.window.withProgress(
+                        {
+                            location: vscode.ProgressLocation.Notification,
+                            title: 'Importing TODO comments',
+                            cancellable: true
+                        },
+                        (progress, token) => todoService.importWorkspaceTodos(progress, token)
+                    );
+
+                    vscode.window.showInformationMessage(
+                        `Created ${result.created} task(s) from TODO/FIXME comments` +
+                        (result.skipped > 0 ? `; ${result.skipped} already had a task` : '')
+                    );
+                    if (result.shortened > 0) {
+                        vscode.window.showWarningMessage(
+                            `${result.shortened} TODO comment(s) were too long for a title and were shortened; the task descriptions have the full text`
+                        );
+                    }
+                } catch (error) {
+                    vscode.window.showErrorMessage(`TODO import failed: ${error}`);
+                }
+            }
+        );
+
+        const searchQuickPick = new SearchQuickPick(async item => {
+            await webviewProvider?.showItem(item);
+        });
+
+        const searchItemsCommand = vscode.commands.registerCommand(
+            'docstocode.searchItems',
+            async (query?: string) => {
+                try {
+                    await searchQuickPick.show(typeof query === 'string' ? query : '');
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Search failed: ${error}`);
+                }
+            }
+        );
+
+        const previewMigrationCommand = vscode.commands.registerCommand(
+            'docstocode.previewMigration',
+            async () => {
+                try {
+                    const dataManager = DataManager.getInstance();
+                    const preview = await dataManager.previewMigration();
+
+                    if (preview.applied.length === 0) {
+                        vscode.window.showInformationMessage(
+                            `Project data is already at format version ${DATA_FORMAT_VERSION}. No migration needed.`
+                        );
+                        return;
+                    }
+
+                    const steps = preview.applied
+                        .map(migration => `${migration.from} → ${migration.to}: ${migration.description}`)
+                        .join('\n');
+                    const warning = preview.valid
+                        ? ''
+                        : '\n\nWarning: the migrated data would not pass validation.';
+
+                    const result = await vscode.window.showInformationMessage(
+                        `Migrating project data from ${preview.fromVersion} to ${DATA_FORMAT_VERSION} would apply ${preview.applied.length} step(s). Nothing has been changed.`,
+                        { modal: true, detail: steps + warning },
+                        'Show Diff'
+                    );
+
+                    if (result === 'Show Diff') {
+                        const migrated = await vscode.workspace.openTextDocument({
+                            content: preview.after,
+                            language: 'json'
+                        });
+                        const dataFile = dataManager.getStorage().dataFile;
+                        const current = dataFile
+                            ? vscode.Uri.file(dataFile)
+                            : (await vscode.workspace.openTextDocument({ content: preview.before, language: 'json' })).uri;
+                        await vscode.commands.executeCommand(
+                            'vscode.diff',
+                            current,
+                            migrated.uri,
+                            `project-data.json ↔ Migrated to ${DATA_FORMAT_VERSION} (dry run)`
+                        );
+                    }
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Migration preview failed: ${error}`);
+                }
+            }
+        );
+
+        const convertStorageCommand = vscode.commands.registerCommand(
+            'docstocode.convertStorage',
+            async () => {
+                const dataManager = DataManager.getInstance();
+                const current = dataManager.getStorage().kind;
+                const picked = await vscode.window.showQuickPick(
+                    STORAGE_OPTIONS.filter(option => option.storage !== current),
+                    { title: `Change Storage Adapter (currently: ${STORAGE_OPTIONS.find(option => option.storage === current)?.label})` }
+                );
+                if (picked && await convertStorage(dataManager, picked.storage)) {
+                    // Keep the setting in line so the next start picks the same adapter
+                    await vscode.workspace.getConfiguration('docstocode.storage', dataManager.getFolder().uri)
+                        .update('adapter', picked.storage, vscode.ConfigurationTarget.WorkspaceFolder);
+                }
+            }
+        );
+
+        const storageSettingListener = vscode.workspace.onDidChangeConfiguration(event => {
+            for (const manager of DataManager.getProjects()) {
+                if (event.affectsConfiguration('docstocode.storage.adapter', manager.getFolder())) {
+                    offerStorageConversion(manager);
+                }
+            }
+        });
+
+        const createWorkflowCommand = vscode.commands.registerCommand(
+            'docstocode.createWorkflow',
+            async () => {
+                try {
+                    const workflowService = DataManager.getInstance().getWorkflowService();
+                    const created = await workflowService.createWorkflowFile();
+                    if (!created) {
+                        vscode.window.showInformationMessage('This project already has a workflow.json');
+                    }
+                    await vscode.window.showTextDocument(vscode.Uri.file(workflowService.getWorkflowPath()));
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to create workflow definition: ${error}`);
+                }
+            }
+        );
+
+        const createConfigCommand = vscode.commands.registerCommand(
+            'docstocode.createConfig',
+            async () => {
+                try {
+                    const configService = DataManager.getInstance().getConfigService();
+                    const created = await configService.createConfigFile();
+                    if (!created) {
+                        vscode.window.showInformationMessage('This project already has a config.json');
+                    }
+                    await vscode.window.showTextDocument(vscode.Uri.file(configService.getConfigPath()));
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to create project config: ${error}`);
+                }
+            }
+        );
+
         const createProjectCommand = vscode.commands.registerCommand(
             'docstocode.createProject',
             async () => {
-                await createProjectManagerFolder();
+                const folder = await createProjectManagerFolder();
+                if (folder && !openProjects.has(folder.uri.toString())) {
+                    openProjects.set(folder.uri.toString(), await openProject(folder));
+                }
             }
         );
 
@@ -78,22 +540,24 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
                         canSelectFolders: false,
                         canSelectMany: false,
                         filters: {
-                            'JSON Files': ['json']
+                            'Project Data, CSV or Issue Export': ['json', 'csv']
                         },
-                        title: 'Select Project Data File to Import'
+                        title: 'Select Project Data, CSV or GitHub, GitLab or Jira Export to Import'
                     });
 
-                    if (fileUri && fileUri[0]) {
+                    // CSV rows and tracker issues are merged into the items rather than replacing them
+                    if (fileUri && fileUri[0] &&
+                        await ImportExportService.getInstance().mergeFile(DataManager.getInstance(), fileUri[0].fsPath) === undefined) {
                         const result = await vscode.window.showWarningMessage(
-                            'Importing will replace all current project data. This action cannot be undone.',
+                            'Importing will replace all current project data.',
                             { modal: true },
                             'Import'
                         );
 
                         if (result === 'Import') {
-                            const dataManager = DataManager.getInstance();
-                            await dataManager.importData(fileUri[0].fsPath);
-                            vscode.window.showInformationMessage('Data imported successfully!');
+                            const mark = undoService.mark();
+                            await DataManager.getInstance().importData(fileUri[0].fsPath);
+                            undoService.offerUndo('Data imported successfully!', mark);
                         }
                     }
                 } catch (error) {
@@ -115,23 +579,44 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         // Add to subscriptions
         context.subscriptions.push(
             openDashboardCommand,
+            browseHistoryCommand,
+            planSprintsCommand,
+            createSprintCommand,
+            searchItemsCommand,
+            createBugFromSelectionCommand,
+            createTaskFromTodoCommand,
+            importTodosCommand,
+            previewMigrationCommand,
+            createWorkflowCommand,
+            createConfigCommand,
+            convertStorageCommand,
+            storageSettingListener,
+            switchProjectCommand,
+            ...projectListeners,
             createProjectCommand,
             exportDataCommand,
             importDataCommand,
-            statusBarItem
-        );
-
-        const watcher = vscode.workspace.createFileSystemWatcher(
-            new vscode.RelativePattern(workspaceFolder, '.docsTocode/**/*')
+            statusBarItem,
+            itemsTreeProvider,
+            itemsTreeView,
+            referenceService,
+            annotationProvider,
+            gitService,
+            syncGitCommand,
+            timeTrackingService,
+            undoService,
+            ...undoCommands,
+            ...timerCommands,
+            ...treeCommands
         );
 
-        watcher.onDidChange(() => {
-            // console.log('Project manager data changed');
-            // Could refresh webview here if needed
+        context.subscriptions.push({
+            dispose: () => {
+                openProjects.forEach(project => project.dispose());
+                openProjects.clear();
+            }
         });
 
-        context.subscriptions.push(watcher);
-
         // console.log('Project Manager Pro extension activated successfully');
 
         // Show welcome message on first activation
@@ -160,27 +645,179 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             'Not now'
         );
 
-        if (result === 'Initialize') {
-            await createProjectManagerFolder();
+        if (result === 'Initialize' && await createProjectManagerFolder()) {
             // Restart extension activation
             await activate(context);
         }
     }
 }
 
-async function createProjectManagerFolder(): Promise<void> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
-        vscode.window.showErrorMessage('No workspace folder found');
+async function hasProjectFolder(folder: vscode.WorkspaceFolder): Promise<boolean> {
+    try {
+        await promisify(fs.access)(path.join(folder.uri.fsPath, '.docsToCode'));
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+async function findProjectFolders(): Promise<vscode.WorkspaceFolder[]> {
+    const folders: vscode.WorkspaceFolder[] = [];
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        if (await hasProjectFolder(folder)) {
+            folders.push(folder);
+        }
+    }
+    return folders;
+}
+
+/**
+ * Loads a folder's project and sets up what each project needs on its
+ * own: validation diagnostics and reloading on external changes.
+ */
+async function openProject(folder: vscode.WorkspaceFolder): Promise<vscode.Disposable> {
+    const dataManager = DataManager.forFolder(folder);
+    await dataManager.initialize();
+
+    const diagnosticsProvider = new ValidationDiagnosticsProvider(dataManager);
+    await diagnosticsProvider.refresh();
+
+    let reloadTimer: NodeJS.Timeout | undefined;
+    const scheduleReload = (): void => {
+        if (reloadTimer) {
+            clearTimeout(reloadTimer);
+        }
+        reloadTimer = setTimeout(() => {
+            reloadTimer = undefined;
+            diagnosticsProvider.refresh().catch(() => undefined);
+            dataManager.reloadFromDisk().catch(error => {
+                console.warn('Failed to reload project data:', error);
+            });
+        }, RELOAD_DEBOUNCE_MS);
+    };
+
+    // Follows the data across storage adapter changes
+    const storageListener = dataManager.onDidTouchStorage(scheduleReload);
+
+    const workflowWatcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(folder, '.docsToCode/workflow.json')
+    );
+    const reloadWorkflows = (): void => {
+        dataManager.getWorkflowService().load().catch(error => {
+            console.warn('Failed to reload workflow definition:', error);
+        });
+    };
+
+    workflowWatcher.onDidChange(reloadWorkflows);
+    workflowWatcher.onDidCreate(reloadWorkflows);
+    workflowWatcher.onDidDelete(reloadWorkflows);
+
+    const configWatcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(folder, '.docsToCode/config.json')
+    );
+    const reloadConfig = (): void => {
+        dataManager.getConfigService().load().catch(error => {
+            console.warn('Failed to reload project config:', error);
+        });
+    };
+
+    configWatcher.onDidChange(reloadConfig);
+    configWatcher.onDidCreate(reloadConfig);
+    configWatcher.onDidDelete(reloadConfig);
+
+    offerStorageConversion(dataManager);
+
+    return vscode.Disposable.from(diagnosticsProvider, storageListener, workflowWatcher, configWatcher, {
+        dispose: () => {
+            if (reloadTimer) {
+                clearTimeout(reloadTimer);
+            }
+        }
+    });
+}
+
+const STORAGE_OPTIONS: { label: string; description: string; storage: StorageKind }[] = [
+    { label: 'Single JSON file', description: '.docsToCode/project-data.json', storage: 'json' },
+    { label: 'One Markdown file per item', description: '.docsToCode/features|bugs|tasks/<id>.md', storage: 'markdown' },
+    { label: 'SQLite database', description: '.docsToCode/project-data.sqlite', storage: 'sqlite' }
+];
+
+// Moves the data to another adapter after confirming; returns whether it did
+async function convertStorage(dataManager: DataManager, kind: StorageKind): Promise<boolean> {
+    const label = STORAGE_OPTIONS.find(option => option.storage === kind)?.label ?? kind;
+    const confirmed = await vscode.window.showWarningMessage(
+        `Move project data to "${label}"?`,
+        { modal: true, detail: 'The data is removed from the current storage afterwards. Commit or back it up first if it is not in version control.' },
+        'Move Data'
+    );
+    if (confirmed !== 'Move Data') {
+        return false;
+    }
+
+    try {
+        await dataManager.convertStorage(kind);
+        vscode.window.showInformationMessage(`Project data is now stored as: ${label}`);
+        return true;
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to move project data: ${error instanceof Error ? error.message : error}`);
+        return false;
+    }
+}
+
+/**
+ * Points out when the data is not where docstocode.storage.adapter says,
+ * e.g. after the setting changed, and offers to move it.
+ */
+function offerStorageConversion(dataManager: DataManager): void {
+    const configured = dataManager.getConfiguredStorageKind();
+    const current = dataManager.getStorage().kind;
+    if (configured === current) {
         return;
     }
+
+    const label = (kind: StorageKind): string => STORAGE_OPTIONS.find(option => option.storage === kind)?.label ?? kind;
+    vscode.window.showInformationMessage(
+        `Project data is stored as "${label(current)}" but docstocode.storage.adapter is set to "${label(configured)}".`,
+        'Move Data'
+    ).then(choice => {
+        if (choice === 'Move Data') {
+            return convertStorage(dataManager, configured);
+        }
+        return undefined;
+    });
+}
+
+async function createProjectManagerFolder(): Promise<vscode.WorkspaceFolder | undefined> {
+    const folders = [];
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        if (!await hasProjectFolder(folder)) {
+            folders.push(folder);
+        }
+    }
+    if (folders.length === 0) {
+        vscode.window.showErrorMessage(vscode.workspace.workspaceFolders?.length
+            ? 'Every workspace folder already has a project'
+            : 'No workspace folder found');
+        return undefined;
+    }
+
+    const workspaceFolder = folders.length === 1
+        ? folders[0]
+        : (await vscode.window.showQuickPick(
+            folders.map(folder => ({ label: folder.name, description: folder.uri.fsPath, folder })),
+            { title: 'Initialize Project Manager in folder' }
+        ))?.folder;
+    if (!workspaceFolder) {
+        return undefined;
+    }
+
     try {
         const projectManagerPath = path.join(workspaceFolder.uri.fsPath, '.docsToCode');
         const mkdir = promisify(fs.mkdir);
         await mkdir(projectManagerPath, { recursive: true });
 
         // Create initial project data
-        const dataManager = DataManager.getInstance();
+        const dataManager = DataManager.forFolder(workspaceFolder);
         await dataManager.initialize();
 
         vscode.window.showInformationMessage(
@@ -192,8 +829,10 @@ async function createProjectManagerFolder(): Promise<void> {
             }
         });
 
+        return workspaceFolder;
     } catch (error) {
         vscode.window.showErrorMessage(`Failed to initialize Project Manager: ${error}`);
+        return undefined;
     }
 }
 
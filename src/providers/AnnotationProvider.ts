@@ -0,0 +1,193 @@
+import { ProjectData, ProjectItem } from '@/schemas/project-schemas';
+import { DataManager } from '@/services/DataManager';
+import { ItemReference, ReferenceService } from '@/services/ReferenceService';
+import { findItem } from '@/utils/links';
+import * as vscode from 'vscode';
+
+/**
+ * Shows the item behind each source annotation (`// DTC-BUG: <id>`,
+ * `@feature <id>`) as a CodeLens and hover, and reports annotations that
+ * point at deleted or closed items in the Problems panel.
+ */
+export class AnnotationProvider implements vscode.CodeLensProvider, vscode.HoverProvider, vscode.Disposable {
+    private readonly diagnostics: vscode.DiagnosticCollection;
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+    public readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+    // Each project's data, as references resolve against the project of their file
+    private readonly data = new Map<DataManager, ProjectData>();
+    private readonly subscriptions = new Map<DataManager, vscode.Disposable>();
+
+    constructor(private readonly referenceService: ReferenceService) {
+        this.diagnostics = vscode.languages.createDiagnosticCollection('docstocode-references');
+
+        const selector: vscode.DocumentSelector = { scheme: 'file' };
+        this.disposables.push(
+            this.diagnostics,
+            this._onDidChangeCodeLenses,
+            vscode.languages.registerCodeLensProvider(selector, this),
+            vscode.languages.registerHoverProvider(selector, this),
+            this.referenceService.onDidChangeReferences(() => this.refresh()),
+            DataManager.onDidChangeProjects(() => this.subscribe()),
+            // Files outside every project resolve against the active one
+            DataManager.onDidChangeActiveProject(() => this.refresh()),
+            { dispose: () => this.subscriptions.forEach(subscription => subscription.dispose()) }
+        );
+    }
+
+    public async initialize(): Promise<void> {
+        this.subscribe();
+        await this.referenceService.scanWorkspace();
+    }
+
+    // Follows projects being opened and closed with the workspace folders
+    private subscribe(): void {
+        const projects = new Set(DataManager.getProjects());
+        for (const [manager, subscription] of this.subscriptions) {
+            if (!projects.has(manager)) {
+                subscription.dispose();
+                this.subscriptions.delete(manager);
+                this.data.delete(manager);
+            }
+        }
+        for (const manager of projects) {
+            if (!this.subscriptions.has(manager)) {
+                this.subscriptions.set(manager, vscode.Disposable.from(
+                    manager.onDidChangeData(data => this.setData(manager, data)),
+                    manager.onDidSaveData(data => this.setData(manager, data))
+                ));
+                manager.loadData().then(data => this.setData(manager, data), () => undefined);
+            }
+        }
+        this.refresh();
+    }
+
+    private setData(manager: DataManager, data: ProjectData): void {
+        this.data.set(manager, data);
+        this.refresh();
+    }
+
+    private refresh(): void {
+        this.updateDiagnostics();
+        this._onDidChangeCodeLenses.fire();
+    }
+
+    // The project whose folder holds the reference
+    private managerFor(reference: ItemReference): DataManager {
+        const folder = vscode.workspace.getWorkspaceFolder(reference.uri);
+        return (folder && DataManager.getProject(folder.uri.toString())) || DataManager.getInstance();
+    }
+
+    // Undefined until the project's data is loaded
+    private dataFor(reference: ItemReference): ProjectData | undefined {
+        return this.data.get(this.managerFor(reference));
+    }
+
+    private resolve(reference: ItemReference): ProjectItem | undefined {
+        const data = this.dataFor(reference);
+        return data ? findItem(data, reference) : undefined;
+    }
+
+    private rangeOf(reference: ItemReference): vscode.Range {
+        return new vscode.Range(
+            reference.line,
+            reference.character,
+            reference.line,
+            reference.character + reference.length
+        );
+    }
+
+    private updateDiagnostics(): void {
+        const byFile = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+        for (const reference of this.referenceService.getAllReferences()) {
+            if (!this.dataFor(reference)) {
+                continue;
+            }
+
+            const item = this.resolve(reference);
+            let diagnostic: vscode.Diagnostic | undefined;
+
+            if (!item) {
+                diagnostic = new vscode.Diagnostic(
+                    this.rangeOf(reference),
+                    `References ${reference.type} ${reference.id}, which does not exist or was deleted`,
+                    vscode.DiagnosticSeverity.Warning
+                );
+            } else if (this.managerFor(reference).getWorkflowService().getClosedStatuses(item.type).includes(item.status)) {
+                diagnostic = new vscode.Diagnostic(
+                    this.rangeOf(reference),
+                    `References ${item.type} "${item.title}", which is ${item.status}`,
+                    vscode.DiagnosticSeverity.Information
+                );
+            }
+
+            if (diagnostic) {
+                diagnostic.source = 'DocsToCode';
+                const key = reference.uri.toString();
+                const entry = byFile.get(key) ?? { uri: reference.uri, diagnostics: [] };
+                entry.diagnostics.push(diagnostic);
+                byFile.set(key, entry);
+            }
+        }
+
+        this.diagnostics.clear();
+        for (const { uri, diagnostics } of byFile.values()) {
+            this.diagnostics.set(uri, diagnostics);
+        }
+    }
+
+    public provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        return this.referenceService.getReferencesInFile(document.uri)
+            .filter(reference => this.dataFor(reference))
+            .map(reference => {
+                const item = this.resolve(reference);
+                const range = this.rangeOf(reference);
+
+                if (!item) {
+                    return new vscode.CodeLens(range, {
+                        title: `$(warning) Unknown ${reference.type} ${reference.id}`,
+                        command: ''
+                    });
+                }
+
+                return new vscode.CodeLens(range, {
+                    title: `${item.title} · ${item.status} · ${item.priority}`,
+                    tooltip: `Open this ${item.type} in the dashboard`,
+                    command: 'docstocode.tree.openItem',
+                    arguments: [{ kind: 'item', item }]
+                });
+            });
+    }
+
+    public provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const reference = this.referenceService.getReferencesInFile(document.uri)
+            .find(candidate => this.rangeOf(candidate).contains(position));
+        if (!reference || !this.dataFor(reference)) {
+            return undefined;
+        }
+
+        const item = this.resolve(reference);
+        if (!item) {
+            return new vscode.Hover(`**Unknown ${reference.type}** \`${reference.id}\``, this.rangeOf(reference));
+        }
+
+        const referenceCount = this.referenceService.getReferences(item.type, item.id).length;
+        const markdown = new vscode.MarkdownString();
+        markdown.appendMarkdown(`**${item.title}**\n\n`);
+        markdown.appendMarkdown(`${item.type} · ${item.status} · ${item.priority}`);
+        if (item.assignee) {
+            markdown.appendMarkdown(` · ${item.assignee}`);
+        }
+        if (item.description) {
+            markdown.appendMarkdown('\n\n');
+            markdown.appendText(item.description);
+        }
+        markdown.appendMarkdown(`\n\nReferenced in ${referenceCount} place${referenceCount === 1 ? '' : 's'}`);
+
+        return new vscode.Hover(markdown, this.rangeOf(reference));
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
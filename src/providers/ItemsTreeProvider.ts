@@ -0,0 +1,226 @@
+import { Feature, ProjectData, ProjectItem } from '@/schemas/project-schemas';
+import { DataManager } from '@/services/DataManager';
+import { getAllItems } from '@/utils/diff';
+import * as vscode from 'vscode';
+
+export type ItemsTreeNode =
+    | { kind: 'type'; type: ProjectItem['type'] }
+    | { kind: 'status'; type: ProjectItem['type']; status: string }
+    | { kind: 'epic'; status: string; epic: string }
+    | { kind: 'item'; item: ProjectItem };
+
+const TYPE_LABELS: Record<ProjectItem['type'], string> = {
+    feature: 'Features',
+    bug: 'Bugs',
+    task: 'Tasks'
+};
+
+const TYPE_ICONS: Record<ProjectItem['type'], string> = {
+    feature: 'zap',
+    bug: 'bug',
+    task: 'tasklist'
+};
+
+const PRIORITY_COLORS: Record<ProjectItem['priority'], string | undefined> = {
+    critical: 'errorForeground',
+    high: 'list.warningForeground',
+    medium: undefined,
+    low: 'descriptionForeground'
+};
+
+function formatStatus(status: string): string {
+    return status.replace(/-/g, ' ').replace(/^\w/, letter => letter.toUpperCase());
+}
+
+/**
+ * Sidebar tree of the active project's items grouped by type and status,
+ * with features further grouped by epic. Refreshes whenever DataManager
+ * saves or reloads data, or another project becomes active.
+ */
+export class ItemsTreeProvider implements vscode.TreeDataProvider<ItemsTreeNode>, vscode.Disposable {
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<ItemsTreeNode | undefined>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private readonly disposables: vscode.Disposable[] = [];
+    private data: ProjectData | undefined;
+    private treeView: vscode.TreeView<ItemsTreeNode> | undefined;
+
+    constructor() {
+        this.disposables.push(
+            this._onDidChangeTreeData,
+            DataManager.followActiveProject(manager => [
+                manager.onDidChangeData(data => this.setData(data)),
+                manager.onDidSaveData(data => this.setData(data)),
+                manager.getWorkflowService().onDidChangeWorkflows(() => this.refresh())
+            ]),
+            DataManager.onDidChangeActiveProject(() => this.refresh()),
+            DataManager.onDidChangeProjects(() => this.updateDescription())
+        );
+    }
+
+    private get dataManager(): DataManager {
+        return DataManager.getInstance();
+    }
+
+    public attach(treeView: vscode.TreeView<ItemsTreeNode>): void {
+        this.treeView = treeView;
+        this.updateBadge();
+        this.updateDescription();
+    }
+
+    public refresh(): void {
+        this.data = undefined;
+        this.updateDescription();
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    // Names the project shown, once there is more than one to choose from
+    private updateDescription(): void {
+        if (this.treeView) {
+            this.treeView.description = DataManager.getProjects().length > 1 ? this.dataManager.getProjectName() : '';
+        }
+    }
+
+    private setData(data: ProjectData): void {
+        this.data = data;
+        this.updateBadge();
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    private async getData(): Promise<ProjectData> {
+        if (!this.data) {
+            this.data = await this.dataManager.loadData();
+            this.updateBadge();
+        }
+        return this.data;
+    }
+
+    private updateBadge(): void {
+        if (!this.treeView || !this.data) {
+            return;
+        }
+        const count = getAllItems(this.data).length;
+        this.treeView.badge = count > 0
+            ? { value: count, tooltip: `${count} item${count === 1 ? '' : 's'}` }
+            : undefined;
+    }
+
+    private itemsOfType(data: ProjectData, type: ProjectItem['type']): ProjectItem[] {
+        return getAllItems(data).filter(item => item.type === type);
+    }
+
+    // Workflow statuses in order, plus any status still used by an item
+    private statusesOf(data: ProjectData, type: ProjectItem['type']): string[] {
+        const statuses = [...this.dataManager.getWorkflowService().getWorkflow(type).statuses];
+        for (const item of this.itemsOfType(data, type)) {
+            if (!statuses.includes(item.status)) {
+                statuses.push(item.status);
+            }
+        }
+        return statuses;
+    }
+
+    public async getChildren(node?: ItemsTreeNode): Promise<ItemsTreeNode[]> {
+        const data = await this.getData();
+
+        if (!node) {
+            return (['feature', 'bug', 'task'] as const).map(type => ({ kind: 'type', type }));
+        }
+
+        switch (node.kind) {
+            case 'type':
+                return this.statusesOf(data, node.type).map(status => ({ kind: 'status', type: node.type, status }));
+
+            case 'status': {
+                const items = this.itemsOfType(data, node.type).filter(item => item.status === node.status);
+                if (node.type !== 'feature') {
+                    return items.map(item => ({ kind: 'item', item }));
+                }
+
+                // Features with an epic are grouped under it; the rest follow
+                const epics = [...new Set(items.map(item => (item as Feature).epic).filter((epic): epic is string => !!epic))].sort();
+                return [
+                    ...epics.map(epic => ({ kind: 'epic', status: node.status, epic }) as ItemsTreeNode),
+                    ...items.filter(item => !(item as Feature).epic).map(item => ({ kind: 'item', item }) as ItemsTreeNode)
+                ];
+            }
+
+            case 'epic':
+                return data.features
+                    .filter(feature => feature.status === node.status && feature.epic === node.epic)
+                    .map(item => ({ kind: 'item', item }));
+
+            default:
+                return [];
+        }
+    }
+
+    public getTreeItem(node: ItemsTreeNode): vscode.TreeItem {
+        const data = this.data;
+
+        switch (node.kind) {
+            case 'type': {
+                const count = data ? this.itemsOfType(data, node.type).length : 0;
+                const treeItem = new vscode.TreeItem(TYPE_LABELS[node.type], vscode.TreeItemCollapsibleState.Expanded);
+                treeItem.id = `type:${node.type}`;
+                treeItem.description = String(count);
+                treeItem.iconPath = new vscode.ThemeIcon(TYPE_ICONS[node.type]);
+                treeItem.contextValue = 'type';
+                return treeItem;
+            }
+
+            case 'status': {
+                const count = data
+                    ? this.itemsOfType(data, node.type).filter(item => item.status === node.status).length
+                    : 0;
+                const treeItem = new vscode.TreeItem(
+                    formatStatus(node.status),
+                    count > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+                );
+                treeItem.id = `status:${node.type}:${node.status}`;
+                treeItem.description = String(count);
+                treeItem.contextValue = 'status';
+                return treeItem;
+            }
+
+            case 'epic': {
+                const count = data
+                    ? data.features.filter(feature => feature.status === node.status && feature.epic === node.epic).length
+                    : 0;
+                const treeItem = new vscode.TreeItem(node.epic, vscode.TreeItemCollapsibleState.Collapsed);
+                treeItem.id = `epic:${node.status}:${node.epic}`;
+                treeItem.description = String(count);
+                treeItem.iconPath = new vscode.ThemeIcon('layers');
+                treeItem.contextValue = 'epic';
+                return treeItem;
+            }
+
+            case 'item': {
+                const { item } = node;
+                const color = PRIORITY_COLORS[item.priority];
+                const treeItem = new vscode.TreeItem(item.title, vscode.TreeItemCollapsibleState.None);
+                treeItem.id = `item:${item.type}:${item.id}`;
+                treeItem.description = [item.priority, item.assignee].filter(Boolean).join(' · ');
+                treeItem.tooltip = new vscode.MarkdownString(
+                    `**${item.title}**\n\n${item.type} · ${formatStatus(item.status)} · ${item.priority}` +
+                    (item.assignee ? ` · ${item.assignee}` : '') +
+                    (item.description ? `\n\n${item.description}` : '')
+                );
+                treeItem.iconPath = color
+                    ? new vscode.ThemeIcon(TYPE_ICONS[item.type], new vscode.ThemeColor(color))
+                    : new vscode.ThemeIcon(TYPE_ICONS[item.type]);
+                treeItem.contextValue = `item.${item.type}`;
+                treeItem.command = {
+                    command: 'docstocode.tree.openItem',
+                    title: 'Open Item',
+                    arguments: [node]
+                };
+                return treeItem;
+            }
+        }
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
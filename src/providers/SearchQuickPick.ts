@@ -0,0 +1,137 @@
+import { ProjectData, ProjectItem } from '@/schemas/project-schemas';
+import { DataManager } from '@/services/DataManager';
+import { SavedQuery, SearchService } from '@/services/SearchService';
+import { searchItems } from '@/utils/query';
+import * as vscode from 'vscode';
+
+const TYPE_ICONS: Record<ProjectItem['type'], string> = {
+    feature: '$(zap)',
+    bug: '$(bug)',
+    task: '$(tasklist)'
+};
+
+// Results beyond this are dropped; refine the query to see them
+const MAX_RESULTS = 200;
+
+interface ResultPick extends vscode.QuickPickItem {
+    item?: ProjectItem;
+    savedQuery?: SavedQuery;
+}
+
+/**
+ * "Search Items" quick pick: evaluates the query as it is typed and lists
+ * saved queries while the input is empty.
+ */
+export class SearchQuickPick {
+    private readonly saveButton: vscode.QuickInputButton = {
+        iconPath: new vscode.ThemeIcon('save'),
+        tooltip: 'Save Query'
+    };
+    private readonly deleteButton: vscode.QuickInputButton = {
+        iconPath: new vscode.ThemeIcon('trash'),
+        tooltip: 'Delete Saved Query'
+    };
+
+    constructor(private readonly onOpenItem: (item: ProjectItem) => Promise<void>) { }
+
+    public async show(initialQuery = ''): Promise<void> {
+        const searchService = SearchService.getInstance();
+        const data = await DataManager.getInstance().loadData();
+        let savedQueries = await searchService.getSavedQueries();
+
+        const quickPick = vscode.window.createQuickPick<ResultPick>();
+        quickPick.title = 'Search Items';
+        quickPick.placeholder = 'e.g. type:bug severity:>=high assignee:me tag:frontend updated:<7d "login"';
+        quickPick.buttons = [this.saveButton];
+        // Results are already filtered by the query language
+        quickPick.matchOnDescription = false;
+        quickPick.value = initialQuery;
+
+        const refresh = (): void => {
+            quickPick.items = quickPick.value.trim()
+                ? this.getResultPicks(data, quickPick.value, searchService)
+                : this.getSavedQueryPicks(savedQueries);
+        };
+
+        quickPick.onDidChangeValue(refresh);
+
+        quickPick.onDidAccept(async () => {
+            const [selected] = quickPick.selectedItems;
+            if (selected?.savedQuery) {
+                quickPick.value = selected.savedQuery.query;
+                refresh();
+            } else if (selected?.item) {
+                quickPick.hide();
+                await this.onOpenItem(selected.item);
+            }
+        });
+
+        quickPick.onDidTriggerButton(async () => {
+            const query = quickPick.value.trim();
+            if (!query) {
+                vscode.window.showInformationMessage('Type a query to save first');
+                return;
+            }
+            const name = await vscode.window.showInputBox({ prompt: 'Name for this query', value: query });
+            if (!name) {
+                return;
+            }
+            try {
+                await searchService.saveQuery(name, query);
+                savedQueries = await searchService.getSavedQueries();
+                vscode.window.showInformationMessage(`Saved query "${name}"`);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to save query: ${error instanceof Error ? error.message : error}`);
+            }
+        });
+
+        quickPick.onDidTriggerItemButton(async event => {
+            const savedQuery = event.item.savedQuery;
+            if (!savedQuery) {
+                return;
+            }
+            await searchService.deleteQuery(savedQuery.name);
+            savedQueries = await searchService.getSavedQueries();
+            refresh();
+        });
+
+        quickPick.onDidHide(() => quickPick.dispose());
+
+        refresh();
+        quickPick.show();
+    }
+
+    private getResultPicks(data: ProjectData, query: string, searchService: SearchService): ResultPick[] {
+        let results: ProjectItem[];
+        try {
+            results = searchItems(data, query, searchService.getContext());
+        } catch (error) {
+            return [{
+                label: '$(error) Invalid query',
+                detail: error instanceof Error ? error.message : String(error),
+                alwaysShow: true
+            }];
+        }
+
+        if (results.length === 0) {
+            return [{ label: 'No matching items', alwaysShow: true }];
+        }
+
+        return results.slice(0, MAX_RESULTS).map(item => ({
+            label: `${TYPE_ICONS[item.type]} ${item.title}`,
+            description: [item.status, item.priority, item.assignee].filter(Boolean).join(' · '),
+            ...(item.tags.length > 0 ? { detail: item.tags.map(tag => `#${tag}`).join(' ') } : {}),
+            alwaysShow: true,
+            item
+        }));
+    }
+
+    private getSavedQueryPicks(savedQueries: SavedQuery[]): ResultPick[] {
+        return savedQueries.map(savedQuery => ({
+            label: `$(search) ${savedQuery.name}`,
+            description: savedQuery.query,
+            buttons: [this.deleteButton],
+            savedQuery
+        }));
+    }
+}
@@ -0,0 +1,169 @@
+import { DataManager } from '@/services/DataManager';
+import { ValidationIssue } from '@/utils/validation';
+import { applyEdits, modify } from 'jsonc-parser';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * Reports validation problems in project-data.json in the Problems panel
+ * and offers quick fixes for the common ones. Storage adapters without a
+ * single JSON document (markdown, sqlite) have nothing to report on.
+ */
+export class ValidationDiagnosticsProvider implements vscode.CodeActionProvider, vscode.Disposable {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private readonly diagnostics: vscode.DiagnosticCollection;
+    private readonly issuesByDiagnostic = new Map<string, ValidationIssue>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly dataManager: DataManager) {
+        this.diagnostics = vscode.languages.createDiagnosticCollection('docstocode');
+
+        this.disposables.push(
+            this.diagnostics,
+            vscode.languages.registerCodeActionsProvider(
+                // The adapter can change after conversion, isDataFile tells the current file
+                { pattern: new vscode.RelativePattern(this.dataManager.getDataPath(), '*.json') },
+                this,
+                { providedCodeActionKinds: ValidationDiagnosticsProvider.providedCodeActionKinds }
+            ),
+            vscode.workspace.onDidOpenTextDocument(document => this.refreshDocument(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.refreshDocument(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                // Fall back to the saved file once the editor buffer is gone
+                if (this.isDataFile(document.uri)) {
+                    this.refresh().catch(() => undefined);
+                }
+            })
+        );
+    }
+
+    // Asked of the adapter each time, as the storage can be converted at runtime
+    private get dataFile(): string | undefined {
+        return this.dataManager.getStorage().dataFile;
+    }
+
+    // Re-checks the file on disk, unless it is open in an editor
+    public async refresh(): Promise<void> {
+        const dataFile = this.dataFile;
+        if (!dataFile) {
+            this.issuesByDiagnostic.clear();
+            this.diagnostics.clear();
+            return;
+        }
+
+        const openDocument = vscode.workspace.textDocuments.find(document => this.isDataFile(document.uri));
+        if (openDocument) {
+            this.refreshDocument(openDocument);
+            return;
+        }
+
+        try {
+            const content = await vscode.workspace.fs.readFile(vscode.Uri.file(dataFile));
+            this.update(vscode.Uri.file(dataFile), Buffer.from(content).toString('utf-8'), undefined);
+        } catch {
+            this.diagnostics.clear();
+        }
+    }
+
+    private refreshDocument(document: vscode.TextDocument): void {
+        if (this.isDataFile(document.uri)) {
+            this.update(document.uri, document.getText(), document);
+        }
+    }
+
+    private update(uri: vscode.Uri, text: string, document: vscode.TextDocument | undefined): void {
+        const issues = this.dataManager.getValidationIssues(text);
+        const lineOffsets = document ? undefined : this.computeLineOffsets(text);
+
+        const toPosition = (offset: number): vscode.Position => {
+            if (document) {
+                return document.positionAt(offset);
+            }
+            let line = 0;
+            while (line + 1 < lineOffsets!.length && lineOffsets![line + 1]! <= offset) {
+                line++;
+            }
+            return new vscode.Position(line, offset - lineOffsets![line]!);
+        };
+
+        this.issuesByDiagnostic.clear();
+        this.diagnostics.clear();
+        const diagnostics = issues.map(issue => {
+            const range = new vscode.Range(toPosition(issue.offset), toPosition(issue.offset + issue.length));
+            const diagnostic = new vscode.Diagnostic(range, issue.message, vscode.DiagnosticSeverity.Error);
+            diagnostic.source = 'DocsToCode';
+            this.issuesByDiagnostic.set(this.diagnosticKey(range, issue.message), issue);
+            return diagnostic;
+        });
+
+        this.diagnostics.set(uri, diagnostics);
+    }
+
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        if (!this.isDataFile(document.uri)) {
+            return [];
+        }
+
+        const text = document.getText();
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of context.diagnostics) {
+            const issue = this.issuesByDiagnostic.get(this.diagnosticKey(diagnostic.range, diagnostic.message));
+            if (!issue) {
+                continue;
+            }
+
+            issue.fixes.forEach((fix, index) => {
+                const edits = modify(text, fix.path, fix.value, {
+                    formattingOptions: { insertSpaces: true, tabSize: 2 }
+                });
+                if (edits.length === 0) {
+                    return;
+                }
+
+                // Replace the whole document so overlapping edits stay consistent
+                const updated = applyEdits(text, edits);
+                const action = new vscode.CodeAction(fix.label, vscode.CodeActionKind.QuickFix);
+                action.diagnostics = [diagnostic];
+                action.isPreferred = issue.fixes.length === 1 && index === 0;
+                action.edit = new vscode.WorkspaceEdit();
+                action.edit.replace(
+                    document.uri,
+                    new vscode.Range(document.positionAt(0), document.positionAt(text.length)),
+                    updated
+                );
+                actions.push(action);
+            });
+        }
+
+        return actions;
+    }
+
+    private isDataFile(uri: vscode.Uri): boolean {
+        const dataFile = this.dataFile;
+        return !!dataFile && uri.scheme === 'file' && path.normalize(uri.fsPath) === path.normalize(dataFile);
+    }
+
+    private diagnosticKey(range: vscode.Range, message: string): string {
+        return `${range.start.line}:${range.start.character}:${message}`;
+    }
+
+    private computeLineOffsets(text: string): number[] {
+        const offsets = [0];
+        for (let i = 0; i < text.length; i++) {
+            if (text[i] === '\n') {
+                offsets.push(i + 1);
+            }
+        }
+        return offsets;
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -1,13 +1,100 @@
-import { DataManager } from '@/services/DataManager';
+import { CodeLocation, ProjectData, ProjectItem } from '@/schemas/project-schemas';
+import { BatchOperation, BatchResult, DataManager, ItemUpdates } from '@/services/DataManager';
+import { MergeConflictError, WorkflowError } from '@/services/errors';
+import { GitService } from '@/services/GitService';
+import { HistoryService } from '@/services/HistoryService';
+import { ImportExportService } from '@/services/ImportExportService';
+import { ALL_PROJECTS, ProjectService, TransferMode } from '@/services/ProjectService';
+import { ReferenceService } from '@/services/ReferenceService';
+import { SearchService } from '@/services/SearchService';
+import { SprintService } from '@/services/SprintService';
+import { TodoService } from '@/services/TodoService';
+import { UndoService } from '@/services/UndoService';
+import { diffProjectData, getAllItems, hasChanges, ItemRef } from '@/utils/diff';
 import * as vscode from 'vscode';
 
 export class ProjectManagerWebviewProvider {
     private static readonly viewType = 'docstocode.dashboard';
     private panel: vscode.WebviewPanel | undefined;
-    private dataManager: DataManager;
+    private historyService: HistoryService;
+    private searchService: SearchService;
+    private sprintService: SprintService;
+    private projectService: ProjectService;
+    private lastSentData: ProjectData | undefined;
+    // Whether the dashboard shows every project's items rather than the active one's
+    private showAll = false;
+    // Owning project of each item in the combined view
+    private owners = new Map<string, DataManager>();
+    private projectSubscriptions: vscode.Disposable[] = [];
+    private readonly disposables: vscode.Disposable[] = [];
 
     constructor(private context: vscode.ExtensionContext) {
-        this.dataManager = DataManager.getInstance();
+        this.historyService = HistoryService.getInstance();
+        this.searchService = SearchService.getInstance();
+        this.sprintService = SprintService.getInstance();
+        this.projectService = ProjectService.getInstance();
+        this.subscribeToProjects();
+        this.disposables.push(
+            this.searchService.onDidChangeSavedQueries(queries => {
+                this.panel?.webview.postMessage({ command: 'savedQueriesLoaded', data: queries });
+            }),
+            DataManager.followActiveProject(manager => [
+                manager.getWorkflowService().onDidChangeWorkflows(() => this.sendConfigToWebview()),
+                manager.getConfigService().onDidChangeConfig(() => this.sendConfigToWebview())
+            ]),
+            DataManager.onDidChangeProjects(() => {
+                this.subscribeToProjects();
+                this.sendProjectsToWebview();
+            }),
+            DataManager.onDidChangeActiveProject(() => {
+                this.showAll = false;
+                this.sendEverythingToWebview().catch(error => console.error('Error switching project:', error));
+            }),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('docstocode.board')) {
+                    this.sendConfigToWebview();
+                }
+            })
+        );
+    }
+
+    private get dataManager(): DataManager {
+        return DataManager.getInstance();
+    }
+
+    // Every project, since the combined view shows changes to any of them
+    private subscribeToProjects(): void {
+        this.projectSubscriptions.forEach(subscription => subscription.dispose());
+        this.projectSubscriptions = DataManager.getProjects().flatMap(manager => [
+            manager.onDidChangeData(data => this.handleProjectData(manager, data)),
+            manager.onDidSaveData(data => this.handleProjectData(manager, data)),
+            manager.getAuditLog().onDidAppend(() => {
+                if (this.showAll || manager === this.dataManager) {
+                    this.sendActivityToWebview();
+                }
+            })
+        ]);
+    }
+
+    private handleProjectData(manager: DataManager, data: ProjectData): void {
+        if (this.showAll) {
+            this.loadAllProjects()
+                .then(aggregated => this.pushExternalChanges(aggregated))
+                .catch(error => console.warn('Failed to reload projects:', error));
+        } else if (manager === this.dataManager) {
+            this.pushExternalChanges(data);
+        }
+    }
+
+    private async loadAllProjects(): Promise<ProjectData> {
+        const { data, owners } = await this.projectService.loadAll();
+        this.owners = owners;
+        return data;
+    }
+
+    // The project an item message is about; in the combined view, the item's own
+    private managerFor(item: ItemRef): DataManager {
+        return (this.showAll && this.owners.get(`${item.type}:${item.id}`)) || this.dataManager;
     }
 
     public async show(): Promise<void> {
@@ -40,12 +127,37 @@ export class ProjectManagerWebviewProvider {
 
         this.panel.onDidDispose(() => {
             this.panel = undefined;
+            this.lastSentData = undefined;
         });
 
         // Load initial data
+        this.sendConfigToWebview();
+        this.sendProjectsToWebview();
         await this.sendDataToWebview();
     }
 
+    public async showHistory(): Promise<void> {
+        await this.show();
+        this.panel?.webview.postMessage({ command: 'switchTab', tab: 'history' });
+    }
+
+    public async showSprints(): Promise<void> {
+        await this.show();
+        this.panel?.webview.postMessage({ command: 'switchTab', tab: 'sprints' });
+    }
+
+    // Opens the dashboard with the add form prefilled, e.g. from an editor selection
+    public async showNewItem(prefill: Partial<ProjectItem> & { type: ProjectItem['type']; location?: CodeLocation }): Promise<void> {
+        await this.show();
+        this.panel?.webview.postMessage({ command: 'newItem', data: prefill });
+    }
+
+    // Opens the dashboard with the item's edit form showing
+    public async showItem(item: ProjectItem): Promise<void> {
+        await this.show();
+        this.panel?.webview.postMessage({ command: 'openItem', data: { type: item.type, id: item.id } });
+    }
+
     private async getWebviewContent(): Promise<string> {
         const stylesUri = this.panel!.webview.asWebviewUri(
             vscode.Uri.joinPath(this.context.extensionUri, 'media', 'styles.css')
@@ -75,10 +187,18 @@ export class ProjectManagerWebviewProvider {
                   Project Manager Pro
                 </h1>
                 <div class="project-info">
+                  <select id="project-select" class="filter-select project-select" aria-label="Project" hidden></select>
                   <span id="project-name" class="project-name"></span>
                   <span id="last-updated" class="last-updated"></span>
                 </div>
               </div>
+              <div class="header-search" role="search">
+                <input type="search" id="search-input" class="search-input" placeholder='Search, e.g. type:bug severity:>=high "login"' aria-label="Search items">
+                <select id="saved-queries" class="filter-select" aria-label="Saved queries">
+                  <option value="">Saved queries</option>
+                </select>
+                <button id="save-query-btn" class="btn btn-secondary" title="Save this query">Save</button>
+              </div>
               <div class="header-actions">
                 <button id="add-item-btn" class="btn btn-primary">
                   <svg viewBox="0 0 24 24" fill="none">
@@ -92,6 +212,12 @@ export class ProjectManagerWebviewProvider {
                   </svg>
                   Export
                 </button>
+                <button id="import-btn" class="btn btn-secondary">
+                  <svg viewBox="0 0 24 24" fill="none">
+                    <path d="M21 15v4a2 2 0 01-2 2H5a2 2 0 01-2-2v-4m4-5l5 5 5-5m-5 5V3" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>
+                  </svg>
+                  Import
+                </button>
               </div>
             </div>
           </header>
@@ -121,6 +247,18 @@ export class ProjectManagerWebviewProvider {
               </svg>
               Tasks <span id="tasks-count" class="count">0</span>
             </button>
+            <button class="tab" data-tab="sprints">
+              <svg viewBox="0 0 24 24" fill="none">
+                <path d="M3 3v18h18M7 14l4-4 4 4 5-5" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>
+              </svg>
+              Sprints
+            </button>
+            <button class="tab" data-tab="history">
+              <svg viewBox="0 0 24 24" fill="none">
+                <path d="M3 12a9 9 0 109-9 9.75 9.75 0 00-6.74 2.74L3 8m0-5v5h5m4-1v5l4 2" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>
+              </svg>
+              History
+            </button>
           </nav>
 
           <main class="main">
@@ -138,6 +276,29 @@ export class ProjectManagerWebviewProvider {
                   <h3>High Priority Items</h3>
                   <div id="high-priority" class="priority-list"></div>
                 </div>
+                <div class="time-card">
+                  <h3>Estimates vs Actuals</h3>
+                  <div id="time-variance"></div>
+                </div>
+                <div class="timesheet-card">
+                  <div class="timesheet-header">
+                    <h3>Weekly Timesheet</h3>
+                    <div class="timesheet-nav">
+                      <button id="timesheet-prev" class="btn btn-secondary" aria-label="Previous week">&lsaquo;</button>
+                      <span id="timesheet-week"></span>
+                      <button id="timesheet-next" class="btn btn-secondary" aria-label="Next week">&rsaquo;</button>
+                    </div>
+                  </div>
+                  <div id="timesheet"></div>
+                </div>
+                <div class="burndown-card">
+                  <h3 id="dashboard-burndown-title">Burndown</h3>
+                  <div id="dashboard-burndown"></div>
+                </div>
+                <div class="velocity-card">
+                  <h3>Velocity</h3>
+                  <div id="velocity"></div>
+                </div>
               </div>
             </div>
 
@@ -145,6 +306,15 @@ export class ProjectManagerWebviewProvider {
               <div class="view-header">
                 <h2>Features</h2>
                 <div class="filters">
+                  <div class="view-toggle" role="group" aria-label="View mode">
+                    <button class="btn btn-secondary active" data-view-mode="list" data-collection="features">List</button>
+                    <button class="btn btn-secondary" data-view-mode="board" data-collection="features">Board</button>
+                  </div>
+                  <select id="features-swimlane" class="filter-select swimlane-select" data-collection="features" aria-label="Swimlanes">
+                    <option value="">No swimlanes</option>
+                    <option value="assignee">By assignee</option>
+                    <option value="priority">By priority</option>
+                  </select>
                   <select id="features-filter" class="filter-select">
                     <option value="">All Statuses</option>
                     <option value="backlog">Backlog</option>
@@ -155,13 +325,24 @@ export class ProjectManagerWebviewProvider {
                   </select>
                 </div>
               </div>
+              <div id="features-bulk" class="bulk-bar" hidden></div>
               <div id="features-list" class="items-list"></div>
+              <div id="features-board" class="board"></div>
             </div>
 
             <div id="bugs-view" class="view">
               <div class="view-header">
                 <h2>Bugs</h2>
                 <div class="filters">
+                  <div class="view-toggle" role="group" aria-label="View mode">
+                    <button class="btn btn-secondary active" data-view-mode="list" data-collection="bugs">List</button>
+                    <button class="btn btn-secondary" data-view-mode="board" data-collection="bugs">Board</button>
+                  </div>
+                  <select id="bugs-swimlane" class="filter-select swimlane-select" data-collection="bugs" aria-label="Swimlanes">
+                    <option value="">No swimlanes</option>
+                    <option value="assignee">By assignee</option>
+                    <option value="priority">By priority</option>
+                  </select>
                   <select id="bugs-filter" class="filter-select">
                     <option value="">All Statuses</option>
                     <option value="open">Open</option>
@@ -172,13 +353,24 @@ export class ProjectManagerWebviewProvider {
                   </select>
                 </div>
               </div>
+              <div id="bugs-bulk" class="bulk-bar" hidden></div>
               <div id="bugs-list" class="items-list"></div>
+              <div id="bugs-board" class="board"></div>
             </div>
 
             <div id="tasks-view" class="view">
               <div class="view-header">
                 <h2>Tasks</h2>
                 <div class="filters">
+                  <div class="view-toggle" role="group" aria-label="View mode">
+                    <button class="btn btn-secondary active" data-view-mode="list" data-collection="tasks">List</button>
+                    <button class="btn btn-secondary" data-view-mode="board" data-collection="tasks">Board</button>
+                  </div>
+                  <select id="tasks-swimlane" class="filter-select swimlane-select" data-collection="tasks" aria-label="Swimlanes">
+                    <option value="">No swimlanes</option>
+                    <option value="assignee">By assignee</option>
+                    <option value="priority">By priority</option>
+                  </select>
                   <select id="tasks-filter" class="filter-select">
                     <option value="">All Statuses</option>
                     <option value="todo">To Do</option>
@@ -188,7 +380,65 @@ export class ProjectManagerWebviewProvider {
                   </select>
                 </div>
               </div>
+              <div id="tasks-bulk" class="bulk-bar" hidden></div>
               <div id="tasks-list" class="items-list"></div>
+              <div id="tasks-board" class="board"></div>
+            </div>
+
+            <div id="sprints-view" class="view">
+              <div class="view-header">
+                <h2>Sprints</h2>
+                <div class="filters">
+                  <select id="sprint-select" class="filter-select" aria-label="Sprint"></select>
+                  <button id="new-sprint-btn" class="btn btn-primary">New Sprint</button>
+                  <button id="delete-sprint-btn" class="btn btn-secondary">Delete Sprint</button>
+                </div>
+              </div>
+              <div id="sprint-summary" class="sprint-summary"></div>
+              <div id="sprint-planning" class="sprint-planning">
+                <div class="sprint-column">
+                  <div class="sprint-column-header">
+                    <h3>Backlog</h3>
+                    <button id="sprint-add-btn" class="btn btn-secondary" disabled>Add to Sprint</button>
+                  </div>
+                  <div id="sprint-backlog" class="sprint-list"></div>
+                </div>
+                <div class="sprint-column">
+                  <div class="sprint-column-header">
+                    <h3>Committed</h3>
+                    <span id="sprint-capacity" class="sprint-capacity"></span>
+                  </div>
+                  <div id="sprint-items" class="sprint-list"></div>
+                </div>
+              </div>
+              <div class="burndown-card">
+                <h3>Burndown</h3>
+                <div id="sprint-burndown"></div>
+              </div>
+            </div>
+
+            <div id="history-view" class="view">
+              <div class="view-header">
+                <h2>History</h2>
+                <div class="filters">
+                  <button id="history-compare-btn" class="btn btn-secondary" disabled>Compare Selected</button>
+                  <button id="history-refresh-btn" class="btn btn-secondary">Refresh</button>
+                </div>
+              </div>
+              <p id="history-policy" class="history-policy"></p>
+              <div id="history-list" class="items-list"></div>
+            </div>
+
+            <div id="search-view" class="view">
+              <div class="view-header">
+                <h2>Search Results</h2>
+                <div class="filters">
+                  <span id="search-summary" class="search-summary"></span>
+                  <button id="delete-query-btn" class="btn btn-secondary" style="display: none;">Delete Saved Query</button>
+                </div>
+              </div>
+              <p id="search-error" class="search-error" role="alert"></p>
+              <div id="search-results" class="items-list"></div>
             </div>
           </main>
         </div>
@@ -200,6 +450,16 @@ export class ProjectManagerWebviewProvider {
               <h3 id="modal-title">Add New Item</h3>
               <button id="modal-close" class="btn-close">&times;</button>
             </div>
+            <div id="modal-warning" class="modal-warning" role="alert">
+              <span id="modal-warning-text"></span>
+              <button type="button" id="modal-warning-reload" class="btn btn-secondary">Load latest</button>
+            </div>
+            <div id="conflict-panel" class="conflict-panel">
+              <h4>Conflicting changes</h4>
+              <p>These fields were changed by someone else while you were editing. Choose which value to keep.</p>
+              <div id="conflict-list" class="conflict-list"></div>
+              <button type="button" id="conflict-apply" class="btn btn-primary">Apply resolution</button>
+            </div>
             <form id="item-form" class="modal-body">
               <div class="form-group">
                 <label for="item-type">Type</label>
@@ -240,9 +500,45 @@ export class ProjectManagerWebviewProvider {
                 <label for="item-tags">Tags (comma-separated)</label>
                 <input type="text" id="item-tags" name="tags" placeholder="frontend, backend, urgent">
               </div>
+              <div class="form-group">
+                <label for="link-target">Links</label>
+                <div id="item-links" class="link-chips"></div>
+                <div class="link-add-row">
+                  <select id="link-type" aria-label="Link type">
+                    <option value="blocks">blocks</option>
+                    <option value="blocked-by">blocked by</option>
+                    <option value="relates-to">relates to</option>
+                    <option value="duplicate-of">duplicate of</option>
+                    <option value="duplicated-by">duplicated by</option>
+                    <option value="implements">implements</option>
+                    <option value="implemented-by">implemented by</option>
+                    <option value="parent-of">parent of</option>
+                    <option value="child-of">child of</option>
+                  </select>
+                  <select id="link-target"></select>
+                  <button type="button" id="link-add-btn" class="btn btn-secondary">Add Link</button>
+                </div>
+              </div>
+              <div id="item-git-group" class="form-group" style="display: none;">
+                <label>Git activity</label>
+                <div id="item-branches" class="link-chips"></div>
+                <ul id="item-commits" class="commit-list"></ul>
+              </div>
+              <div id="item-references-group" class="form-group" style="display: none;">
+                <label>Referenced in</label>
+                <ul id="item-references" class="reference-list"></ul>
+              </div>
+              <div id="item-history-group" class="form-group" style="display: none;">
+                <label>History</label>
+                <ol id="item-history" class="audit-timeline"></ol>
+              </div>
               <div id="type-specific-fields"></div>
             </form>
             <div class="modal-footer">
+              <div id="transfer-actions" class="transfer-actions" style="display: none;">
+                <button type="button" id="copy-to-project-btn" class="btn btn-secondary">Copy to Project…</button>
+                <button type="button" id="move-to-project-btn" class="btn btn-secondary">Move to Project…</button>
+              </div>
               <button type="button" id="cancel-btn" class="btn btn-secondary">Cancel</button>
               <button type="submit" form="item-form" id="save-btn" class="btn btn-primary">Save</button>
             </div>
@@ -265,7 +561,76 @@ export class ProjectManagerWebviewProvider {
             try {
                 switch (message.command) {
                     case 'loadData':
-                        await this.sendDataToWebview();
+                        await this.sendEverythingToWebview();
+                        break;
+
+                    case 'switchProject':
+                        await this.handleSwitchProject(message.data);
+                        break;
+
+                    case 'transferItem':
+                        await this.handleTransferItem(message.data);
+                        break;
+
+                    case 'loadItemHistory':
+                        await this.sendItemHistoryToWebview(message.data);
+                        break;
+
+                    case 'loadReferences':
+                        this.sendReferencesToWebview(message.data);
+                        break;
+
+                    case 'loadGitActivity':
+                        await this.sendGitActivityToWebview(message.data);
+                        break;
+
+                    case 'openLocation':
+                        await TodoService.getInstance().openLocation(message.data.location, this.managerFor(message.data));
+                        break;
+
+                    case 'openExternalRef':
+                        // Only web links; the URL comes from an imported file
+                        if (/^https?:\/\//i.test(message.data.url)) {
+                            await vscode.env.openExternal(vscode.Uri.parse(message.data.url));
+                        }
+                        break;
+
+                    case 'openReference':
+                        await vscode.window.showTextDocument(vscode.Uri.parse(message.data.uri), {
+                            selection: new vscode.Range(message.data.line, message.data.character, message.data.line, message.data.character)
+                        });
+                        break;
+
+                    case 'search':
+                        await this.handleSearch(message.data);
+                        break;
+
+                    case 'saveQuery':
+                        await this.handleSaveQuery(message.data);
+                        break;
+
+                    case 'deleteQuery':
+                        await this.searchService.deleteQuery(message.data.name);
+                        break;
+
+                    case 'createSprint':
+                        await this.handleCreateSprint();
+                        break;
+
+                    case 'addToSprint':
+                        await this.sprintService.addItems(message.data.sprintId, message.data.itemIds);
+                        break;
+
+                    case 'removeFromSprint':
+                        await this.sprintService.removeItem(message.data.sprintId, message.data.itemId);
+                        break;
+
+                    case 'deleteSprint':
+                        await this.sprintService.deleteSprint(message.data.sprintId);
+                        break;
+
+                    case 'moveItem':
+                        await this.handleMoveItem(message.data);
                         break;
 
                     case 'createItem':
@@ -280,14 +645,43 @@ export class ProjectManagerWebviewProvider {
                         await this.handleDeleteItem(message.data);
                         break;
 
+                    case 'bulkEdit':
+                        await this.handleBulkEdit(message.data);
+                        break;
+
+                    case 'editingChanged':
+                        // Leaves Ctrl+Z to text fields while one has focus, see the undo keybindings
+                        await vscode.commands.executeCommand('setContext', 'docstocode.dashboardEditing', message.data.editing);
+                        break;
+
                     case 'exportData':
-                        await this.handleExportData();
+                        await this.handleExportData(message.data);
                         break;
 
                     case 'importData':
                         await this.handleImportData();
                         break;
 
+                    case 'loadHistory':
+                        await this.sendHistoryToWebview();
+                        break;
+
+                    case 'loadSnapshotDetail':
+                        await this.handleLoadSnapshotDetail(message.data);
+                        break;
+
+                    case 'compareSnapshots':
+                        await this.historyService.compare(message.data.left, message.data.right);
+                        break;
+
+                    case 'restoreSnapshot':
+                        await this.handleRestoreSnapshot(message.data);
+                        break;
+
+                    case 'restoreSnapshotItem':
+                        await this.handleRestoreSnapshotItem(message.data);
+                        break;
+
                     case 'showError':
                         vscode.window.showErrorMessage(message.data.message);
                         break;
@@ -306,15 +700,174 @@ export class ProjectManagerWebviewProvider {
         });
     }
 
+    private async sendEverythingToWebview(): Promise<void> {
+        this.sendConfigToWebview();
+        this.sendProjectsToWebview();
+        await this.sendDataToWebview();
+        await this.sendSavedQueriesToWebview();
+        await this.sendActivityToWebview();
+    }
+
+    private sendProjectsToWebview(): void {
+        this.panel?.webview.postMessage({
+            command: 'projectsLoaded',
+            data: {
+                projects: this.projectService.getProjects(),
+                activeId: this.showAll ? ALL_PROJECTS : this.dataManager.getProjectId()
+            }
+        });
+    }
+
+    private async handleSwitchProject(data: { projectId: string }): Promise<void> {
+        if (data.projectId === ALL_PROJECTS) {
+            this.showAll = true;
+            await this.sendEverythingToWebview();
+            return;
+        }
+
+        const manager = DataManager.getProject(data.projectId);
+        if (manager && manager !== this.dataManager) {
+            // The dashboard reloads through onDidChangeActiveProject
+            DataManager.setActive(manager);
+        } else if (manager && this.showAll) {
+            this.showAll = false;
+            await this.sendEverythingToWebview();
+        }
+    }
+
+    private async handleTransferItem(data: ItemRef & { mode: TransferMode }): Promise<void> {
+        const transferred = await this.projectService.promptTransfer(this.managerFor(data), { type: data.type, id: data.id }, data.mode);
+        if (transferred) {
+            this.panel?.webview.postMessage({ command: 'itemTransferred', data: { type: data.type, id: data.id, mode: data.mode } });
+        }
+    }
+
+    // Settings the webview needs to render forms and the board
+    private sendConfigToWebview(): void {
+        const boardConfig = vscode.workspace.getConfiguration('docstocode.board');
+        const workflows = this.dataManager.getWorkflowService().getWorkflows();
+        const types = Object.keys(workflows) as (keyof typeof workflows)[];
+        this.panel?.webview.postMessage({
+            command: 'configLoaded',
+            data: {
+                statuses: Object.fromEntries(types.map(type => [type, workflows[type].statuses])),
+                transitions: Object.fromEntries(types.map(type => [type, workflows[type].transitions])),
+                closedStatuses: this.dataManager.getWorkflowService().getAllClosedStatuses(),
+                wipLimits: boardConfig.get<Record<string, Record<string, number>>>('wipLimits', {}),
+                customFields: this.dataManager.getConfigService().getConfig().customFields
+            }
+        });
+    }
+
+    private async sendGitActivityToWebview(data: { type: ProjectItem['type']; id: string }): Promise<void> {
+        const item = (await this.managerFor(data).loadData())[`${data.type}s`].find(candidate => candidate.id === data.id);
+        if (!item) {
+            return;
+        }
+
+        try {
+            const activity = await GitService.getInstance().getActivity(this.managerFor(data), item);
+            this.panel?.webview.postMessage({ command: 'gitActivityLoaded', data: { ...data, ...activity } });
+        } catch (error) {
+            console.warn('Failed to read git activity:', error);
+        }
+    }
+
+    // Latest entries of the audit log for the dashboard's activity feed
+    private async sendActivityToWebview(): Promise<void> {
+        if (!this.panel) return;
+
+        const entries = this.showAll
+            ? await this.projectService.readActivity(20)
+            : await this.dataManager.getAuditLog().read(undefined, 20);
+        this.panel.webview.postMessage({ command: 'activityLoaded', data: entries });
+    }
+
+    private async sendItemHistoryToWebview(data: { type: ProjectItem['type']; id: string }): Promise<void> {
+        const entries = await this.managerFor(data).getAuditLog().read(data);
+        this.panel?.webview.postMessage({ command: 'itemHistoryLoaded', data: { ...data, entries } });
+    }
+
+    // Source locations annotated with the item, e.g. `// DTC-BUG: <id>`
+    private sendReferencesToWebview(data: { type: ProjectItem['type']; id: string }): void {
+        const references = ReferenceService.getInstance().getReferences(data.type, data.id);
+        this.panel?.webview.postMessage({
+            command: 'referencesLoaded',
+            data: {
+                type: data.type,
+                id: data.id,
+                references: references.map(reference => ({
+                    uri: reference.uri.toString(),
+                    label: `${vscode.workspace.asRelativePath(reference.uri)}:${reference.line + 1}`,
+                    line: reference.line,
+                    character: reference.character
+                }))
+            }
+        });
+    }
+
+    private async sendSavedQueriesToWebview(): Promise<void> {
+        this.panel?.webview.postMessage({
+            command: 'savedQueriesLoaded',
+            data: await this.searchService.getSavedQueries()
+        });
+    }
+
+    private async handleSearch(data: { query: string }): Promise<void> {
+        try {
+            const items = await this.searchService.search(data.query);
+            this.panel?.webview.postMessage({
+                command: 'searchResults',
+                data: { query: data.query, items }
+            });
+        } catch (error) {
+            this.panel?.webview.postMessage({
+                command: 'searchResults',
+                data: { query: data.query, items: [], error: error instanceof Error ? error.message : String(error) }
+            });
+        }
+    }
+
+    private async handleSaveQuery(data: { query: string }): Promise<void> {
+        const name = await vscode.window.showInputBox({ prompt: 'Name for this query', value: data.query });
+        if (!name) {
+            return;
+        }
+
+        try {
+            await this.searchService.saveQuery(name, data.query);
+            vscode.window.showInformationMessage(`Saved query "${name}"`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to save query: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    private async handleCreateSprint(): Promise<void> {
+        const sprint = await this.sprintService.promptCreateSprint();
+        if (sprint) {
+            this.panel?.webview.postMessage({ command: 'sprintCreated', data: { id: sprint.id } });
+        }
+    }
+
+    // Sprint changes are not part of the item diff, so reports go out on every update
+    private sendSprintsToWebview(data: ProjectData): void {
+        this.panel?.webview.postMessage({
+            command: 'sprintsLoaded',
+            data: this.sprintService.getReport(data)
+        });
+    }
+
     private async sendDataToWebview(): Promise<void> {
         if (!this.panel) return;
 
         try {
-            const data = await this.dataManager.loadData();
+            const data = this.showAll ? await this.loadAllProjects() : await this.dataManager.loadData();
+            this.lastSentData = data;
             this.panel.webview.postMessage({
                 command: 'dataLoaded',
                 data: data
             });
+            this.sendSprintsToWebview(data);
         } catch (error) {
             console.error('Error loading data:', error);
             this.panel.webview.postMessage({
@@ -324,6 +877,34 @@ export class ProjectManagerWebviewProvider {
         }
     }
 
+    // Sends only the items that changed on disk since the last update
+    private pushExternalChanges(data: ProjectData): void {
+        if (!this.panel) return;
+
+        if (!this.lastSentData) {
+            this.lastSentData = data;
+            this.panel.webview.postMessage({ command: 'dataLoaded', data });
+            this.sendSprintsToWebview(data);
+            return;
+        }
+
+        const changes = diffProjectData(this.lastSentData, data);
+        this.lastSentData = data;
+        this.sendSprintsToWebview(data);
+
+        if (!hasChanges(changes)) {
+            return;
+        }
+
+        this.panel.webview.postMessage({
+            command: 'dataChanged',
+            data: {
+                metadata: data.metadata,
+                changes
+            }
+        });
+    }
+
     private async handleCreateItem(data: any): Promise<void> {
         try {
             const { type, ...itemData } = data;
@@ -346,7 +927,17 @@ export class ProjectManagerWebviewProvider {
                 itemData.subtasks = itemData.subtasks.split('\n').filter(Boolean);
             }
 
-            const newItem = await this.dataManager.createItem(type, itemData);
+            // The form leaves out empty fields; fill in what the schema requires
+            const defaults: Record<string, unknown> = { description: '', tags: [] };
+            if (type === 'feature') {
+                defaults['acceptanceCriteria'] = [];
+            } else if (type === 'bug') {
+                Object.assign(defaults, { reproducible: false, stepsToReproduce: [], environment: '' });
+            } else if (type === 'task') {
+                defaults['subtasks'] = [];
+            }
+
+            const newItem = await this.dataManager.createItem(type, { ...defaults, ...itemData, type });
 
             this.panel?.webview.postMessage({
                 command: 'itemCreated',
@@ -364,7 +955,7 @@ export class ProjectManagerWebviewProvider {
 
     private async handleUpdateItem(data: any): Promise<void> {
         try {
-            const { type, id, ...updates } = data;
+            const { type, id, base, ...updates } = data;
 
             // Process tags from comma-separated string
             if (updates.tags && typeof updates.tags === 'string') {
@@ -384,7 +975,7 @@ export class ProjectManagerWebviewProvider {
                 updates.subtasks = updates.subtasks.split('\n').filter(Boolean);
             }
 
-            const updatedItem = await this.dataManager.updateItem(type, id, updates);
+            const updatedItem = await this.managerFor(data).updateItem(type, id, updates, base);
 
             if (updatedItem) {
                 this.panel?.webview.postMessage({
@@ -399,11 +990,56 @@ export class ProjectManagerWebviewProvider {
             }
 
         } catch (error) {
+            if (error instanceof MergeConflictError) {
+                this.panel?.webview.postMessage({
+                    command: 'mergeConflict',
+                    data: {
+                        type: error.type,
+                        id: error.id,
+                        conflicts: error.conflicts,
+                        latest: error.latest
+                    }
+                });
+                return;
+            }
+
+            if (error instanceof WorkflowError) {
+                vscode.window.showWarningMessage(error.message);
+                return;
+            }
+
             console.error('Error updating item:', error);
             vscode.window.showErrorMessage(`Failed to update item: ${error}`);
         }
     }
 
+    // Drag and drop on the board: new status, rank and possibly swimlane field
+    private async handleMoveItem(data: any): Promise<void> {
+        try {
+            const { type, id, base, ...fields } = data;
+            // null marks a field the drop clears, e.g. the assignee in the "Unassigned" lane
+            const updates = Object.fromEntries(
+                Object.entries(fields as Record<string, unknown>).map(([field, value]) => [field, value ?? undefined])
+            );
+            const movedItem = await this.managerFor(data).updateItem(type, id, updates, base);
+
+            if (!movedItem) {
+                vscode.window.showErrorMessage('Item not found for update');
+            }
+        } catch (error) {
+            if (error instanceof MergeConflictError) {
+                vscode.window.showWarningMessage('This item was changed by someone else. The board has been refreshed.');
+            } else if (error instanceof WorkflowError) {
+                vscode.window.showWarningMessage(error.message);
+            } else {
+                console.error('Error moving item:', error);
+                vscode.window.showErrorMessage(`Failed to move item: ${error}`);
+            }
+        }
+
+        await this.sendDataToWebview();
+    }
+
     private async handleDeleteItem(data: any): Promise<void> {
         try {
             const { type, id } = data;
@@ -415,7 +1051,8 @@ export class ProjectManagerWebviewProvider {
             );
 
             if (result === 'Delete') {
-                const success = await this.dataManager.deleteItem(type, id);
+                const mark = UndoService.getInstance().mark();
+                const success = await this.managerFor(data).deleteItem(type, id);
 
                 if (success) {
                     this.panel?.webview.postMessage({
@@ -424,7 +1061,7 @@ export class ProjectManagerWebviewProvider {
                     });
 
                     await this.sendDataToWebview();
-                    vscode.window.showInformationMessage(`${type.charAt(0).toUpperCase() + type.slice(1)} deleted successfully!`);
+                    UndoService.getInstance().offerUndo(`${type.charAt(0).toUpperCase() + type.slice(1)} deleted successfully!`, mark);
                 } else {
                     vscode.window.showErrorMessage('Item not found for deletion');
                 }
@@ -436,22 +1073,86 @@ export class ProjectManagerWebviewProvider {
         }
     }
 
-    private async handleExportData(): Promise<void> {
-        try {
-            const exportPath = await this.dataManager.exportData();
-            const result = await vscode.window.showInformationMessage(
-                `Data exported successfully to ${exportPath}`,
-                'Open Folder',
-                'Copy Path'
+    /**
+     * Multi-select changes from the item lists, saved as one batch that
+     * applies in full or not at all. A selection spanning projects is
+     * refused, since no batch covers more than one project.
+     */
+    private async handleBulkEdit(data: {
+        items: ItemRef[];
+        action: 'update' | 'delete';
+        updates?: ItemUpdates;
+        addTags?: string[];
+        removeTags?: string[];
+    }): Promise<void> {
+        const plural = (count: number): string => `${count} item${count === 1 ? '' : 's'}`;
+        const managers = new Set(data.items.map(ref => this.managerFor(ref)));
+        const [manager] = managers;
+        if (!manager) {
+            return;
+        }
+        if (managers.size > 1) {
+            vscode.window.showWarningMessage(
+                `The selected items belong to ${managers.size} projects. Select items of one project to ${data.action} them together.`
+            );
+            return;
+        }
+
+        if (data.action === 'delete') {
+            const result = await vscode.window.showWarningMessage(
+                `Are you sure you want to delete ${plural(data.items.length)}?`,
+                { modal: true },
+                'Delete'
             );
+            if (result !== 'Delete') {
+                return;
+            }
+        }
 
-            if (result === 'Open Folder') {
-                await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(exportPath));
-            } else if (result === 'Copy Path') {
-                await vscode.env.clipboard.writeText(exportPath);
-                vscode.window.showInformationMessage('Export path copied to clipboard');
+        const operations = data.items.map((ref): BatchOperation => data.action === 'delete'
+            ? { kind: 'delete', type: ref.type, id: ref.id }
+            : {
+                kind: 'update',
+                type: ref.type,
+                id: ref.id,
+                updates: data.updates ?? {},
+                ...(data.addTags ? { addTags: data.addTags } : {}),
+                ...(data.removeTags ? { removeTags: data.removeTags } : {})
+            });
+
+        const label = `${data.action === 'delete' ? 'Delete' : 'Update'} ${plural(data.items.length)}`;
+        const mark = UndoService.getInstance().mark();
+        let applied: BatchResult | undefined;
+        try {
+            applied = await manager.applyBatch(operations, label);
+        } catch (error) {
+            if (error instanceof WorkflowError) {
+                vscode.window.showWarningMessage(error.message);
+            } else {
+                console.error('Error applying bulk edit:', error);
+                vscode.window.showErrorMessage(`Failed to ${data.action} ${plural(data.items.length)}: ${error}`);
             }
+        }
+
+        this.panel?.webview.postMessage({ command: 'bulkEditApplied', data: { action: data.action } });
+        await this.sendDataToWebview();
+        // Items deleted by someone else in the meantime are skipped
+        const done = applied ? applied.changed.length + applied.deleted.length : 0;
+        if (done > 0) {
+            UndoService.getInstance().offerUndo(`${data.action === 'delete' ? 'Deleted' : 'Updated'} ${plural(done)}`, mark);
+        }
+    }
+
+    // `data` names the view the dashboard shows and the items in it, in order
+    private async handleExportData(data: { title: string; items: ItemRef[] }): Promise<void> {
+        try {
+            const shown = this.showAll ? await this.loadAllProjects() : await this.dataManager.loadData();
+            const byKey = new Map(getAllItems(shown).map(item => [`${item.type}:${item.id}`, item]));
+            const items = data.items
+                .map(ref => byKey.get(`${ref.type}:${ref.id}`))
+                .filter((item): item is ProjectItem => item !== undefined);
 
+            await ImportExportService.getInstance().promptExport(this.dataManager, items, data.title);
         } catch (error) {
             console.error('Error exporting data:', error);
             vscode.window.showErrorMessage(`Failed to export data: ${error}`);
@@ -465,22 +1166,30 @@ export class ProjectManagerWebviewProvider {
                 canSelectFolders: false,
                 canSelectMany: false,
                 filters: {
-                    'JSON Files': ['json']
+                    'Project Data, CSV or Issue Export': ['json', 'csv']
                 },
-                title: 'Select Project Data File to Import'
+                title: 'Select Project Data, CSV or GitHub, GitLab or Jira Export to Import'
             });
+            if (!fileUri || !fileUri[0]) {
+                return;
+            }
 
-            if (fileUri && fileUri[0]) {
+            // CSV rows and tracker issues are merged into the items rather than replacing them
+            const merged = await ImportExportService.getInstance().mergeFile(this.dataManager, fileUri[0].fsPath);
+            if (merged) {
+                await this.sendDataToWebview();
+            } else if (merged === undefined) {
                 const result = await vscode.window.showWarningMessage(
-                    'Importing will replace all current project data. This action cannot be undone.',
+                    'Importing will replace all current project data.',
                     { modal: true },
                     'Import'
                 );
 
                 if (result === 'Import') {
+                    const mark = UndoService.getInstance().mark();
                     await this.dataManager.importData(fileUri[0].fsPath);
                     await this.sendDataToWebview();
-                    vscode.window.showInformationMessage('Data imported successfully!');
+                    UndoService.getInstance().offerUndo('Data imported successfully!', mark);
                 }
             }
 
@@ -490,9 +1199,73 @@ export class ProjectManagerWebviewProvider {
         }
     }
 
+    private async sendHistoryToWebview(): Promise<void> {
+        if (!this.panel) return;
+
+        try {
+            const snapshots = await this.historyService.listSnapshots();
+            this.panel.webview.postMessage({
+                command: 'historyLoaded',
+                data: {
+                    snapshots,
+                    policy: this.dataManager.getRetentionPolicy()
+                }
+            });
+        } catch (error) {
+            console.error('Error loading history:', error);
+            vscode.window.showErrorMessage(`Failed to load history: ${error}`);
+        }
+    }
+
+    private async handleLoadSnapshotDetail(data: any): Promise<void> {
+        const changes = await this.historyService.diffWithCurrent(data.file);
+        this.panel?.webview.postMessage({
+            command: 'snapshotDetail',
+            data: { file: data.file, changes }
+        });
+    }
+
+    private async handleRestoreSnapshot(data: any): Promise<void> {
+        try {
+            const result = await vscode.window.showWarningMessage(
+                'Restoring this snapshot will replace all current project data. Undo puts the current data back.',
+                { modal: true },
+                'Restore'
+            );
+
+            if (result === 'Restore') {
+                await this.historyService.restoreSnapshot(data.file);
+                await this.sendDataToWebview();
+                await this.sendHistoryToWebview();
+                vscode.window.showInformationMessage('Snapshot restored successfully!');
+            }
+
+        } catch (error) {
+            console.error('Error restoring snapshot:', error);
+            vscode.window.showErrorMessage(`Failed to restore snapshot: ${error}`);
+        }
+    }
+
+    private async handleRestoreSnapshotItem(data: any): Promise<void> {
+        try {
+            const { file, type, id } = data;
+            const item = await this.historyService.restoreItem(file, type, id);
+
+            await this.sendDataToWebview();
+            await this.sendHistoryToWebview();
+            vscode.window.showInformationMessage(`Restored "${item.title}" from snapshot`);
+
+        } catch (error) {
+            console.error('Error restoring item:', error);
+            vscode.window.showErrorMessage(`Failed to restore item: ${error}`);
+        }
+    }
+
     public dispose(): void {
         if (this.panel) {
             this.panel.dispose();
         }
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.projectSubscriptions.forEach(subscription => subscription.dispose());
     }
 }
\ No newline at end of file
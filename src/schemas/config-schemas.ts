@@ -0,0 +1,92 @@
+import { BASE_ITEM_SCHEMA, ProjectItem } from '@/schemas/project-schemas';
+
+export type CustomFieldType = 'string' | 'number' | 'enum' | 'date' | 'user' | 'multi-select';
+
+export interface CustomFieldDefinition {
+    /** Key of the value in an item's customFields, and the field name in queries */
+    name: string;
+    /** Shown in forms and on cards; defaults to the name */
+    label?: string;
+    type: CustomFieldType;
+    /** Values an enum or multi-select field can take, in order */
+    options?: string[];
+}
+
+export interface ProjectConfig {
+    /** Extra fields of each item type, in the order forms show them */
+    customFields: Record<ProjectItem['type'], CustomFieldDefinition[]>;
+}
+
+// Used when .docsToCode/config.json does not exist
+export function createDefaultConfig(): ProjectConfig {
+    return { customFields: { feature: [], bug: [], task: [] } };
+}
+
+// Starting point written by the "Create Project Config" command
+export const CONFIG_TEMPLATE: ProjectConfig = {
+    customFields: {
+        feature: [
+            { name: 'component', label: 'Component', type: 'enum', options: ['frontend', 'backend', 'infrastructure'] }
+        ],
+        bug: [
+            { name: 'component', label: 'Component', type: 'enum', options: ['frontend', 'backend', 'infrastructure'] },
+            { name: 'reportedBy', label: 'Reported By', type: 'user' }
+        ],
+        task: []
+    }
+};
+
+const CUSTOM_FIELD_SCHEMA = {
+    type: 'object',
+    required: ['name', 'type'],
+    properties: {
+        // Usable as `name:value` in search queries
+        name: { type: 'string', pattern: '^[A-Za-z][\\w-]*$' },
+        label: { type: 'string', minLength: 1 },
+        type: { enum: ['string', 'number', 'enum', 'date', 'user', 'multi-select'] },
+        options: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1, uniqueItems: true }
+    },
+    additionalProperties: false
+};
+
+// Types left out of customFields have no extra fields
+export const PROJECT_CONFIG_SCHEMA = {
+    type: 'object',
+    properties: {
+        customFields: {
+            type: 'object',
+            properties: {
+                feature: { type: 'array', items: CUSTOM_FIELD_SCHEMA },
+                bug: { type: 'array', items: CUSTOM_FIELD_SCHEMA },
+                task: { type: 'array', items: CUSTOM_FIELD_SCHEMA }
+            },
+            additionalProperties: false
+        }
+    }
+};
+
+function valueSchema(field: CustomFieldDefinition): object {
+    switch (field.type) {
+        case 'number':
+            return { type: 'number' };
+        case 'date':
+            return { type: 'string', format: 'date' };
+        case 'enum':
+            return { enum: field.options ?? [] };
+        case 'multi-select':
+            return { type: 'array', items: { enum: field.options ?? [] }, uniqueItems: true };
+        default:
+            return { type: 'string' };
+    }
+}
+
+/**
+ * Schema for an item's customFields with the given definitions. Values of
+ * fields that are no longer defined are kept as they are.
+ */
+export function customFieldsSchema(fields: CustomFieldDefinition[]): object {
+    return {
+        ...BASE_ITEM_SCHEMA.properties.customFields,
+        properties: Object.fromEntries(fields.map(field => [field.name, valueSchema(field)]))
+    };
+}
@@ -0,0 +1,121 @@
+import { DATA_FORMAT_VERSION } from '@/schemas/project-schemas';
+import { MigrationError } from '@/services/errors';
+
+/**
+ * Project data as read from disk, before it has been migrated to the current
+ * format and validated.
+ */
+export type RawProjectData = Record<string, unknown>;
+
+// Nested objects of raw data, which may be missing or of any type
+export function asRecord(value: unknown): RawProjectData | undefined {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+        ? value as RawProjectData
+        : undefined;
+}
+
+export interface Migration {
+    from: string;
+    to: string;
+    description: string;
+    /** Receives a private copy of the data and may mutate it in place */
+    migrate(data: RawProjectData): RawProjectData;
+}
+
+export interface MigrationResult {
+    data: RawProjectData;
+    applied: Migration[];
+}
+
+/**
+ * Registered migrations, each upgrading data from one format version to the
+ * next. The chain must lead from every supported version to
+ * DATA_FORMAT_VERSION.
+ */
+export const MIGRATIONS: Migration[] = [
+    {
+        from: '1.0.0',
+        to: '1.1.0',
+        description: 'Add metadata.revision for concurrent write detection',
+        migrate(data) {
+            const metadata = asRecord(data['metadata']);
+            if (metadata) {
+                metadata['revision'] = metadata['revision'] ?? 0;
+            }
+            return data;
+        }
+    },
+    {
+        from: '1.1.0',
+        to: '1.2.0',
+        description: 'Add sprints',
+        migrate(data) {
+            data['sprints'] = data['sprints'] ?? [];
+            return data;
+        }
+    }
+];
+
+export function compareVersions(a: string, b: string): number {
+    const left = a.split('.').map(Number);
+    const right = b.split('.').map(Number);
+
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const difference = (left[i] ?? 0) - (right[i] ?? 0);
+        if (difference !== 0) {
+            return difference;
+        }
+    }
+    return 0;
+}
+
+export function getDataVersion(data: RawProjectData): string {
+    const version = asRecord(data['metadata'])?.['version'];
+    return typeof version === 'string' ? version : '1.0.0';
+}
+
+// Finds the chain of migrations from `version` up to the current format
+export function planMigrations(version: string): Migration[] {
+    if (compareVersions(version, DATA_FORMAT_VERSION) > 0) {
+        throw new MigrationError(
+            `Project data version ${version} is newer than ${DATA_FORMAT_VERSION}. Please update the extension.`
+        );
+    }
+
+    const plan: Migration[] = [];
+    let current = version;
+
+    while (compareVersions(current, DATA_FORMAT_VERSION) < 0) {
+        const next = MIGRATIONS.find(migration => migration.from === current);
+        if (!next) {
+            throw new MigrationError(`No migration registered from data version ${current}`);
+        }
+        plan.push(next);
+        current = next.to;
+    }
+
+    return plan;
+}
+
+export function needsMigration(data: RawProjectData): boolean {
+    return getDataVersion(data) !== DATA_FORMAT_VERSION;
+}
+
+/**
+ * Runs every migration needed to bring `data` to the current format. The
+ * input object is left untouched.
+ */
+export function runMigrations(data: RawProjectData): MigrationResult {
+    const applied = planMigrations(getDataVersion(data));
+    let migrated: RawProjectData = JSON.parse(JSON.stringify(data));
+
+    for (const migration of applied) {
+        migrated = migration.migrate(migrated);
+        const metadata = asRecord(migrated['metadata']);
+        if (metadata) {
+            metadata['version'] = migration.to;
+        }
+    }
+
+    return { data: migrated, applied };
+}
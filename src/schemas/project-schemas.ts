@@ -1,18 +1,76 @@
+// Version of the project-data.json format written by this extension.
+// Bump it together with a new entry in MIGRATIONS (schemas/migrations.ts).
+export const DATA_FORMAT_VERSION = '1.2.0';
+
+export type LinkType =
+    | 'blocks'
+    | 'blocked-by'
+    | 'relates-to'
+    | 'duplicate-of'
+    | 'duplicated-by'
+    | 'implements'
+    | 'implemented-by'
+    | 'parent-of'
+    | 'child-of';
+
+export interface ItemLink {
+    type: LinkType;
+    targetType: 'feature' | 'bug' | 'task';
+    targetId: string;
+}
+
+export interface CodeLocation {
+    /** Workspace-relative path with forward slashes */
+    file: string;
+    /** One-based line number */
+    line: number;
+    /** Source text the item was created from; recognises the same TODO after lines move */
+    text?: string;
+}
+
+export interface ExternalRef {
+    /** Issue tracker the item was imported from */
+    system: 'github' | 'gitlab' | 'jira';
+    /** The issue's id there, e.g. "owner/repo#42" or "PROJ-7" */
+    id: string;
+    url?: string;
+}
+
+/** Value of a field declared in .docsToCode/config.json: text, number, date, user or selected options */
+export type CustomFieldValue = string | number | string[];
+
+export interface StatusChange {
+    status: string;
+    at: string;
+}
+
 export interface BaseItem {
     id: string;
     title: string;
     description: string;
+    /** One of the statuses of the item type's workflow, see WorkflowService */
     status: string;
     priority: 'low' | 'medium' | 'high' | 'critical';
     assignee?: string;
     tags: string[];
+    /** Typed links to other items; DataManager keeps the inverse side in sync */
+    links?: ItemLink[];
+    /** Place in the source the item was created from */
+    location?: CodeLocation;
+    /** Position within its board column, lower first; defaults to creation time */
+    rank?: number;
+    /** The issue the item was imported from; re-importing updates the item */
+    externalRef?: ExternalRef;
+    /** Values of the project's custom fields for the type, by field name */
+    customFields?: Record<string, CustomFieldValue>;
+    /** Every status the item has had with when it entered it; DataManager appends on change */
+    statusHistory?: StatusChange[];
     createdAt: string;
     updatedAt: string;
 }
 
 export interface Feature extends BaseItem {
     type: 'feature';
-    status: 'backlog' | 'planning' | 'in-progress' | 'testing' | 'completed';
     epic?: string;
     storyPoints?: number;
     acceptanceCriteria: string[];
@@ -20,7 +78,6 @@ export interface Feature extends BaseItem {
 
 export interface Bug extends BaseItem {
     type: 'bug';
-    status: 'open' | 'in-progress' | 'resolved' | 'closed' | 'wont-fix';
     severity: 'low' | 'medium' | 'high' | 'critical';
     reproducible: boolean;
     stepsToReproduce: string[];
@@ -28,29 +85,101 @@ export interface Bug extends BaseItem {
     resolution?: string;
 }
 
+export interface TimeEntry {
+    start: string;
+    end: string;
+    /** Who logged the time */
+    user: string;
+    note?: string;
+}
+
 export interface Task extends BaseItem {
     type: 'task';
-    status: 'todo' | 'in-progress' | 'blocked' | 'completed';
     dueDate?: string;
     estimatedHours?: number;
+    /** Derived from timeEntries when there are any */
     actualHours?: number;
+    timeEntries?: TimeEntry[];
     subtasks: string[];
 }
 
 export type ProjectItem = Feature | Bug | Task;
 
+export interface Sprint {
+    id: string;
+    name: string;
+    goal?: string;
+    startDate: string;
+    /** Last day of the sprint, inclusive */
+    endDate: string;
+    /** Story points the team expects to complete */
+    capacity?: number;
+    /** Items committed to the sprint; ids are unique across item types */
+    itemIds: string[];
+    createdAt: string;
+    updatedAt: string;
+}
+
 export interface ProjectData {
     features: Feature[];
     bugs: Bug[];
     tasks: Task[];
+    sprints: Sprint[];
     metadata: {
         projectName: string;
+        /** Data format version, see DATA_FORMAT_VERSION */
         version: string;
         lastUpdated: string;
+        /** Incremented on every save; used to detect concurrent writers */
+        revision?: number;
     };
 }
 
 // JSON Schema definitions for validation
+export const LINK_SCHEMA = {
+    type: 'object',
+    required: ['type', 'targetType', 'targetId'],
+    properties: {
+        type: {
+            enum: [
+                'blocks', 'blocked-by', 'relates-to', 'duplicate-of', 'duplicated-by',
+                'implements', 'implemented-by', 'parent-of', 'child-of'
+            ]
+        },
+        targetType: { enum: ['feature', 'bug', 'task'] },
+        targetId: { type: 'string', minLength: 1 }
+    }
+};
+
+export const LOCATION_SCHEMA = {
+    type: 'object',
+    required: ['file', 'line'],
+    properties: {
+        file: { type: 'string', minLength: 1 },
+        line: { type: 'integer', minimum: 1 },
+        text: { type: 'string' }
+    }
+};
+
+export const EXTERNAL_REF_SCHEMA = {
+    type: 'object',
+    required: ['system', 'id'],
+    properties: {
+        system: { enum: ['github', 'gitlab', 'jira'] },
+        id: { type: 'string', minLength: 1 },
+        url: { type: 'string' }
+    }
+};
+
+export const STATUS_CHANGE_SCHEMA = {
+    type: 'object',
+    required: ['status', 'at'],
+    properties: {
+        status: { type: 'string', minLength: 1 },
+        at: { type: 'string', format: 'date-time' }
+    }
+};
+
 export const BASE_ITEM_SCHEMA = {
     type: 'object',
     required: ['id', 'title', 'description', 'status', 'priority', 'tags', 'createdAt', 'updatedAt'],
@@ -58,9 +187,23 @@ export const BASE_ITEM_SCHEMA = {
         id: { type: 'string', minLength: 1 },
         title: { type: 'string', minLength: 1, maxLength: 200 },
         description: { type: 'string', maxLength: 2000 },
+        // Checked against the project's workflow by DataManager, see ConfigService.getItemSchema()
+        status: { type: 'string', minLength: 1 },
         priority: { enum: ['low', 'medium', 'high', 'critical'] },
         assignee: { type: 'string' },
         tags: { type: 'array', items: { type: 'string' } },
+        links: { type: 'array', items: LINK_SCHEMA },
+        location: LOCATION_SCHEMA,
+        rank: { type: 'number' },
+        externalRef: EXTERNAL_REF_SCHEMA,
+        // Checked against the field definitions by DataManager, see customFieldsSchema()
+        customFields: {
+            type: 'object',
+            additionalProperties: {
+                anyOf: [{ type: 'string' }, { type: 'number' }, { type: 'array', items: { type: 'string' } }]
+            }
+        },
+        statusHistory: { type: 'array', items: STATUS_CHANGE_SCHEMA },
         createdAt: { type: 'string', format: 'date-time' },
         updatedAt: { type: 'string', format: 'date-time' }
     }
@@ -71,7 +214,6 @@ export const FEATURE_SCHEMA = {
     properties: {
         ...BASE_ITEM_SCHEMA.properties,
         type: { const: 'feature' },
-        status: { enum: ['backlog', 'planning', 'in-progress', 'testing', 'completed'] },
         epic: { type: 'string' },
         storyPoints: { type: 'number', minimum: 1, maximum: 21 },
         acceptanceCriteria: { type: 'array', items: { type: 'string' } }
@@ -84,7 +226,6 @@ export const BUG_SCHEMA = {
     properties: {
         ...BASE_ITEM_SCHEMA.properties,
         type: { const: 'bug' },
-        status: { enum: ['open', 'in-progress', 'resolved', 'closed', 'wont-fix'] },
         severity: { enum: ['low', 'medium', 'high', 'critical'] },
         reproducible: { type: 'boolean' },
         stepsToReproduce: { type: 'array', items: { type: 'string' } },
@@ -94,35 +235,78 @@ export const BUG_SCHEMA = {
     required: [...BASE_ITEM_SCHEMA.required, 'type', 'severity', 'reproducible', 'stepsToReproduce', 'environment']
 };
 
+export const TIME_ENTRY_SCHEMA = {
+    type: 'object',
+    required: ['start', 'end', 'user'],
+    properties: {
+        start: { type: 'string', format: 'date-time' },
+        end: { type: 'string', format: 'date-time' },
+        user: { type: 'string' },
+        note: { type: 'string' }
+    }
+};
+
 export const TASK_SCHEMA = {
     ...BASE_ITEM_SCHEMA,
     properties: {
         ...BASE_ITEM_SCHEMA.properties,
         type: { const: 'task' },
-        status: { enum: ['todo', 'in-progress', 'blocked', 'completed'] },
         dueDate: { type: 'string', format: 'date' },
         estimatedHours: { type: 'number', minimum: 0 },
         actualHours: { type: 'number', minimum: 0 },
+        timeEntries: { type: 'array', items: TIME_ENTRY_SCHEMA },
         subtasks: { type: 'array', items: { type: 'string' } }
     },
     required: [...BASE_ITEM_SCHEMA.required, 'type', 'subtasks']
 };
 
+export const SPRINT_SCHEMA = {
+    type: 'object',
+    required: ['id', 'name', 'startDate', 'endDate', 'itemIds', 'createdAt', 'updatedAt'],
+    properties: {
+        id: { type: 'string', minLength: 1 },
+        name: { type: 'string', minLength: 1, maxLength: 100 },
+        goal: { type: 'string', maxLength: 500 },
+        startDate: { type: 'string', format: 'date' },
+        endDate: { type: 'string', format: 'date' },
+        capacity: { type: 'number', minimum: 0 },
+        itemIds: { type: 'array', items: { type: 'string' } },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' }
+    }
+};
+
 export const PROJECT_DATA_SCHEMA = {
     type: 'object',
-    required: ['features', 'bugs', 'tasks', 'metadata'],
+    required: ['features', 'bugs', 'tasks', 'sprints', 'metadata'],
     properties: {
         features: { type: 'array', items: FEATURE_SCHEMA },
         bugs: { type: 'array', items: BUG_SCHEMA },
         tasks: { type: 'array', items: TASK_SCHEMA },
+        sprints: { type: 'array', items: SPRINT_SCHEMA },
         metadata: {
             type: 'object',
             required: ['projectName', 'version', 'lastUpdated'],
             properties: {
                 projectName: { type: 'string', minLength: 1 },
                 version: { type: 'string' },
-                lastUpdated: { type: 'string', format: 'date-time' }
+                lastUpdated: { type: 'string', format: 'date-time' },
+                revision: { type: 'integer', minimum: 0 }
             }
         }
     }
-};
\ No newline at end of file
+};
+
+// Statuses of each item type when workflow.json does not define them, in workflow order
+export const ITEM_STATUSES: Record<ProjectItem['type'], string[]> = {
+    feature: ['backlog', 'planning', 'in-progress', 'testing', 'completed'],
+    bug: ['open', 'in-progress', 'resolved', 'closed', 'wont-fix'],
+    task: ['todo', 'in-progress', 'blocked', 'completed']
+};
+
+// Statuses in which an item is finished with, unless workflow.json lists its own
+export const CLOSED_STATUSES: Record<ProjectItem['type'], string[]> = {
+    feature: ['completed'],
+    bug: ['closed', 'wont-fix'],
+    task: ['completed']
+};
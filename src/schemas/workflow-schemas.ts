@@ -0,0 +1,112 @@
+import { ITEM_STATUSES, ProjectItem } from '@/schemas/project-schemas';
+
+export interface StatusGuard {
+    /** Fields that must be filled in before an item may enter the status */
+    requires: string[];
+}
+
+export interface WorkflowDefinition {
+    /** The statuses items of the type can have, in order */
+    statuses: string[];
+    /** Allowed next statuses, keyed by current status */
+    transitions: Record<string, string[]>;
+    guards?: Record<string, StatusGuard>;
+    /** Statuses in which an item is finished with; defaults to CLOSED_STATUSES */
+    closed?: string[];
+}
+
+export type Workflows = Record<ProjectItem['type'], WorkflowDefinition>;
+
+// Used when .docsToCode/workflow.json does not exist: any status to any other
+export function createPermissiveWorkflows(): Workflows {
+    const permissive = (statuses: string[]): WorkflowDefinition => ({
+        statuses: [...statuses],
+        transitions: Object.fromEntries(
+            statuses.map(status => [status, statuses.filter(other => other !== status)])
+        )
+    });
+
+    return {
+        feature: permissive(ITEM_STATUSES.feature),
+        bug: permissive(ITEM_STATUSES.bug),
+        task: permissive(ITEM_STATUSES.task)
+    };
+}
+
+// Starting point written by the "Create Workflow Definition" command
+export const WORKFLOW_TEMPLATE: Workflows = {
+    feature: {
+        statuses: ['backlog', 'planning', 'in-progress', 'testing', 'completed'],
+        transitions: {
+            'backlog': ['planning', 'in-progress'],
+            'planning': ['backlog', 'in-progress'],
+            'in-progress': ['planning', 'testing'],
+            'testing': ['in-progress', 'completed'],
+            'completed': ['testing']
+        },
+        closed: ['completed']
+    },
+    bug: {
+        statuses: ['open', 'in-progress', 'resolved', 'closed', 'wont-fix'],
+        transitions: {
+            'open': ['in-progress', 'resolved', 'wont-fix'],
+            'in-progress': ['open', 'resolved', 'wont-fix'],
+            'resolved': ['open', 'closed'],
+            'closed': [],
+            'wont-fix': ['open']
+        },
+        guards: {
+            'resolved': { requires: ['resolution'] },
+            'closed': { requires: ['resolution'] },
+            'wont-fix': { requires: ['resolution'] }
+        },
+        closed: ['closed', 'wont-fix']
+    },
+    task: {
+        statuses: ['todo', 'in-progress', 'blocked', 'completed'],
+        transitions: {
+            'todo': ['in-progress', 'blocked'],
+            'in-progress': ['todo', 'blocked', 'completed'],
+            'blocked': ['todo', 'in-progress'],
+            'completed': ['in-progress']
+        },
+        guards: {
+            'completed': { requires: ['actualHours'] }
+        },
+        closed: ['completed']
+    }
+};
+
+const WORKFLOW_DEFINITION_SCHEMA = {
+    type: 'object',
+    required: ['statuses', 'transitions'],
+    properties: {
+        statuses: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1, uniqueItems: true },
+        transitions: {
+            type: 'object',
+            additionalProperties: { type: 'array', items: { type: 'string' } }
+        },
+        guards: {
+            type: 'object',
+            additionalProperties: {
+                type: 'object',
+                required: ['requires'],
+                properties: {
+                    requires: { type: 'array', items: { type: 'string' } }
+                }
+            }
+        },
+        closed: { type: 'array', items: { type: 'string' } }
+    }
+};
+
+// Types left out of workflow.json keep the permissive default
+export const WORKFLOWS_SCHEMA = {
+    type: 'object',
+    properties: {
+        feature: WORKFLOW_DEFINITION_SCHEMA,
+        bug: WORKFLOW_DEFINITION_SCHEMA,
+        task: WORKFLOW_DEFINITION_SCHEMA
+    },
+    additionalProperties: false
+};
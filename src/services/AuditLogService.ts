@@ -0,0 +1,105 @@
+import { ProjectItem } from '@/schemas/project-schemas';
+import { ItemRef } from '@/utils/diff';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+export interface FieldChange {
+    field: string;
+    /** Absent when the field was added */
+    before?: unknown;
+    /** Absent when the field was removed */
+    after?: unknown;
+}
+
+export interface AuditEntry {
+    at: string;
+    actor: string;
+    action: 'create' | 'update' | 'delete';
+    itemType: ProjectItem['type'];
+    itemId: string;
+    /** Title at the time of the change, so deleted items can still be named */
+    title: string;
+    changes: FieldChange[];
+}
+
+// Bookkeeping fields that change with every save and would only add noise
+const UNAUDITED_FIELDS = new Set(['id', 'type', 'createdAt', 'updatedAt', 'statusHistory']);
+
+/**
+ * Field-level differences between two versions of an item. Pass `undefined`
+ * for the side that doesn't exist to list every field of a created or
+ * deleted item.
+ */
+export function diffItemFields(before: ProjectItem | undefined, after: ProjectItem | undefined): FieldChange[] {
+    const previous = (before ?? {}) as Record<string, unknown>;
+    const next = (after ?? {}) as Record<string, unknown>;
+    const fields = [...new Set([...Object.keys(previous), ...Object.keys(next)])]
+        .filter(field => !UNAUDITED_FIELDS.has(field));
+
+    return fields
+        .filter(field => JSON.stringify(previous[field]) !== JSON.stringify(next[field]))
+        .map(field => ({
+            field,
+            ...(previous[field] !== undefined ? { before: previous[field] } : {}),
+            ...(next[field] !== undefined ? { after: next[field] } : {})
+        }));
+}
+
+/**
+ * Append-only log of item changes in .docsToCode/audit-log.jsonl, one JSON
+ * entry per line. DataManager appends to it after every successful save.
+ */
+export class AuditLogService {
+    private readonly _onDidAppend = new vscode.EventEmitter<AuditEntry[]>();
+    public readonly onDidAppend = this._onDidAppend.event;
+
+    constructor(private readonly dataPath: string) { }
+
+    public getLogPath(): string {
+        return path.join(this.dataPath, 'audit-log.jsonl');
+    }
+
+    public async append(entries: AuditEntry[]): Promise<void> {
+        if (entries.length === 0) {
+            return;
+        }
+
+        await fs.appendFile(this.getLogPath(), entries.map(entry => JSON.stringify(entry) + '\n').join(''), 'utf-8');
+        this._onDidAppend.fire(entries);
+    }
+
+    /**
+     * Entries newest first, optionally only those for one item. Lines that
+     * don't parse, e.g. from an interrupted write, are skipped.
+     */
+    public async read(item?: ItemRef, limit = Infinity): Promise<AuditEntry[]> {
+        let content: string;
+        try {
+            content = await fs.readFile(this.getLogPath(), 'utf-8');
+        } catch {
+            return [];
+        }
+
+        const entries: AuditEntry[] = [];
+        const lines = content.split('\n');
+        for (let index = lines.length - 1; index >= 0 && entries.length < limit; index--) {
+            const line = lines[index]?.trim();
+            if (!line) {
+                continue;
+            }
+
+            let entry: AuditEntry;
+            try {
+                entry = JSON.parse(line);
+            } catch {
+                continue;
+            }
+            if (!item || (entry.itemType === item.type && entry.itemId === item.id)) {
+                entries.push(entry);
+            }
+        }
+
+        return entries;
+    }
+}
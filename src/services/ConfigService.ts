@@ -0,0 +1,150 @@
+import {
+    CONFIG_TEMPLATE,
+    createDefaultConfig,
+    CustomFieldDefinition,
+    customFieldsSchema,
+    PROJECT_CONFIG_SCHEMA,
+    ProjectConfig
+} from '@/schemas/config-schemas';
+import { BUG_SCHEMA, FEATURE_SCHEMA, ProjectItem, TASK_SCHEMA } from '@/schemas/project-schemas';
+import { WorkflowService } from '@/services/WorkflowService';
+import { writeFileAtomic } from '@/utils/fs';
+import { isQueryAlias } from '@/utils/query';
+import { formatValidationErrors } from '@/utils/validation';
+import Ajv from 'ajv';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+const ITEM_SCHEMAS: Record<ProjectItem['type'], { properties: object }> = {
+    feature: FEATURE_SCHEMA,
+    bug: BUG_SCHEMA,
+    task: TASK_SCHEMA
+};
+
+/**
+ * Loads the project settings in .docsToCode/config.json, for now the
+ * custom fields of each item type, and gives out the item schemas with
+ * those fields and the statuses of the project's workflow merged in.
+ */
+export class ConfigService {
+    private config: ProjectConfig = createDefaultConfig();
+    // Built once per load of either file: Ajv caches compiled schemas by object
+    private itemSchemas: Record<ProjectItem['type'], object> = { ...ITEM_SCHEMAS };
+    private readonly _onDidChangeConfig = new vscode.EventEmitter<ProjectConfig>();
+    public readonly onDidChangeConfig = this._onDidChangeConfig.event;
+
+    constructor(
+        private readonly dataPath: string,
+        private readonly ajv: Ajv,
+        private readonly workflowService: WorkflowService
+    ) {
+        this.buildItemSchemas();
+        this.workflowService.onDidChangeWorkflows(() => this.buildItemSchemas());
+    }
+
+    public getConfigPath(): string {
+        return path.join(this.dataPath, 'config.json');
+    }
+
+    public getConfig(): ProjectConfig {
+        return this.config;
+    }
+
+    public getCustomFields(type: ProjectItem['type']): CustomFieldDefinition[] {
+        return this.config.customFields[type];
+    }
+
+    // The type's schema, checking its status and the values of its custom fields
+    public getItemSchema(type: ProjectItem['type']): object {
+        return this.itemSchemas[type];
+    }
+
+    /**
+     * Re-reads config.json. A missing file means no custom fields; an
+     * invalid one is reported and the previous config stays.
+     */
+    public async load(): Promise<void> {
+        let rawData: string;
+        try {
+            rawData = await fs.readFile(this.getConfigPath(), 'utf-8');
+        } catch {
+            this.setConfig(createDefaultConfig());
+            return;
+        }
+
+        try {
+            this.setConfig(this.parse(rawData));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Invalid config.json, keeping the previous settings: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    private parse(rawData: string): ProjectConfig {
+        const parsed = JSON.parse(rawData);
+
+        const validate = this.ajv.compile(PROJECT_CONFIG_SCHEMA);
+        if (!validate(parsed)) {
+            throw new Error(formatValidationErrors(parsed, validate.errors ?? []).join('; '));
+        }
+
+        const config = createDefaultConfig();
+        Object.assign(config.customFields, (parsed as Partial<ProjectConfig>).customFields ?? {});
+
+        for (const type of Object.keys(ITEM_SCHEMAS) as ProjectItem['type'][]) {
+            const builtIn = Object.keys(ITEM_SCHEMAS[type].properties);
+            const seen = new Set<string>();
+            for (const field of config.customFields[type]) {
+                if (builtIn.includes(field.name) || isQueryAlias(field.name)) {
+                    throw new Error(`${type} field "${field.name}" has the name of a built-in ${type} field or search term`);
+                }
+                if (seen.has(field.name)) {
+                    throw new Error(`${type} field "${field.name}" is defined twice`);
+                }
+                seen.add(field.name);
+
+                const needsOptions = field.type === 'enum' || field.type === 'multi-select';
+                if (needsOptions !== (field.options !== undefined)) {
+                    throw new Error(needsOptions
+                        ? `${type} field "${field.name}" needs options`
+                        : `${type} field "${field.name}" is a ${field.type} field and takes no options`);
+                }
+            }
+        }
+
+        return config;
+    }
+
+    private setConfig(config: ProjectConfig): void {
+        this.config = config;
+        this.buildItemSchemas();
+        this._onDidChangeConfig.fire(config);
+    }
+
+    private buildItemSchemas(): void {
+        for (const type of Object.keys(ITEM_SCHEMAS) as ProjectItem['type'][]) {
+            const schema = ITEM_SCHEMAS[type];
+            const fields = this.config.customFields[type];
+            this.itemSchemas[type] = {
+                ...schema,
+                properties: {
+                    ...schema.properties,
+                    status: { enum: this.workflowService.getWorkflow(type).statuses },
+                    ...(fields.length > 0 ? { customFields: customFieldsSchema(fields) } : {})
+                }
+            };
+        }
+    }
+
+    // Writes the template config unless the project already has one
+    public async createConfigFile(): Promise<boolean> {
+        try {
+            await fs.access(this.getConfigPath());
+            return false;
+        } catch {
+            await writeFileAtomic(this.getConfigPath(), JSON.stringify(CONFIG_TEMPLATE, null, 2));
+            await this.load();
+            return true;
+        }
+    }
+}
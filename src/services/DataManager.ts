@@ -1,53 +1,347 @@
+import { getDataVersion, Migration, needsMigration, RawProjectData, runMigrations } from '@/schemas/migrations';
 import {
-    Bug,
-    BUG_SCHEMA,
-    Feature,
-    FEATURE_SCHEMA,
+    DATA_FORMAT_VERSION,
     PROJECT_DATA_SCHEMA,
     ProjectData,
     ProjectItem,
-    Task,
-    TASK_SCHEMA
+    Sprint,
+    SPRINT_SCHEMA
 } from '@/schemas/project-schemas';
-import Ajv from 'ajv';
+import { AuditEntry, AuditLogService, diffItemFields } from '@/services/AuditLogService';
+import { ConfigService } from '@/services/ConfigService';
+import { ConcurrentModificationError, CorruptDataError, MergeConflictError, WorkflowError } from '@/services/errors';
+import { JsonFileStore } from '@/services/JsonFileStore';
+import { MarkdownStore } from '@/services/MarkdownStore';
+import { SqliteStore } from '@/services/SqliteStore';
+import { STORAGE_KINDS, StorageAdapter, StorageKind } from '@/services/StorageAdapter';
+import { WorkflowService } from '@/services/WorkflowService';
+import { diffProjectData, getAllItems, ItemRef } from '@/utils/diff';
+import { writeFileAtomic } from '@/utils/fs';
+import { assertLinksResolve, findDanglingLinks, findItem, removeLinksTo, syncInverseLinks } from '@/utils/links';
+import { mergeItemUpdates, valuesEqual } from '@/utils/merge';
+import { getCurrentUser } from '@/utils/user';
+import {
+    collectSyntaxIssues,
+    collectValidationIssues,
+    describeItemAt,
+    formatValidationErrors,
+    locateIssues,
+    ValidationIssue
+} from '@/utils/validation';
+import Ajv, { ErrorObject } from 'ajv';
 import addFormats from 'ajv-formats';
+import { createHash } from 'crypto';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as vscode from 'vscode';
 
+// How often a mutation is retried when another writer saves in between
+const MAX_SAVE_ATTEMPTS = 5;
+
+interface DataSnapshot {
+    data: ProjectData;
+    etag: string;
+    rawData: string;
+    /** Format version the data was migrated from while reading, if any */
+    migratedFrom: string | undefined;
+}
+
+export interface MigrationPreview {
+    fromVersion: string;
+    applied: Migration[];
+    before: string;
+    after: string;
+    valid: boolean;
+}
+
+interface BackupCandidate {
+    file: string;
+    timestamp: number;
+    data: ProjectData;
+}
+
+interface Mutation<R> {
+    value: R;
+    changed: boolean;
+    /** Logged once the change is saved */
+    audit?: AuditEntry[];
+    /** Reported through onDidRecordChange once the change is saved */
+    undo?: RecordedChange;
+}
+
+export type ItemUpdates = Partial<Omit<ProjectItem, 'id' | 'type' | 'createdAt'>>;
+
+/** One step of a batch, see applyBatch */
+export type BatchOperation =
+    | {
+        kind: 'update';
+        type: ProjectItem['type'];
+        id: string;
+        updates: ItemUpdates;
+        addTags?: string[];
+        removeTags?: string[];
+        /** For imports: any status of the workflow may be entered, as long as its guards are met */
+        anyTransition?: boolean;
+        /** The item the updates were made from, merged as updateItem merges */
+        base?: ProjectItem;
+    }
+    | { kind: 'delete'; type: ProjectItem['type']; id: string }
+    /** Adds the item under a new id, whatever `item.id` is */
+    | { kind: 'create'; item: ProjectItem }
+    /** Puts an item back as given, e.g. to undo a delete, and into `sprintIds` */
+    | { kind: 'restore'; item: ProjectItem; sprintIds?: string[] };
+
+export interface BatchResult {
+    /** The updated and restored items as saved */
+    changed: ProjectItem[];
+    deleted: ItemRef[];
+    /** Applying these as another batch reverts this one */
+    inverse: BatchOperation[];
+}
+
+/**
+ * A change to the items as the user made it, with what reverts it: a batch
+ * to apply, or for imports and restored snapshots the data to put back.
+ */
+export interface RecordedChange {
+    /** What was done, e.g. "Delete bug" */
+    label: string;
+    revert: { kind: 'batch'; operations: BatchOperation[] } | { kind: 'replace'; data: ProjectData };
+}
+
+export interface BackupRetentionPolicy {
+    maxCount: number;
+    maxAgeDays: number;
+    maxTotalSizeMB: number;
+}
+
+/**
+ * Reads and writes one project's data. Every workspace folder with a
+ * .docsToCode folder gets its own instance; getInstance() returns the one
+ * for the project currently picked in the dashboard's project switcher.
+ */
 export class DataManager {
-    private static instance: DataManager;
+    private static readonly projects = new Map<string, DataManager>();
+    private static active: DataManager | undefined;
+    private static readonly _onDidChangeActiveProject = new vscode.EventEmitter<DataManager>();
+    public static readonly onDidChangeActiveProject = DataManager._onDidChangeActiveProject.event;
+    private static readonly _onDidChangeProjects = new vscode.EventEmitter<void>();
+    public static readonly onDidChangeProjects = DataManager._onDidChangeProjects.event;
     private ajv: Ajv;
     private projectPath: string;
     private dataPath: string;
+    private lastKnownContent: string | undefined;
+    private writeQueue: Promise<unknown> = Promise.resolve();
+    private pendingRecovery: Promise<ProjectData | null> | undefined;
+    private readonly workflowService: WorkflowService;
+    private readonly configService: ConfigService;
+    private readonly auditLog: AuditLogService;
+    private storage: StorageAdapter;
+    private storageWatcher: vscode.Disposable | undefined;
+    private readonly _onDidChangeData = new vscode.EventEmitter<ProjectData>();
+    public readonly onDidChangeData = this._onDidChangeData.event;
+    // Fired after every successful save made through this instance
+    private readonly _onDidSaveData = new vscode.EventEmitter<ProjectData>();
+    public readonly onDidSaveData = this._onDidSaveData.event;
+    // Fired for any file event on the storage, including our own saves
+    private readonly _onDidTouchStorage = new vscode.EventEmitter<void>();
+    public readonly onDidTouchStorage = this._onDidTouchStorage.event;
+    // Fired after each saved item change that can be undone
+    private readonly _onDidRecordChange = new vscode.EventEmitter<RecordedChange>();
+    public readonly onDidRecordChange = this._onDidRecordChange.event;
 
-    private constructor() {
+    private constructor(private readonly folder: vscode.WorkspaceFolder) {
         this.ajv = new Ajv({ allErrors: true });
         addFormats(this.ajv);
 
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
-            throw new Error('No workspace folder found');
-        }
-
-        this.projectPath = workspaceFolder.uri.fsPath;
+        this.projectPath = folder.uri.fsPath;
         this.dataPath = path.join(this.projectPath, '.docsToCode');
+        this.workflowService = new WorkflowService(this.dataPath, this.ajv);
+        this.configService = new ConfigService(this.dataPath, this.ajv, this.workflowService);
+        this.auditLog = new AuditLogService(this.dataPath);
+        this.storage = this.createStorage(this.getConfiguredStorageKind());
     }
 
+    // The active project, the first workspace folder's until another is picked
     public static getInstance(): DataManager {
-        if (!DataManager.instance) {
-            DataManager.instance = new DataManager();
+        if (!DataManager.active) {
+            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+            if (!workspaceFolder) {
+                throw new Error('No workspace folder found');
+            }
+            DataManager.active = DataManager.forFolder(workspaceFolder);
+        }
+        return DataManager.active;
+    }
+
+    public static forFolder(folder: vscode.WorkspaceFolder): DataManager {
+        const key = folder.uri.toString();
+        let manager = DataManager.projects.get(key);
+        if (!manager) {
+            manager = new DataManager(folder);
+            DataManager.projects.set(key, manager);
+            DataManager._onDidChangeProjects.fire();
         }
-        return DataManager.instance;
+        return manager;
     }
 
+    // In workspace folder order
+    public static getProjects(): DataManager[] {
+        return [...DataManager.projects.values()].sort((a, b) => a.folder.index - b.folder.index);
+    }
+
+    public static getProject(projectId: string): DataManager | undefined {
+        return DataManager.projects.get(projectId);
+    }
+
+    public static setActive(manager: DataManager): void {
+        if (DataManager.active !== manager) {
+            DataManager.active = manager;
+            DataManager._onDidChangeActiveProject.fire(manager);
+        }
+    }
+
+    // For a folder removed from the workspace
+    public static removeProject(folder: vscode.WorkspaceFolder): void {
+        const key = folder.uri.toString();
+        const manager = DataManager.projects.get(key);
+        if (!manager) {
+            return;
+        }
+
+        manager.storageWatcher?.dispose();
+        DataManager.projects.delete(key);
+        DataManager._onDidChangeProjects.fire();
+
+        const [next] = DataManager.getProjects();
+        if (DataManager.active === manager && next) {
+            DataManager.setActive(next);
+        }
+    }
+
+    /**
+     * Subscribes to the active project's events via `subscribe`, and again
+     * to the new project's whenever another one becomes active.
+     */
+    public static followActiveProject(subscribe: (manager: DataManager) => vscode.Disposable[]): vscode.Disposable {
+        let subscriptions = subscribe(DataManager.getInstance());
+        const listener = DataManager.onDidChangeActiveProject(manager => {
+            subscriptions.forEach(subscription => subscription.dispose());
+            subscriptions = subscribe(manager);
+        });
+
+        return new vscode.Disposable(() => {
+            listener.dispose();
+            subscriptions.forEach(subscription => subscription.dispose());
+        });
+    }
+
+    // Stable across sessions, e.g. to remember the active project
+    public getProjectId(): string {
+        return this.folder.uri.toString();
+    }
+
+    public getProjectName(): string {
+        return this.folder.name;
+    }
+
+    public getFolder(): vscode.WorkspaceFolder {
+        return this.folder;
+    }
+
+    /**
+     * Picks the storage holding the project's data, preferring the one the
+     * `docstocode.storage.adapter` setting asks for, and creates the data
+     * there when there is none yet.
+     */
     public async initialize(): Promise<void> {
-        try {
-            await fs.access(this.dataPath);
-        } catch {
-            await fs.mkdir(this.dataPath, { recursive: true });
+        await fs.mkdir(this.dataPath, { recursive: true });
+
+        const configured = this.getConfiguredStorageKind();
+        let found: StorageAdapter | undefined;
+        for (const kind of [configured, ...STORAGE_KINDS.filter(kind => kind !== configured)]) {
+            const storage = this.createStorage(kind);
+            if (await storage.exists()) {
+                found = storage;
+                break;
+            }
+        }
+
+        this.setStorage(found ?? this.createStorage(configured));
+        if (!found) {
             await this.createInitialData();
         }
+        await this.workflowService.load();
+        await this.configService.load();
+    }
+
+    public getStorage(): StorageAdapter {
+        return this.storage;
+    }
+
+    public getConfiguredStorageKind(): StorageKind {
+        const kind = vscode.workspace.getConfiguration('docstocode.storage', this.folder.uri).get<string>('adapter', 'json');
+        return STORAGE_KINDS.find(candidate => candidate === kind) ?? 'json';
+    }
+
+    private createStorage(kind: StorageKind): StorageAdapter {
+        switch (kind) {
+            case 'markdown':
+                return new MarkdownStore(this.dataPath);
+            case 'sqlite':
+                return new SqliteStore(this.dataPath);
+            default:
+                return new JsonFileStore(this.dataPath);
+        }
+    }
+
+    private setStorage(storage: StorageAdapter): void {
+        this.storageWatcher?.dispose();
+        this.storage = storage;
+        this.storageWatcher = storage.watch(() => this._onDidTouchStorage.fire());
+    }
+
+    /**
+     * Moves the project to another storage adapter, along with the snapshots
+     * it doesn't have yet, and deletes the data from the old one. The audit
+     * log is a separate file and stays as it is.
+     */
+    public async convertStorage(target: StorageKind): Promise<void> {
+        if (target === this.storage.kind) {
+            return;
+        }
+
+        await this.enqueueWrite(async () => {
+            const { data } = await this.readSnapshot();
+            const previous = this.storage;
+            const next = this.createStorage(target);
+
+            const content = await next.save(data);
+            const existing = new Set((await next.listSnapshots()).map(snapshot => snapshot.id));
+            for (const snapshot of await previous.listSnapshots()) {
+                if (!existing.has(snapshot.id)) {
+                    await next.writeSnapshot(await previous.readSnapshot(snapshot.id), snapshot.timestamp);
+                }
+            }
+
+            this.lastKnownContent = content;
+            this.setStorage(next);
+            await previous.remove();
+        });
+        // Listeners tied to the old adapter's files pick up the new ones
+        this._onDidTouchStorage.fire();
+    }
+
+    public getWorkflowService(): WorkflowService {
+        return this.workflowService;
+    }
+
+    public getConfigService(): ConfigService {
+        return this.configService;
+    }
+
+    public getAuditLog(): AuditLogService {
+        return this.auditLog;
     }
 
     private async createInitialData(): Promise<void> {
@@ -55,10 +349,12 @@ export class DataManager {
             features: [],
             bugs: [],
             tasks: [],
+            sprints: [],
             metadata: {
                 projectName: path.basename(this.projectPath),
-                version: '1.0.0',
-                lastUpdated: new Date().toISOString()
+                version: DATA_FORMAT_VERSION,
+                lastUpdated: new Date().toISOString(),
+                revision: 0
             }
         };
 
@@ -67,55 +363,382 @@ export class DataManager {
 
     public async loadData(): Promise<ProjectData> {
         try {
-            const dataFile = path.join(this.dataPath, 'project-data.json');
-            const rawData = await fs.readFile(dataFile, 'utf-8');
-            const data = JSON.parse(rawData) as ProjectData;
-
-            if (!this.validateProjectData(data)) {
-                throw new Error('Invalid project data format');
+            const snapshot = await this.readSnapshot();
+            if (snapshot.migratedFrom) {
+                await this.persistMigration(snapshot);
             }
-
-            return data;
+            return snapshot.data;
         } catch (error) {
+            if (error instanceof CorruptDataError) {
+                const recovered = await this.recoverFromBackup(error.rawData);
+                if (recovered) {
+                    return recovered;
+                }
+            }
             vscode.window.showErrorMessage(`Failed to load project data: ${error}`);
             throw error;
         }
     }
 
-    public async saveData(data: ProjectData): Promise<void> {
+    // What the save reads back is recorded so our own file events are not mistaken for external changes
+    private async writeData(data: ProjectData): Promise<void> {
+        this.lastKnownContent = await this.storage.save(data);
+    }
+
+    private async readSnapshot(): Promise<DataSnapshot> {
+        const rawData = await this.storage.load();
+        const { data, migratedFrom } = this.parseAndMigrate(rawData);
+
+        return { data, etag: this.computeEtag(rawData), rawData, migratedFrom };
+    }
+
+    /**
+     * Parses raw file content, upgrading older data formats in memory.
+     * Throws CorruptDataError for unparsable or invalid content and
+     * MigrationError when the format cannot be upgraded.
+     */
+    private parseAndMigrate(rawData: string): { data: ProjectData; migratedFrom: string | undefined } {
+        let parsed: RawProjectData;
+        try {
+            parsed = JSON.parse(rawData);
+        } catch {
+            throw new CorruptDataError('Invalid project data format', rawData);
+        }
+
+        let migratedFrom: string | undefined;
+        if (parsed && typeof parsed === 'object' && parsed['metadata'] && needsMigration(parsed)) {
+            migratedFrom = getDataVersion(parsed);
+            parsed = runMigrations(parsed).data;
+        }
+
+        const errors = this.getValidationErrors(parsed);
+        if (errors.length > 0) {
+            const problems = formatValidationErrors(parsed, errors);
+            const more = problems.length > 1
+                ? ` (and ${problems.length - 1} more, see the Problems panel)`
+                : '';
+            throw new CorruptDataError(`Invalid project data format: ${problems[0]}${more}`, rawData);
+        }
+
+        // Matches the schema, having passed validation
+        return { data: parsed as unknown as ProjectData, migratedFrom };
+    }
+
+    public parseProjectData(rawData: string): ProjectData | null {
+        try {
+            return this.parseAndMigrate(rawData).data;
+        } catch {
+            return null;
+        }
+    }
+
+    // Writes data that was upgraded on read back to disk, after a backup
+    private async persistMigration(snapshot: DataSnapshot): Promise<void> {
+        await this.enqueueWrite(async () => {
+            await this.writeMigrationBackup(snapshot);
+            try {
+                await this.saveData(snapshot.data, snapshot.etag);
+                vscode.window.showInformationMessage(
+                    `Project data migrated from format ${snapshot.migratedFrom} to ${DATA_FORMAT_VERSION}`
+                );
+            } catch (error) {
+                // Another writer got there first; the next load migrates again
+                if (!(error instanceof ConcurrentModificationError)) {
+                    throw error;
+                }
+            }
+        });
+    }
+
+    // Kept outside the backup rotation so the original format is never lost
+    private async writeMigrationBackup(snapshot: DataSnapshot): Promise<void> {
+        const backupFile = path.join(
+            this.dataPath,
+            `pre-migration-${snapshot.migratedFrom}-${Date.now()}.json`
+        );
+        await writeFileAtomic(backupFile, snapshot.rawData);
+    }
+
+    /**
+     * Dry run: reports which migrations loading the data would apply and
+     * what the file would look like afterwards, without writing anything.
+     */
+    public async previewMigration(): Promise<MigrationPreview> {
+        const before = await this.storage.load();
+        const parsed = JSON.parse(before) as RawProjectData;
+        const { data, applied } = runMigrations(parsed);
+
+        return {
+            fromVersion: getDataVersion(parsed),
+            applied,
+            before,
+            after: JSON.stringify(data, null, 2),
+            valid: this.validateProjectData(data)
+        };
+    }
+
+    /**
+     * Offers to replace damaged project data with the newest backup that
+     * parses and validates. The damaged data is kept in the data folder as
+     * corrupt-<timestamp>.json. Concurrent callers share a single prompt.
+     */
+    private recoverFromBackup(rawData: string): Promise<ProjectData | null> {
+        if (!this.pendingRecovery) {
+            this.pendingRecovery = this.promptRecovery(rawData).finally(() => {
+                this.pendingRecovery = undefined;
+            });
+        }
+        return this.pendingRecovery;
+    }
+
+    private async promptRecovery(rawData: string): Promise<ProjectData | null> {
+        const dataFile = this.storage.dataFile;
+        const subject = dataFile ? path.basename(dataFile) : 'Project data';
+        const backup = await this.findLatestValidBackup();
+        if (!backup) {
+            vscode.window.showErrorMessage(`${subject} is damaged and no valid backup was found.`);
+            return null;
+        }
+
+        const backupIds = new Set(getAllItems(backup.data).map(item => item.id));
+        const lostIds = [...rawData.matchAll(/"id"\s*:\s*"([^"]+)"/g)]
+            .map(match => match[1])
+            .filter((id): id is string => !!id && !backupIds.has(id));
+
+        const detail = [
+            `The newest valid backup is from ${new Date(backup.timestamp).toLocaleString()} ` +
+            `and contains ${backupIds.size} item(s).`,
+            lostIds.length > 0
+                ? `${lostIds.length} item(s) found in the damaged file are not in the backup and will be lost: ${lostIds.join(', ')}.`
+                : 'Changes made after the backup was taken will be lost.',
+            'The damaged file is kept as a corrupt-*.json copy.'
+        ].join('\n\n');
+
+        const choice = await vscode.window.showWarningMessage(
+            `${subject} is damaged and cannot be loaded. Restore the latest backup?`,
+            { modal: true, detail },
+            'Restore Backup',
+            'Open Damaged File'
+        );
+
+        if (choice === 'Open Damaged File') {
+            await vscode.window.showTextDocument(dataFile
+                ? vscode.Uri.file(dataFile)
+                : (await vscode.workspace.openTextDocument({ content: rawData, language: 'json' })).uri);
+            return null;
+        }
+        if (choice !== 'Restore Backup') {
+            return null;
+        }
+
+        await writeFileAtomic(path.join(this.dataPath, `corrupt-${Date.now()}.json`), rawData);
+        await this.writeData(backup.data);
+
+        vscode.window.showInformationMessage(`Project data restored from ${backup.file}`);
+        return backup.data;
+    }
+
+    private async findLatestValidBackup(): Promise<BackupCandidate | null> {
+        for (const snapshot of await this.storage.listSnapshots()) {
+            try {
+                const data = this.parseProjectData(await this.storage.readSnapshot(snapshot.id));
+                if (data) {
+                    return { file: snapshot.id, timestamp: snapshot.timestamp, data };
+                }
+            } catch {
+                // Unreadable backup, try the next older one
+            }
+        }
+
+        return null;
+    }
+
+    private computeEtag(content: string): string {
+        return createHash('sha1').update(content).digest('hex');
+    }
+
+    /**
+     * Writes project data. When `expectedEtag` is given the save only goes
+     * through if the file on disk still has that etag, otherwise a
+     * ConcurrentModificationError is thrown and nothing is written.
+     */
+    public async saveData(data: ProjectData, expectedEtag?: string): Promise<void> {
         try {
             if (!this.validateProjectData(data)) {
                 throw new Error('Invalid project data format');
             }
 
+            if (expectedEtag !== undefined) {
+                const currentEtag = await this.readCurrentEtag();
+                if (currentEtag !== undefined && currentEtag !== expectedEtag) {
+                    throw new ConcurrentModificationError();
+                }
+            }
+
             data.metadata.lastUpdated = new Date().toISOString();
+            data.metadata.revision = (data.metadata.revision ?? 0) + 1;
 
-            const dataFile = path.join(this.dataPath, 'project-data.json');
-            await fs.writeFile(dataFile, JSON.stringify(data, null, 2), 'utf-8');
+            await this.writeData(data);
 
             // Create backup
-            const backupFile = path.join(this.dataPath, `backup-${Date.now()}.json`);
-            await fs.writeFile(backupFile, JSON.stringify(data, null, 2), 'utf-8');
+            await this.storage.writeSnapshot(JSON.stringify(data, null, 2));
 
-            // Keep only last 5 backups
+            // Drop backups beyond the retention policy's count, age and size limits
             await this.cleanupBackups();
 
+            this._onDidSaveData.fire(data);
+
         } catch (error) {
-            vscode.window.showErrorMessage(`Failed to save project data: ${error}`);
+            if (!(error instanceof ConcurrentModificationError)) {
+                vscode.window.showErrorMessage(`Failed to save project data: ${error}`);
+            }
             throw error;
         }
     }
 
+    private async readCurrentEtag(): Promise<string | undefined> {
+        try {
+            return this.computeEtag(await this.storage.load());
+        } catch {
+            return undefined;
+        }
+    }
+
+    // Serializes writers within this extension host
+    private enqueueWrite<R>(operation: () => Promise<R>): Promise<R> {
+        const result = this.writeQueue.then(operation, operation);
+        this.writeQueue = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Runs a read-modify-write cycle with a compare-and-swap save. If another
+     * process saved in between, the data is re-read and `apply` runs again
+     * against the fresh copy.
+     */
+    private mutate<R>(apply: (data: ProjectData) => Mutation<R>): Promise<R> {
+        return this.enqueueWrite(async () => {
+            for (let attempt = 1; ; attempt++) {
+                const snapshot = await this.readSnapshot();
+                const { data, etag } = snapshot;
+                const { value, changed, audit, undo } = apply(data);
+
+                if (changed && snapshot.migratedFrom) {
+                    await this.writeMigrationBackup(snapshot);
+                }
+
+                if (!changed) {
+                    return value;
+                }
+
+                try {
+                    await this.saveData(data, etag);
+                    await this.recordAudit(audit ?? []);
+                    if (undo) {
+                        this._onDidRecordChange.fire(undo);
+                    }
+                    return value;
+                } catch (error) {
+                    if (error instanceof ConcurrentModificationError && attempt < MAX_SAVE_ATTEMPTS) {
+                        continue;
+                    }
+                    throw error;
+                }
+            }
+        });
+    }
+
+    private auditEntry(action: AuditEntry['action'], before: ProjectItem | undefined, after: ProjectItem | undefined): AuditEntry {
+        const item = (after ?? before)!;
+        return {
+            at: new Date().toISOString(),
+            actor: getCurrentUser(),
+            action,
+            itemType: item.type,
+            itemId: item.id,
+            title: item.title,
+            changes: diffItemFields(before, after)
+        };
+    }
+
+    // The data is already saved at this point, so a failure here is only logged
+    private async recordAudit(entries: AuditEntry[]): Promise<void> {
+        try {
+            await this.auditLog.append(entries.filter(entry => entry.action !== 'update' || entry.changes.length > 0));
+        } catch (error) {
+            console.warn('Failed to write audit log:', error);
+        }
+    }
+
+    /**
+     * Re-reads the stored data after a file system event and notifies
+     * listeners when the content differs from what this instance last
+     * wrote or reported. Plain reads don't count, so an external change
+     * that a load picks up first is still reported. Our own saves are not
+     * reported back; the read waits for saves in progress so it never
+     * sees one half done.
+     */
+    public reloadFromDisk(): Promise<ProjectData | null> {
+        return this.enqueueWrite(async () => {
+            let rawData: string;
+            try {
+                rawData = await this.storage.load();
+            } catch {
+                return null;
+            }
+
+            if (rawData === this.lastKnownContent) {
+                return null;
+            }
+
+            // Invalid content is left for loadData to report and recover from
+            const data = this.parseProjectData(rawData);
+            if (!data) {
+                return null;
+            }
+
+            this.lastKnownContent = rawData;
+            this._onDidChangeData.fire(data);
+            return data;
+        });
+    }
+
+    public getRetentionPolicy(): BackupRetentionPolicy {
+        const config = vscode.workspace.getConfiguration('docstocode.backups');
+        return {
+            maxCount: config.get<number>('maxCount', 5),
+            maxAgeDays: config.get<number>('maxAgeDays', 0),
+            maxTotalSizeMB: config.get<number>('maxTotalSizeMB', 0)
+        };
+    }
+
+    // Applies the retention policy; the newest backup is always kept
     private async cleanupBackups(): Promise<void> {
         try {
-            const files = await fs.readdir(this.dataPath);
-            const backupFiles = files
-                .filter(file => file.startsWith('backup-') && file.endsWith('.json'))
-                .sort((a, b) => b.localeCompare(a))
-                .slice(5);
+            const policy = this.getRetentionPolicy();
+            const oldestAllowed = policy.maxAgeDays > 0
+                ? Date.now() - policy.maxAgeDays * 24 * 60 * 60 * 1000
+                : 0;
+            const maxTotalBytes = policy.maxTotalSizeMB > 0
+                ? policy.maxTotalSizeMB * 1024 * 1024
+                : Infinity;
+
+            let kept = 0;
+            let totalBytes = 0;
+
+            for (const snapshot of await this.storage.listSnapshots()) {
+                const keep = kept === 0 || (
+                    kept < Math.max(1, policy.maxCount) &&
+                    snapshot.timestamp >= oldestAllowed &&
+                    totalBytes + snapshot.size <= maxTotalBytes
+                );
 
-            for (const file of backupFiles) {
-                await fs.unlink(path.join(this.dataPath, file));
+                if (keep) {
+                    kept++;
+                    totalBytes += snapshot.size;
+                } else {
+                    await this.storage.deleteSnapshot(snapshot.id);
+                }
             }
         } catch (error) {
             console.warn('Failed to cleanup backups:', error);
@@ -123,141 +746,564 @@ export class DataManager {
     }
 
     private validateProjectData(data: any): data is ProjectData {
-        const validate = this.ajv.compile(PROJECT_DATA_SCHEMA);
-        const isValid = validate(data);
+        const errors = this.getValidationErrors(data);
 
-        if (!isValid) {
-            console.error('Validation errors:', validate.errors);
+        if (errors.length > 0) {
+            console.error('Validation errors:\n' + formatValidationErrors(data, errors).join('\n'));
             return false;
         }
 
         return true;
     }
 
+    public getValidationErrors(data: unknown): ErrorObject[] {
+        const validate = this.ajv.compile(PROJECT_DATA_SCHEMA);
+        return validate(data) ? [] : [...(validate.errors ?? [])];
+    }
+
+    /**
+     * Checks file content the way loadData would and reports each problem
+     * with its position in the text, for editor diagnostics.
+     */
+    public getValidationIssues(rawData: string): ValidationIssue[] {
+        const syntaxIssues = collectSyntaxIssues(rawData);
+        if (syntaxIssues.length > 0) {
+            return syntaxIssues;
+        }
+
+        let data: RawProjectData;
+        try {
+            data = JSON.parse(rawData);
+        } catch (error) {
+            // Comments are accepted by the tree parser but not by JSON.parse
+            return [{ message: `JSON syntax error: ${error instanceof Error ? error.message : error}`, offset: 0, length: 1, fixes: [] }];
+        }
+
+        if (data && typeof data === 'object' && data['metadata'] && needsMigration(data)) {
+            try {
+                data = runMigrations(data).data;
+            } catch (error) {
+                return [{ message: `${error instanceof Error ? error.message : error}`, offset: 0, length: 1, fixes: [] }];
+            }
+        }
+
+        const errors = this.getValidationErrors(data);
+        const issues = collectValidationIssues(rawData, data, errors);
+        if (errors.length > 0) {
+            return issues;
+        }
+        const project = data as unknown as ProjectData;
+
+        const dangling = findDanglingLinks(project).map(({ source, link, index }) => {
+            const linkPath = [`${source.type}s`, this.getCollection(project, source.type).indexOf(source), 'links', index];
+            return {
+                path: linkPath,
+                message: `${describeItemAt(data, linkPath)}: link "${link.type}" points to missing ${link.targetType} ${link.targetId}`,
+                fixes: [{ label: 'Remove link', path: linkPath, value: undefined }]
+            };
+        });
+
+        // The item schemas take any status; the workflow says which ones exist
+        const unknownStatuses = getAllItems(project).flatMap(item => {
+            const { statuses } = this.workflowService.getWorkflow(item.type);
+            if (statuses.includes(item.status)) {
+                return [];
+            }
+            const statusPath = [`${item.type}s`, this.getCollection(project, item.type).indexOf(item), 'status'];
+            return [{
+                path: statusPath,
+                message: `${describeItemAt(data, statusPath)}: "${item.status}" is not a ${item.type} status in this project's workflow`,
+                fixes: statuses.map(status => ({ label: `Change to "${status}"`, path: statusPath, value: status }))
+            }];
+        });
+
+        return [...issues, ...locateIssues(rawData, [...dangling, ...unknownStatuses])];
+    }
+
+    // Against the type's schema including the project's custom fields
     public validateItem(item: ProjectItem): boolean {
-        let schema;
-        switch (item.type) {
-            case 'feature':
-                schema = FEATURE_SCHEMA;
-                break;
-            case 'bug':
-                schema = BUG_SCHEMA;
-                break;
-            case 'task':
-                schema = TASK_SCHEMA;
-                break;
-            default:
-                return false;
+        if (!['feature', 'bug', 'task'].includes(item.type)) {
+            return false;
         }
 
-        const validate = this.ajv.compile(schema);
+        const validate = this.ajv.compile(this.configService.getItemSchema(item.type));
         return validate(item);
     }
 
+    /**
+     * Why an item fails its type's schema, one readable message per
+     * problem; empty when it is valid.
+     */
+    public getItemErrors(item: ProjectItem): string[] {
+        if (!['feature', 'bug', 'task'].includes(item.type)) {
+            return [`unknown item type "${item.type}"`];
+        }
+
+        const validate = this.ajv.compile(this.configService.getItemSchema(item.type));
+        if (validate(item)) {
+            return [];
+        }
+        return (validate.errors ?? []).map(error => {
+            const field = error.instancePath.slice(1).replace(/\//g, '.');
+            const allowed = error.keyword === 'enum' ? ` (${(error.params['allowedValues'] as unknown[]).join(', ')})` : '';
+            return `${field ? `${field} ` : ''}${error.message}${allowed}`;
+        });
+    }
+
     // CRUD Operations
     public async createItem<T extends ProjectItem>(
         type: T['type'],
         itemData: Omit<T, 'id' | 'createdAt' | 'updatedAt'>
     ): Promise<T> {
-        const data = await this.loadData();
-
+        const now = new Date().toISOString();
         const item = {
             ...itemData,
             id: this.generateId(),
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString()
+            statusHistory: [{ status: itemData.status, at: now }],
+            createdAt: now,
+            updatedAt: now
         } as T;
 
         if (!this.validateItem(item)) {
             throw new Error('Invalid item data');
         }
+        this.workflowService.assertTransition(item, undefined);
 
-        switch (type) {
-            case 'feature':
-                data.features.push(item as Feature);
-                break;
-            case 'bug':
-                data.bugs.push(item as Bug);
-                break;
-            case 'task':
-                data.tasks.push(item as Task);
-                break;
-        }
-
-        await this.saveData(data);
-        return item;
+        return this.mutate(data => {
+            assertLinksResolve(data, item);
+            this.getCollection(data, type).push(item);
+            this.touch(syncInverseLinks(data, item, []));
+            return {
+                value: item,
+                changed: true,
+                audit: [this.auditEntry('create', undefined, item)],
+                undo: this.undoBatch(`Create ${type}`, [{ kind: 'delete', type, id: item.id }])
+            };
+        });
     }
 
+    /**
+     * Updates an item. When `base` (the version the caller started editing
+     * from) is given, the updates are three-way merged with the stored item
+     * so concurrent edits to other fields survive; edits to the same field
+     * raise a MergeConflictError.
+     */
     public async updateItem<T extends ProjectItem>(
         type: T['type'],
         id: string,
-        updates: Partial<Omit<T, 'id' | 'type' | 'createdAt'>>
+        updates: Partial<Omit<T, 'id' | 'type' | 'createdAt'>>,
+        base?: T
     ): Promise<T | null> {
-        const data = await this.loadData();
-        let collection: ProjectItem[];
+        return this.mutate<T | null>(data => {
+            const collection = this.getCollection(data, type);
+            const itemIndex = collection.findIndex(item => item.id === id);
+            if (itemIndex === -1) {
+                return { value: null, changed: false };
+            }
 
-        switch (type) {
-            case 'feature':
-                collection = data.features;
-                break;
-            case 'bug':
-                collection = data.bugs;
-                break;
-            case 'task':
-                collection = data.tasks;
-                break;
-            default:
-                return null;
-        }
+            const current = collection[itemIndex] as T;
+            let changes: Record<string, unknown> = updates;
 
-        const itemIndex = collection.findIndex(item => item.id === id);
-        if (itemIndex === -1) {
-            return null;
-        }
+            if (base) {
+                const { merged, conflicts } = mergeItemUpdates(
+                    base as unknown as Record<string, unknown>,
+                    current as unknown as Record<string, unknown>,
+                    updates as Record<string, unknown>
+                );
+                if (conflicts.length > 0) {
+                    throw new MergeConflictError(type, id, conflicts, current);
+                }
+                changes = merged;
+            }
+
+            // Nothing to save when every value is already stored, e.g. after a merge
+            const stored = current as unknown as Record<string, unknown>;
+            if (Object.entries(changes).every(([field, value]) => valuesEqual(value, stored[field]))) {
+                return { value: current, changed: false };
+            }
 
+            const updatedItem = this.applyUpdate(data, collection, itemIndex, changes) as T;
+            return {
+                value: updatedItem,
+                changed: true,
+                audit: [this.auditEntry('update', current, updatedItem)],
+                undo: this.undoBatch(`Update ${type}`, [this.updateInverse(current, updatedItem, changes)])
+            };
+        });
+    }
+
+    /**
+     * Puts back only the fields an update changed, merged against the
+     * updated item so a later edit to one of them conflicts rather than
+     * being overwritten. Edits to other fields stay.
+     */
+    private updateInverse(previous: ProjectItem, updated: ProjectItem, changes: Record<string, unknown>): BatchOperation {
+        const before = previous as unknown as Record<string, unknown>;
+        const after = updated as unknown as Record<string, unknown>;
+        const fields = Object.keys(changes).filter(field => !valuesEqual(before[field], after[field]));
+        return {
+            kind: 'update',
+            type: updated.type,
+            id: updated.id,
+            updates: Object.fromEntries(fields.map(field => [field, before[field]])) as ItemUpdates,
+            base: updated,
+            // Stepping back may go against the workflow's direction
+            anyTransition: true
+        };
+    }
+
+    // Replaces collection[itemIndex] with the updated item, within a mutation
+    private applyUpdate(
+        data: ProjectData,
+        collection: ProjectItem[],
+        itemIndex: number,
+        changes: Record<string, unknown>,
+        anyTransition = false
+    ): ProjectItem {
+        const current = collection[itemIndex]!;
+        const now = new Date().toISOString();
         const updatedItem = {
-            ...collection[itemIndex],
-            ...updates,
-            updatedAt: new Date().toISOString()
-        } as T;
+            ...current,
+            ...changes,
+            updatedAt: now
+        } as ProjectItem;
+        if (updatedItem.status !== current.status) {
+            updatedItem.statusHistory = [...(current.statusHistory ?? []), { status: updatedItem.status, at: now }];
+        }
 
         if (!this.validateItem(updatedItem)) {
             throw new Error('Invalid updated item data');
         }
 
+        this.workflowService.assertTransition(
+            updatedItem,
+            anyTransition && updatedItem.status !== current.status ? undefined : current.status
+        );
+        assertLinksResolve(data, updatedItem);
         collection[itemIndex] = updatedItem;
-        await this.saveData(data);
-
+        this.touch(syncInverseLinks(data, updatedItem, current.links ?? []));
         return updatedItem;
     }
 
+    /**
+     * Puts an item back as it was in an earlier snapshot, replacing the
+     * current version if there is one.
+     */
+    public async restoreItem(item: ProjectItem): Promise<void> {
+        if (!this.validateItem(item)) {
+            throw new Error('Invalid item data');
+        }
+
+        await this.mutate(data => {
+            const { previous, restored } = this.applyRestore(data, item);
+            return {
+                value: undefined,
+                changed: true,
+                audit: [this.auditEntry(previous ? 'update' : 'create', previous, restored)],
+                undo: this.undoBatch(`Restore ${item.type}`, [previous
+                    ? { kind: 'restore', item: previous }
+                    : { kind: 'delete', type: item.type, id: item.id }])
+            };
+        });
+    }
+
+    private applyRestore(data: ProjectData, item: ProjectItem): { previous: ProjectItem | undefined; restored: ProjectItem } {
+        const collection = this.getCollection(data, item.type);
+        const itemIndex = collection.findIndex(existing => existing.id === item.id);
+        const previous = itemIndex === -1 ? undefined : collection[itemIndex];
+
+        // Links to items deleted since the snapshot cannot be restored
+        const restored = {
+            ...item,
+            links: (item.links ?? []).filter(link => findItem(data, { type: link.targetType, id: link.targetId }))
+        } as ProjectItem;
+
+        if (itemIndex === -1) {
+            collection.push(restored);
+        } else {
+            collection[itemIndex] = restored;
+        }
+        this.touch(syncInverseLinks(data, restored, previous?.links ?? []));
+        return { previous, restored };
+    }
+
+    /**
+     * Replaces all project data, e.g. from an import or a restored snapshot.
+     * Pass no `label` to keep the change off the undo history.
+     */
+    public async replaceData(data: ProjectData, label?: string): Promise<void> {
+        await this.enqueueWrite(async () => {
+            const previous = await this.readSnapshot().then(snapshot => snapshot.data, () => undefined);
+            await this.saveData(data);
+            if (previous && label) {
+                this._onDidRecordChange.fire({ label, revert: { kind: 'replace', data: previous } });
+            }
+
+            if (previous) {
+                const previousItems = new Map(getAllItems(previous).map(item => [`${item.type}:${item.id}`, item]));
+                const changes = diffProjectData(previous, data);
+                await this.recordAudit([
+                    ...changes.added.map(item => this.auditEntry('create', undefined, item)),
+                    ...changes.updated.map(item => this.auditEntry('update', previousItems.get(`${item.type}:${item.id}`), item)),
+                    ...changes.removed.map(ref => this.auditEntry('delete', previousItems.get(`${ref.type}:${ref.id}`), undefined))
+                ]);
+            }
+        });
+    }
+
     public async deleteItem(type: ProjectItem['type'], id: string): Promise<boolean> {
-        const data = await this.loadData();
-        let collection: ProjectItem[];
+        return this.mutate(data => {
+            const collection = this.getCollection(data, type);
+            const itemIndex = collection.findIndex(item => item.id === id);
+            if (itemIndex === -1) {
+                return { value: false, changed: false };
+            }
+
+            const { removed, sprintIds } = this.applyDelete(data, collection, itemIndex);
+            return {
+                value: true,
+                changed: true,
+                audit: [this.auditEntry('delete', removed, undefined)],
+                undo: this.undoBatch(`Delete ${type}`, [{ kind: 'restore', item: removed, sprintIds }])
+            };
+        });
+    }
+
+    // Also takes the item out of sprints; returns the ones it was in
+    private applyDelete(data: ProjectData, collection: ProjectItem[], itemIndex: number): { removed: ProjectItem; sprintIds: string[] } {
+        const [removed] = collection.splice(itemIndex, 1) as [ProjectItem];
+        this.touch(removeLinksTo(data, removed));
+        const sprintIds: string[] = [];
+        data.sprints.forEach(sprint => {
+            if (sprint.itemIds.includes(removed.id)) {
+                sprintIds.push(sprint.id);
+                sprint.itemIds = sprint.itemIds.filter(itemId => itemId !== removed.id);
+            }
+        });
+        return { removed, sprintIds };
+    }
+
+    /**
+     * Applies several item changes as one transaction: all of them run
+     * against the same copy of the data, which is saved once with a single
+     * backup. If any step fails nothing is saved. Pass no `label` to keep
+     * the batch off the undo history.
+     */
+    public async applyBatch(operations: BatchOperation[], label?: string): Promise<BatchResult> {
+        // Ids are given out up front so a retried mutation creates the same items
+        const created = new Map<BatchOperation, ProjectItem>();
+        for (const operation of operations) {
+            if (operation.kind === 'create') {
+                const now = new Date().toISOString();
+                const item = { ...operation.item, id: this.generateId(), updatedAt: now } as ProjectItem;
+                if (!this.validateItem(item)) {
+                    throw new Error(`Invalid item data for "${item.title}"`);
+                }
+                this.workflowService.assertTransition(item, undefined);
+                created.set(operation, item);
+            } else if (operation.kind === 'restore' && !this.validateItem(operation.item)) {
+                throw new Error(`Invalid item data for ${operation.item.type} ${operation.item.id}`);
+            }
+        }
+
+        return this.mutate(data => {
+            const result: BatchResult = { changed: [], deleted: [], inverse: [] };
+            const audit: AuditEntry[] = [];
+
+            for (const operation of operations) {
+                if (operation.kind === 'create') {
+                    // New items start unlinked, their links would need the other side too
+                    const added = { ...created.get(operation)!, links: [] } as ProjectItem;
+                    this.getCollection(data, added.type).push(added);
+                    result.changed.push(added);
+                    result.inverse.push({ kind: 'delete', type: added.type, id: added.id });
+                    audit.push(this.auditEntry('create', undefined, added));
+                    continue;
+                }
+
+                if (operation.kind === 'restore') {
+                    const { previous, restored } = this.applyRestore(data, operation.item);
+                    for (const sprint of data.sprints) {
+                        if (operation.sprintIds?.includes(sprint.id) && !sprint.itemIds.includes(restored.id)) {
+                            sprint.itemIds = [...sprint.itemIds, restored.id];
+                        }
+                    }
+                    result.changed.push(restored);
+                    result.inverse.push(previous
+                        ? { kind: 'restore', item: previous }
+                        : { kind: 'delete', type: restored.type, id: restored.id });
+                    audit.push(this.auditEntry(previous ? 'update' : 'create', previous, restored));
+                    continue;
+                }
+
+                const collection = this.getCollection(data, operation.type);
+                const itemIndex = collection.findIndex(existing => existing.id === operation.id);
+                if (itemIndex === -1) {
+                    // Deleted by someone else in the meantime
+                    continue;
+                }
+                const current = collection[itemIndex]!;
+
+                if (operation.kind === 'delete') {
+                    const { removed, sprintIds } = this.applyDelete(data, collection, itemIndex);
+                    result.deleted.push({ type: removed.type, id: removed.id });
+                    result.inverse.push({ kind: 'restore', item: removed, sprintIds });
+                    audit.push(this.auditEntry('delete', removed, undefined));
+                    continue;
+                }
+
+                let changes: Record<string, unknown> = { ...operation.updates };
+                if (operation.addTags || operation.removeTags) {
+                    const tags = new Set(current.tags);
+                    operation.addTags?.forEach(tag => tags.add(tag));
+                    operation.removeTags?.forEach(tag => tags.delete(tag));
+                    changes['tags'] = [...tags];
+                }
+                if (operation.base) {
+                    const { merged, conflicts } = mergeItemUpdates(
+                        operation.base as unknown as Record<string, unknown>,
+                        current as unknown as Record<string, unknown>,
+                        changes
+                    );
+                    if (conflicts.length > 0) {
+                        throw new MergeConflictError(current.type, current.id, conflicts, current);
+                    }
+                    changes = merged;
+                }
+
+                const stored = current as unknown as Record<string, unknown>;
+                if (Object.entries(changes).every(([field, value]) => valuesEqual(value, stored[field]))) {
+                    continue;
+                }
+
+                let updated: ProjectItem;
+                try {
+                    updated = this.applyUpdate(data, collection, itemIndex, changes, operation.anyTransition);
+                } catch (error) {
+                    // Say which of the items stopped the batch
+                    if (error instanceof WorkflowError) {
+                        throw new WorkflowError(`"${current.title}": ${error.message}`);
+                    }
+                    throw new Error(`"${current.title}": ${error instanceof Error ? error.message : error}`);
+                }
+                result.changed.push(updated);
+                result.inverse.push(this.updateInverse(current, updated, changes));
+                audit.push(this.auditEntry('update', current, updated));
+            }
+
+            // Undone last step first, so steps on the same item unwind in order
+            result.inverse.reverse();
+            return {
+                value: result,
+                changed: result.inverse.length > 0,
+                audit,
+                ...(label ? { undo: this.undoBatch(label, result.inverse) } : {})
+            };
+        });
+    }
+
+    private validateSprint(sprint: Sprint): void {
+        const validate = this.ajv.compile(SPRINT_SCHEMA);
+        if (!validate(sprint)) {
+            throw new Error(`Invalid sprint data: ${this.ajv.errorsText(validate.errors)}`);
+        }
+        if (sprint.endDate < sprint.startDate) {
+            throw new Error('A sprint cannot end before it starts');
+        }
+    }
 
+    public async createSprint(sprintData: Omit<Sprint, 'id' | 'createdAt' | 'updatedAt'>): Promise<Sprint> {
+        const now = new Date().toISOString();
+        const sprint: Sprint = { ...sprintData, id: this.generateId(), createdAt: now, updatedAt: now };
+        this.validateSprint(sprint);
+
+        return this.mutate(data => {
+            data.sprints.push(sprint);
+            return { value: sprint, changed: true };
+        });
+    }
+
+    public async updateSprint(id: string, updates: Partial<Omit<Sprint, 'id' | 'createdAt'>>): Promise<Sprint | null> {
+        return this.mutate<Sprint | null>(data => {
+            const sprintIndex = data.sprints.findIndex(sprint => sprint.id === id);
+            if (sprintIndex === -1) {
+                return { value: null, changed: false };
+            }
+
+            const updatedSprint = { ...data.sprints[sprintIndex]!, ...updates, updatedAt: new Date().toISOString() };
+            this.validateSprint(updatedSprint);
+            data.sprints[sprintIndex] = updatedSprint;
+            return { value: updatedSprint, changed: true };
+        });
+    }
+
+    /**
+     * Commits items to a sprint. The ids are added to the sprint as saved
+     * at the time, so commits and removals made meanwhile are kept.
+     */
+    public async addSprintItems(id: string, itemIds: string[]): Promise<Sprint | null> {
+        return this.changeSprintItems(id, current => [...current, ...itemIds.filter(itemId => !current.includes(itemId))]);
+    }
+
+    public async removeSprintItems(id: string, itemIds: string[]): Promise<Sprint | null> {
+        return this.changeSprintItems(id, current => current.filter(itemId => !itemIds.includes(itemId)));
+    }
+
+    private changeSprintItems(id: string, change: (itemIds: string[]) => string[]): Promise<Sprint | null> {
+        return this.mutate<Sprint | null>(data => {
+            const sprintIndex = data.sprints.findIndex(sprint => sprint.id === id);
+            if (sprintIndex === -1) {
+                return { value: null, changed: false };
+            }
+
+            const sprint = data.sprints[sprintIndex]!;
+            const itemIds = change(sprint.itemIds);
+            if (itemIds.length === sprint.itemIds.length) {
+                return { value: sprint, changed: false };
+            }
+
+            const updatedSprint = { ...sprint, itemIds, updatedAt: new Date().toISOString() };
+            data.sprints[sprintIndex] = updatedSprint;
+            return { value: updatedSprint, changed: true };
+        });
+    }
+
+    // Items committed to the sprint are left as they are
+    public async deleteSprint(id: string): Promise<boolean> {
+        return this.mutate(data => {
+            const sprintIndex = data.sprints.findIndex(sprint => sprint.id === id);
+            if (sprintIndex === -1) {
+                return { value: false, changed: false };
+            }
+
+            data.sprints.splice(sprintIndex, 1);
+            return { value: true, changed: true };
+        });
+    }
+
+    private undoBatch(label: string, operations: BatchOperation[]): RecordedChange {
+        return { label, revert: { kind: 'batch', operations } };
+    }
+
+    // Marks items whose links were changed as a side effect of another edit
+    private touch(items: ProjectItem[]): void {
+        const now = new Date().toISOString();
+        items.forEach(item => {
+            item.updatedAt = now;
+        });
+    }
+
+    private getCollection(data: ProjectData, type: ProjectItem['type']): ProjectItem[] {
         switch (type) {
             case 'feature':
-                collection = data.features;
-                break;
+                return data.features;
             case 'bug':
-                collection = data.bugs;
-                break;
+                return data.bugs;
             case 'task':
-                collection = data.tasks;
-                break;
+                return data.tasks;
             default:
-                return false;
-        }
-
-        const itemIndex = collection.findIndex(item => item.id === id);
-        if (itemIndex === -1) {
-            return false;
+                throw new Error(`Unknown item type: ${type}`);
         }
-
-        collection.splice(itemIndex, 1);
-        await this.saveData(data);
-
-        return true;
     }
 
     public async getItems<T extends ProjectItem>(type: T['type']): Promise<T[]> {
@@ -284,6 +1330,10 @@ export class DataManager {
         return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     }
 
+    public getProjectPath(): string {
+        return this.projectPath;
+    }
+
     public getDataPath(): string {
         return this.dataPath;
     }
@@ -297,14 +1347,13 @@ export class DataManager {
 
     public async importData(filePath: string): Promise<void> {
         try {
-            const rawData = await fs.readFile(filePath, 'utf-8');
-            const data = JSON.parse(rawData) as ProjectData;
-
-            if (!this.validateProjectData(data)) {
+            // Exports from older versions are migrated like project-data.json
+            const data = this.parseProjectData(await fs.readFile(filePath, 'utf-8'));
+            if (!data) {
                 throw new Error('Invalid import data format');
             }
 
-            await this.saveData(data);
+            await this.replaceData(data, 'Import');
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to import data: ${error}`);
             throw error;
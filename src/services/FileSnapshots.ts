@@ -0,0 +1,47 @@
+import { getBackupTimestamp, getSnapshotId, StoredSnapshot } from '@/services/StorageAdapter';
+import { writeFileAtomic } from '@/utils/fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Snapshots as backup-<timestamp>.json files in the data folder, shared by
+ * the file based adapters so converting between them keeps the history.
+ */
+export class FileSnapshots {
+    constructor(private readonly dataPath: string) { }
+
+    public async list(): Promise<StoredSnapshot[]> {
+        const files = (await fs.readdir(this.dataPath))
+            .filter(file => file.startsWith('backup-') && file.endsWith('.json'))
+            .sort((a, b) => getBackupTimestamp(b) - getBackupTimestamp(a));
+
+        const snapshots: StoredSnapshot[] = [];
+        for (const file of files) {
+            const filePath = path.join(this.dataPath, file);
+            try {
+                const { size } = await fs.stat(filePath);
+                snapshots.push({ id: file, timestamp: getBackupTimestamp(file), size, file: filePath });
+            } catch {
+                // Removed since listing
+            }
+        }
+        return snapshots;
+    }
+
+    public read(id: string): Promise<string> {
+        return fs.readFile(this.getPath(id), 'utf-8');
+    }
+
+    public write(content: string, timestamp = Date.now()): Promise<void> {
+        return writeFileAtomic(this.getPath(getSnapshotId(timestamp)), content);
+    }
+
+    public delete(id: string): Promise<void> {
+        return fs.unlink(this.getPath(id));
+    }
+
+    private getPath(id: string): string {
+        // Snapshot ids come from the webview; never let them escape the data folder
+        return path.join(this.dataPath, path.basename(id));
+    }
+}
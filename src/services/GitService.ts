@@ -0,0 +1,343 @@
+import { ProjectItem } from '@/schemas/project-schemas';
+import { DataManager } from '@/services/DataManager';
+import { WorkflowError } from '@/services/errors';
+import { getAllItems } from '@/utils/diff';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as vscode from 'vscode';
+
+const execFileAsync = promisify(execFile);
+
+export interface GitCommit {
+    sha: string;
+    shortSha: string;
+    author: string;
+    date: string;
+    subject: string;
+    body: string;
+}
+
+export interface GitActivity {
+    commits: GitCommit[];
+    branches: string[];
+}
+
+/**
+ * Status change applied when a branch or merged commit mentions an item.
+ * `set` values may use ${commit}, ${subject}, ${author} and ${branch}.
+ */
+export interface GitRule {
+    on: 'branch' | 'commit';
+    /** Commit rules only: the id must follow one of these words, e.g. "fixes <id>" */
+    keywords?: string[];
+    types?: ProjectItem['type'][];
+    /** Only move items currently in one of these statuses */
+    from?: string[];
+    status: string;
+    set?: Record<string, string>;
+}
+
+interface GitEvent {
+    kind: 'branch' | 'commit';
+    key: string;
+    text: string;
+    commit?: GitCommit;
+    branch?: string;
+}
+
+// How many commits are read for the item views and for rule matching
+const MAX_COMMITS = 2000;
+
+const PROCESSED_EVENTS_KEY = 'docstocode.git.processedEvents';
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Ids may be followed by a hyphen, as in branch names like bug/<id>-login-crash
+function mentions(text: string, id: string): boolean {
+    return new RegExp(`(?<!\\w)${escapeRegExp(id)}(?!\\w)`).test(text);
+}
+
+function mentionsWithKeyword(text: string, id: string, keywords: string[]): boolean {
+    const words = keywords.map(escapeRegExp).join('|');
+    return new RegExp(`\\b(?:${words})\\b[:\\s]+#?${escapeRegExp(id)}(?!\\w)`, 'i').test(text);
+}
+
+/**
+ * Reads the git repository of each project's folder to find commits and
+ * branches that mention item ids, and applies the configured status rules
+ * to the items of that project.
+ */
+export class GitService implements vscode.Disposable {
+    private static instance: GitService;
+    // One .git watcher per project, following projects opened and closed with the workspace folders
+    private readonly watchers = new Map<DataManager, vscode.Disposable>();
+    private projectsListener: vscode.Disposable | undefined;
+    private state: vscode.Memento | undefined;
+    private readonly syncing = new Map<DataManager, Promise<void>>();
+
+    private constructor() { }
+
+    public static getInstance(): GitService {
+        if (!GitService.instance) {
+            GitService.instance = new GitService();
+        }
+        return GitService.instance;
+    }
+
+    /**
+     * Starts watching the projects' repositories. Branches and commits that
+     * exist at a project's first run are recorded without applying rules,
+     * so enabling the integration does not move every old item at once.
+     */
+    public async initialize(state: vscode.Memento): Promise<void> {
+        this.state = state;
+        this.projectsListener = DataManager.onDidChangeProjects(() => {
+            this.watchProjects().catch(error => console.warn('Failed to read git repository:', error));
+        });
+        await this.watchProjects();
+    }
+
+    private async watchProjects(): Promise<void> {
+        const projects = new Set(DataManager.getProjects());
+        for (const [manager, watcher] of this.watchers) {
+            if (!projects.has(manager)) {
+                watcher.dispose();
+                this.watchers.delete(manager);
+            }
+        }
+
+        const added = [...projects].filter(manager => !this.watchers.has(manager));
+        await Promise.all(added.map(async manager => {
+            // Claimed before the await so a second call doesn't watch the project twice
+            let disposed = false;
+            let disposables: vscode.Disposable[] = [];
+            this.watchers.set(manager, new vscode.Disposable(() => {
+                disposed = true;
+                disposables.forEach(disposable => disposable.dispose());
+            }));
+
+            const gitDir = await this.getGitDir(manager);
+            if (!gitDir || disposed) {
+                return;
+            }
+            disposables = this.watchRepository(manager, gitDir);
+            await this.syncProject(manager);
+        }));
+    }
+
+    private watchRepository(manager: DataManager, gitDir: string): vscode.Disposable[] {
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(gitDir), '{HEAD,packed-refs,refs/**}')
+        );
+        let timer: NodeJS.Timeout | undefined;
+        const scheduleSync = (): void => {
+            if (timer) {
+                clearTimeout(timer);
+            }
+            timer = setTimeout(() => {
+                timer = undefined;
+                this.syncProject(manager).catch(error => console.warn('Git sync failed:', error));
+            }, 1000);
+        };
+
+        return [
+            watcher,
+            watcher.onDidChange(scheduleSync),
+            watcher.onDidCreate(scheduleSync),
+            { dispose: () => timer && clearTimeout(timer) }
+        ];
+    }
+
+    // Runs in the project's folder, so git finds the repository the folder belongs to
+    private async git(manager: DataManager, ...args: string[]): Promise<string> {
+        const { stdout } = await execFileAsync('git', args, {
+            cwd: manager.getProjectPath(),
+            maxBuffer: 32 * 1024 * 1024,
+            timeout: 15000
+        });
+        return stdout;
+    }
+
+    // The repository's .git folder, or undefined when the project isn't in one
+    private async getGitDir(manager: DataManager): Promise<string | undefined> {
+        try {
+            return (await this.git(manager, 'rev-parse', '--absolute-git-dir')).trim() || undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async readCommits(manager: DataManager, ...revisions: string[]): Promise<GitCommit[]> {
+        const output = await this.git(
+            manager,
+            'log', ...revisions, `-n${MAX_COMMITS}`,
+            '--format=%H%x1f%h%x1f%an%x1f%aI%x1f%s%x1f%b%x1e'
+        );
+
+        return output.split('\x1e')
+            .map(record => record.trim())
+            .filter(Boolean)
+            .map(record => {
+                const [sha = '', shortSha = '', author = '', date = '', subject = '', body = ''] = record.split('\x1f');
+                return { sha, shortSha, author, date, subject, body: body.trim() };
+            });
+    }
+
+    private async readBranches(manager: DataManager): Promise<string[]> {
+        const output = await this.git(manager, 'for-each-ref', '--format=%(refname:short)', 'refs/heads');
+        return output.split('\n').map(branch => branch.trim()).filter(Boolean);
+    }
+
+    // The configured main branch, else main or master if either exists
+    private async getMainBranch(manager: DataManager, branches: string[]): Promise<string | undefined> {
+        const configured = vscode.workspace.getConfiguration('docstocode.git', manager.getFolder().uri).get<string>('mainBranch', '');
+        if (configured) {
+            return configured;
+        }
+        return ['main', 'master'].find(name => branches.includes(name));
+    }
+
+    /**
+     * Commits (across all branches) and local branches mentioning the item,
+     * from the repository of the project the item belongs to.
+     */
+    public async getActivity(manager: DataManager, item: ProjectItem): Promise<GitActivity> {
+        if (!(await this.getGitDir(manager))) {
+            return { commits: [], branches: [] };
+        }
+
+        const [commits, branches] = await Promise.all([this.readCommits(manager, '--all'), this.readBranches(manager)]);
+        return {
+            commits: commits.filter(commit => mentions(`${commit.subject}\n${commit.body}`, item.id)),
+            branches: branches.filter(branch => mentions(branch, item.id))
+        };
+    }
+
+    // Every project in a repository
+    public async sync(): Promise<void> {
+        const projects = [];
+        for (const manager of DataManager.getProjects()) {
+            if (await this.getGitDir(manager)) {
+                projects.push(manager);
+            }
+        }
+        await Promise.all(projects.map(manager => this.syncProject(manager)));
+    }
+
+    private syncProject(manager: DataManager): Promise<void> {
+        let syncing = this.syncing.get(manager);
+        if (!syncing) {
+            syncing = this.applyRules(manager).finally(() => {
+                this.syncing.delete(manager);
+            });
+            this.syncing.set(manager, syncing);
+        }
+        return syncing;
+    }
+
+    private getRules(manager: DataManager): GitRule[] {
+        return vscode.workspace.getConfiguration('docstocode.git', manager.getFolder().uri).get<GitRule[]>('rules', []);
+    }
+
+    private async applyRules(manager: DataManager): Promise<void> {
+        const config = vscode.workspace.getConfiguration('docstocode.git', manager.getFolder().uri);
+        if (!this.state || !config.get<boolean>('enabled', true)) {
+            return;
+        }
+
+        const branches = await this.readBranches(manager);
+        const mainBranch = await this.getMainBranch(manager, branches);
+        const mergedCommits = mainBranch ? await this.readCommits(manager, mainBranch) : [];
+
+        const events: GitEvent[] = [
+            ...branches.map(branch => ({ kind: 'branch' as const, key: `branch:${branch}`, text: branch, branch })),
+            ...mergedCommits.map(commit => ({
+                kind: 'commit' as const,
+                key: `commit:${commit.sha}`,
+                text: `${commit.subject}\n${commit.body}`,
+                commit
+            }))
+        ];
+
+        const stateKey = `${PROCESSED_EVENTS_KEY}:${manager.getProjectId()}`;
+        const processed = this.state.get<string[]>(stateKey);
+        const seen = new Set(processed ?? []);
+        // First run: remember what already exists instead of acting on it
+        const baseline = processed === undefined;
+        const newEvents = events.filter(event => !seen.has(event.key));
+
+        // Events whose rule could not be saved, tried again on the next sync
+        const failed = new Set<string>();
+        if (!baseline && newEvents.length > 0) {
+            const items = getAllItems(await manager.loadData());
+            for (const event of newEvents) {
+                for (const { type, id } of items.filter(candidate => mentions(event.text, candidate.id))) {
+                    // Read again, an earlier event of this sync may have moved it
+                    const item = await manager.getItem(type, id);
+                    if (item && !await this.applyMatchingRule(manager, item, event)) {
+                        failed.add(event.key);
+                    }
+                }
+            }
+        }
+
+        // Only keep keys that still exist so the list doesn't grow forever
+        await this.state.update(stateKey, events.map(event => event.key).filter(key => !failed.has(key)));
+    }
+
+    /**
+     * Applies the first rule matching the event to the item. Returns false
+     * when the change could not be saved, true when it was applied, rejected
+     * by the workflow or no rule matched.
+     */
+    private async applyMatchingRule(manager: DataManager, item: ProjectItem, event: GitEvent): Promise<boolean> {
+        const rule = this.getRules(manager).find(candidate =>
+            candidate.on === event.kind &&
+            (!candidate.types || candidate.types.includes(item.type)) &&
+            (!candidate.from || candidate.from.includes(item.status)) &&
+            candidate.status !== item.status &&
+            (!candidate.keywords || mentionsWithKeyword(event.text, item.id, candidate.keywords))
+        );
+        if (!rule) {
+            return true;
+        }
+
+        const placeholders: Record<string, string> = {
+            commit: event.commit?.shortSha ?? '',
+            subject: event.commit?.subject ?? '',
+            author: event.commit?.author ?? '',
+            branch: event.branch ?? ''
+        };
+        const fields = Object.fromEntries(
+            Object.entries(rule.set ?? {}).map(([field, template]) => [
+                field,
+                template.replace(/\$\{(\w+)\}/g, (match, name: string) => placeholders[name] ?? match)
+            ])
+        );
+
+        const source = event.commit ? `commit ${event.commit.shortSha}` : `branch ${event.branch}`;
+        try {
+            await manager.updateItem(item.type, item.id, { ...fields, status: rule.status } as Partial<ProjectItem>, item);
+            vscode.window.showInformationMessage(`Moved ${item.type} "${item.title}" to ${rule.status} (${source})`);
+            return true;
+        } catch (error) {
+            if (error instanceof WorkflowError) {
+                vscode.window.showWarningMessage(`Git rule for ${source} not applied: ${error.message}`);
+                return true;
+            }
+            console.warn(`Failed to apply git rule for ${source}:`, error);
+            vscode.window.showWarningMessage(
+                `Could not move ${item.type} "${item.title}" to ${rule.status} (${source}), will try again on the next sync: ${error instanceof Error ? error.message : error}`
+            );
+            return false;
+        }
+    }
+
+    public dispose(): void {
+        this.projectsListener?.dispose();
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.watchers.clear();
+    }
+}
@@ -0,0 +1,140 @@
+import { ProjectData, ProjectItem } from '@/schemas/project-schemas';
+import { DataManager } from '@/services/DataManager';
+import { getBackupTimestamp } from '@/services/StorageAdapter';
+import { diffProjectData, getAllItems, ProjectDataChanges } from '@/utils/diff';
+import * as vscode from 'vscode';
+
+export interface SnapshotSummary {
+    file: string;
+    timestamp: string;
+    size: number;
+    itemCount: number;
+    /** Counts relative to the next older snapshot */
+    added: number;
+    changed: number;
+    removed: number;
+}
+
+export class HistoryService {
+    private static instance: HistoryService;
+
+    private constructor() { }
+
+    public static getInstance(): HistoryService {
+        if (!HistoryService.instance) {
+            HistoryService.instance = new HistoryService();
+        }
+        return HistoryService.instance;
+    }
+
+    private get dataManager(): DataManager {
+        return DataManager.getInstance();
+    }
+
+    public async listSnapshots(): Promise<SnapshotSummary[]> {
+        const storage = this.dataManager.getStorage();
+        const loaded: { file: string; size: number; data: ProjectData }[] = [];
+
+        for (const snapshot of await storage.listSnapshots()) {
+            try {
+                const data = this.dataManager.parseProjectData(await storage.readSnapshot(snapshot.id));
+                if (data) {
+                    loaded.push({ file: snapshot.id, size: snapshot.size, data });
+                }
+            } catch {
+                // Skip snapshots removed or unreadable since listing
+            }
+        }
+
+        return loaded.map((snapshot, index) => {
+            const older = loaded[index + 1];
+            const changes = older
+                ? diffProjectData(older.data, snapshot.data)
+                : { added: getAllItems(snapshot.data), updated: [], removed: [] };
+
+            return {
+                file: snapshot.file,
+                timestamp: new Date(getBackupTimestamp(snapshot.file)).toISOString(),
+                size: snapshot.size,
+                itemCount: getAllItems(snapshot.data).length,
+                added: changes.added.length,
+                changed: changes.updated.length,
+                removed: changes.removed.length
+            };
+        });
+    }
+
+    public async readSnapshot(file: string): Promise<ProjectData> {
+        const data = this.dataManager.parseProjectData(
+            await this.dataManager.getStorage().readSnapshot(file)
+        );
+        if (!data) {
+            throw new Error(`Snapshot ${file} is not valid project data`);
+        }
+        return data;
+    }
+
+    /**
+     * What restoring the whole snapshot would do to the current data.
+     */
+    public async diffWithCurrent(file: string): Promise<ProjectDataChanges> {
+        const [current, snapshot] = await Promise.all([
+            this.dataManager.loadData(),
+            this.readSnapshot(file)
+        ]);
+        return diffProjectData(current, snapshot);
+    }
+
+    // Opens two snapshots side by side; omit `right` to compare with the live data
+    public async compare(left: string, right?: string): Promise<void> {
+        const leftUri = await this.getSnapshotUri(left);
+        const rightUri = right ? await this.getSnapshotUri(right) : await this.getCurrentUri();
+        const title = `${this.formatLabel(left)} ↔ ${right ? this.formatLabel(right) : 'Current'}`;
+
+        await vscode.commands.executeCommand('vscode.diff', leftUri, rightUri, title);
+    }
+
+    public async restoreSnapshot(file: string): Promise<void> {
+        await this.dataManager.replaceData(await this.readSnapshot(file), 'Restore snapshot');
+    }
+
+    public async restoreItem(file: string, type: ProjectItem['type'], id: string): Promise<ProjectItem> {
+        const snapshot = await this.readSnapshot(file);
+        const item = getAllItems(snapshot).find(candidate => candidate.type === type && candidate.id === id);
+        if (!item) {
+            throw new Error(`Item ${id} is not in snapshot ${file}`);
+        }
+
+        await this.dataManager.restoreItem(item);
+        return item;
+    }
+
+    // Storage without a single document to diff against shows the assembled data
+    private async getCurrentUri(): Promise<vscode.Uri> {
+        const dataFile = this.dataManager.getStorage().dataFile;
+        if (dataFile) {
+            return vscode.Uri.file(dataFile);
+        }
+
+        const data = await this.dataManager.loadData();
+        return this.openJsonDocument(JSON.stringify(data, null, 2));
+    }
+
+    private async getSnapshotUri(file: string): Promise<vscode.Uri> {
+        const storage = this.dataManager.getStorage();
+        const snapshot = (await storage.listSnapshots()).find(candidate => candidate.id === file);
+        if (snapshot?.file) {
+            return vscode.Uri.file(snapshot.file);
+        }
+        return this.openJsonDocument(await storage.readSnapshot(file));
+    }
+
+    private async openJsonDocument(content: string): Promise<vscode.Uri> {
+        const document = await vscode.workspace.openTextDocument({ content, language: 'json' });
+        return document.uri;
+    }
+
+    private formatLabel(file: string): string {
+        return new Date(getBackupTimestamp(file)).toLocaleString();
+    }
+}
@@ -0,0 +1,476 @@
+import { ProjectItem } from '@/schemas/project-schemas';
+import { BatchOperation, DataManager, ItemUpdates } from '@/services/DataManager';
+import { UndoService } from '@/services/UndoService';
+import { parseCsv } from '@/utils/csv';
+import { getAllItems } from '@/utils/diff';
+import {
+    ColumnMapping,
+    formatItemsCsv,
+    formatMarkdownReport,
+    guessColumnMapping,
+    ITEM_COLUMNS,
+    ITEM_TYPES,
+    parseCell,
+    parseItemType
+} from '@/utils/tabular';
+import { valuesEqual } from '@/utils/merge';
+import { issueFields, readTrackerExport, TRACKER_NAMES, TrackerExport } from '@/utils/trackers';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+export type ExportFormat = 'csv' | 'markdown';
+
+/** How imported records find the existing item they update; `external` by the issue they were imported from */
+export type ImportMatch = 'id' | 'title' | 'external' | 'none';
+
+/** One item's worth of imported field values */
+export interface ImportRecord {
+    /** Where the record came from, for the report, e.g. "Row 4" */
+    source: string;
+    fields: Record<string, unknown>;
+    /** Problems found while reading the record */
+    errors: string[];
+    /** Values that were left out or changed to fit, without rejecting the record */
+    warnings?: string[];
+}
+
+export interface ImportPlan {
+    operations: BatchOperation[];
+    created: number;
+    updated: number;
+    unchanged: number;
+    /** Records left out of the import, with why */
+    rejected: { source: string; errors: string[] }[];
+    /** Records imported without some of their values */
+    warnings: { source: string; warnings: string[] }[];
+    /** Fields of the file that aren't imported at all, for the report */
+    unmapped: string[];
+}
+
+// Placeholder id of new items while they are validated; applyBatch gives out the real one
+const NEW_ITEM_ID = 'new';
+
+/**
+ * Exports items as CSV or a Markdown report, and imports CSV files and
+ * GitHub, GitLab or Jira exports: the columns or issues are mapped to
+ * fields, every record is validated and the valid ones are merged into
+ * the project in one batch.
+ */
+export class ImportExportService {
+    private static instance: ImportExportService;
+
+    private constructor() { }
+
+    public static getInstance(): ImportExportService {
+        if (!ImportExportService.instance) {
+            ImportExportService.instance = new ImportExportService();
+        }
+        return ImportExportService.instance;
+    }
+
+    /** Writes the items next to the JSON exports in the data folder; returns the file */
+    public async exportItems(manager: DataManager, items: ProjectItem[], format: ExportFormat, title: string): Promise<string> {
+        const workflows = manager.getWorkflowService();
+        const content = format === 'csv'
+            ? formatItemsCsv(items)
+            : formatMarkdownReport(title, items, type => workflows.getWorkflow(type).statuses);
+
+        const exportPath = path.join(manager.getDataPath(), `export-${Date.now()}.${format === 'csv' ? 'csv' : 'md'}`);
+        await fs.writeFile(exportPath, content, 'utf-8');
+        return exportPath;
+    }
+
+    /**
+     * Asks for a format and exports: the whole project data as JSON, or
+     * `items` (what the dashboard currently shows) as CSV or Markdown.
+     */
+    public async promptExport(manager: DataManager, items: ProjectItem[], title: string): Promise<void> {
+        const count = `${items.length} item${items.length === 1 ? '' : 's'}`;
+        const picked = await vscode.window.showQuickPick([
+            { label: 'CSV', description: `${title}, ${count}`, format: 'csv' as const },
+            { label: 'Markdown Report', description: `${title}, ${count}, grouped by type and status`, format: 'markdown' as const },
+            { label: 'Project Data (JSON)', description: 'Everything, for backups or importing elsewhere', format: 'json' as const }
+        ], { title: 'Export' });
+        if (!picked) {
+            return;
+        }
+
+        const exportPath = picked.format === 'json'
+            ? await manager.exportData()
+            : await this.exportItems(manager, items, picked.format, `${manager.getProjectName()}: ${title}`);
+
+        const result = await vscode.window.showInformationMessage(
+            `Data exported successfully to ${exportPath}`,
+            'Open File',
+            'Open Folder',
+            'Copy Path'
+        );
+
+        if (result === 'Open File') {
+            await vscode.window.showTextDocument(vscode.Uri.file(exportPath));
+        } else if (result === 'Open Folder') {
+            await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(exportPath));
+        } else if (result === 'Copy Path') {
+            await vscode.env.clipboard.writeText(exportPath);
+            vscode.window.showInformationMessage('Export path copied to clipboard');
+        }
+    }
+
+    /**
+     * Merges a CSV file or an issue tracker export into the project.
+     * Returns whether anything was imported, or undefined when `file` is
+     * neither; that's project data, which replaces the project's instead.
+     */
+    public async mergeFile(manager: DataManager, file: string): Promise<boolean | undefined> {
+        const csv = file.toLowerCase().endsWith('.csv');
+        const exported = readTrackerExport(await fs.readFile(file, 'utf-8'), csv ? 'csv' : 'json');
+        if (exported) {
+            return this.importTrackerExport(manager, exported, path.basename(file));
+        }
+        return csv ? this.importCsv(manager, file) : undefined;
+    }
+
+    /**
+     * Imports the issues of a GitHub, GitLab or Jira export. Issues already
+     * imported once update their items, the others are added.
+     */
+    public async importTrackerExport(manager: DataManager, exported: TrackerExport, name: string): Promise<boolean> {
+        const tracker = TRACKER_NAMES[exported.tracker];
+        if (exported.issues.length === 0) {
+            vscode.window.showWarningMessage(`${name} has no ${tracker} issues to import`);
+            return false;
+        }
+
+        const untyped = exported.issues.filter(issue => !issue.type).length;
+        let defaultType: ProjectItem['type'] | undefined;
+        if (untyped > 0) {
+            defaultType = (await vscode.window.showQuickPick(
+                ITEM_TYPES.map(type => ({ label: type.charAt(0).toUpperCase() + type.slice(1), type })),
+                { title: `${untyped} of ${exported.issues.length} ${tracker} issues have no issue type or type label. Import them as` }
+            ))?.type;
+            if (!defaultType) {
+                return false;
+            }
+        }
+
+        const workflows = manager.getWorkflowService();
+        const records = exported.issues.map((issue): ImportRecord => {
+            const type = issue.type ?? defaultType!;
+            const { fields, warnings } = issueFields(issue, type, workflows.getWorkflow(type).statuses);
+            return { source: `${issue.ref.id} ${issue.title}`, fields, errors: [], warnings };
+        });
+
+        const plan = await this.planImport(manager, records, defaultType, 'external');
+        plan.unmapped = [
+            ...exported.unmapped.map(({ field, count }) => `${field} (${count} issue${count === 1 ? '' : 's'})`),
+            ...(exported.skipped > 0 ? [`${exported.skipped} entries that aren't issues, such as pull requests`] : [])
+        ];
+        return this.confirmImport(manager, plan, name);
+    }
+
+    /**
+     * Walks the user through importing a CSV file into `manager`'s project.
+     * Returns whether anything was imported.
+     */
+    public async importCsv(manager: DataManager, file: string): Promise<boolean> {
+        const [headers, ...rows] = parseCsv(await fs.readFile(file, 'utf-8'));
+        if (!headers || rows.length === 0) {
+            vscode.window.showWarningMessage(`${path.basename(file)} has no rows to import`);
+            return false;
+        }
+
+        const mapping = await this.promptMapping(headers, rows[0]!);
+        if (!mapping) {
+            return false;
+        }
+
+        let defaultType: ProjectItem['type'] | undefined;
+        if (!mapping.includes('type')) {
+            defaultType = (await vscode.window.showQuickPick(
+                ITEM_TYPES.map(type => ({ label: type.charAt(0).toUpperCase() + type.slice(1), type })),
+                { title: 'No column gives the item type. Import every row as' }
+            ))?.type;
+            if (!defaultType) {
+                return false;
+            }
+        }
+
+        const match = await this.promptMatch(mapping.includes('id'));
+        if (!match) {
+            return false;
+        }
+
+        const records = rows
+            .map((row, index) => this.readRow(row, mapping, `Row ${index + 2}`))
+            .filter((record): record is ImportRecord => record !== undefined);
+        const plan = await this.planImport(manager, records, defaultType, match);
+        return this.confirmImport(manager, plan, path.basename(file));
+    }
+
+    // Loops until the user accepts the mapping; undefined when cancelled
+    private async promptMapping(headers: string[], sample: string[]): Promise<ColumnMapping | undefined> {
+        const mapping = guessColumnMapping(headers);
+        const importable = ITEM_COLUMNS.filter(column => !column.exportOnly);
+
+        for (; ;) {
+            const picked = await vscode.window.showQuickPick([
+                { label: '$(check) Import with this mapping', column: -1 },
+                ...headers.map((header, column) => ({
+                    label: header || `Column ${column + 1}`,
+                    description: mapping[column] ? `→ ${mapping[column]}` : 'not imported',
+                    detail: sample[column] ? `e.g. ${sample[column]!.slice(0, 80)}` : '',
+                    column
+                }))
+            ], { title: 'Map CSV columns to item fields', placeHolder: 'Pick a column to change the field it goes into' });
+
+            if (!picked) {
+                return undefined;
+            }
+
+            if (picked.column === -1) {
+                if (mapping.includes('title') || mapping.includes('id')) {
+                    return mapping;
+                }
+                vscode.window.showWarningMessage('Map a column to title or id, so rows can be told apart');
+                continue;
+            }
+
+            const field = await vscode.window.showQuickPick([
+                { label: "Don't import this column", field: undefined },
+                ...importable.map(column => ({
+                    label: column.field,
+                    description: column.types ? `${column.types.join(', ')} only` : '',
+                    field: column.field
+                }))
+            ], { title: `Field for column "${picked.label}"` });
+
+            if (field) {
+                // A field takes its values from one column
+                mapping.forEach((mapped, column) => {
+                    if (field.field && mapped === field.field) {
+                        mapping[column] = undefined;
+                    }
+                });
+                mapping[picked.column] = field.field;
+            }
+        }
+    }
+
+    private async promptMatch(hasIdColumn: boolean): Promise<ImportMatch | undefined> {
+        const options: { label: string; detail: string; match: ImportMatch }[] = [
+            ...(hasIdColumn ? [{ label: 'Merge by id', detail: 'Rows update the item with the same id; others are added', match: 'id' as const }] : []),
+            { label: 'Merge by title', detail: 'Rows update the item of the same type and title; others are added', match: 'title' },
+            { label: 'Add all', detail: 'Every row becomes a new item', match: 'none' }
+        ];
+        return (await vscode.window.showQuickPick(options, { title: 'Import mode' }))?.match;
+    }
+
+    // Blank rows give undefined
+    private readRow(row: string[], mapping: ColumnMapping, source: string): ImportRecord | undefined {
+        if (row.every(cell => cell.trim() === '')) {
+            return undefined;
+        }
+
+        const record: ImportRecord = { source, fields: {}, errors: [] };
+        mapping.forEach((field, index) => {
+            const column = ITEM_COLUMNS.find(candidate => candidate.field === field);
+            if (!column) {
+                return;
+            }
+            try {
+                const value = parseCell(column, row[index] ?? '');
+                if (value !== undefined) {
+                    record.fields[column.field] = value;
+                }
+            } catch (error) {
+                record.errors.push(error instanceof Error ? error.message : String(error));
+            }
+        });
+        return record;
+    }
+
+    /**
+     * Works out what importing the records would do, validating every
+     * resulting item against its schema and the project's workflow.
+     * Nothing is written; records with errors are only reported.
+     */
+    public async planImport(
+        manager: DataManager,
+        records: ImportRecord[],
+        defaultType: ProjectItem['type'] | undefined,
+        match: ImportMatch
+    ): Promise<ImportPlan> {
+        const existingItems = getAllItems(await manager.loadData());
+        const workflows = manager.getWorkflowService();
+        const plan: ImportPlan = { operations: [], created: 0, updated: 0, unchanged: 0, rejected: [], warnings: [], unmapped: [] };
+        const claimed = new Map<string, string>();
+        const now = new Date().toISOString();
+
+        for (const record of records) {
+            const errors = [...record.errors];
+            const warnings = [...(record.warnings ?? [])];
+            const { type: typeValue, id, ...fields } = record.fields;
+            const type = typeValue === undefined ? defaultType : parseItemType(String(typeValue));
+            if (!type) {
+                errors.push(`type: "${typeValue ?? ''}" is not feature, bug or task`);
+                plan.rejected.push({ source: record.source, errors });
+                continue;
+            }
+
+            // Fields of other types are left out, e.g. story points on the bug rows of a mixed file
+            ITEM_COLUMNS
+                .filter(column => column.types && !column.types.includes(type) && fields[column.field] !== undefined)
+                .forEach(column => {
+                    warnings.push(`${column.field}: not kept, only ${column.types!.join(' and ')}s have it`);
+                    delete fields[column.field];
+                });
+
+            const externalRef = fields['externalRef'] as ProjectItem['externalRef'];
+            const existing = existingItems.find(item => item.type === type && (
+                (match === 'id' && item.id === id) ||
+                (match === 'external' && externalRef !== undefined && item.externalRef?.system === externalRef.system && item.externalRef?.id === externalRef.id) ||
+                (match === 'title' && typeof fields['title'] === 'string' && item.title.toLowerCase() === fields['title'].toLowerCase())
+            ));
+
+            let item: ProjectItem;
+            let operation: BatchOperation;
+            if (existing) {
+                const key = `${type}:${existing.id}`;
+                if (claimed.has(key)) {
+                    errors.push(`updates the same ${type} as ${claimed.get(key)}`);
+                }
+                claimed.set(key, record.source);
+
+                // An item keeps its creation date; only the changed fields are written, so edits made meanwhile to others stay
+                const { createdAt, ...values } = fields;
+                const updates = Object.fromEntries(Object.entries(values)
+                    .filter(([field, value]) => !valuesEqual(value, (existing as unknown as Record<string, unknown>)[field])));
+                if (errors.length === 0 && Object.keys(updates).length === 0) {
+                    plan.unchanged++;
+                    continue;
+                }
+                item = { ...existing, ...updates } as ProjectItem;
+                operation = { kind: 'update', type, id: existing.id, updates: updates as ItemUpdates, anyTransition: true };
+            } else {
+                item = {
+                    ...this.getDefaults(manager, type),
+                    ...fields,
+                    type,
+                    id: NEW_ITEM_ID,
+                    createdAt: fields['createdAt'] ?? now,
+                    updatedAt: now
+                } as ProjectItem;
+                item.statusHistory = [{ status: item.status, at: now }];
+                operation = { kind: 'create', item };
+            }
+
+            const schemaErrors = manager.getItemErrors(item);
+            errors.push(...schemaErrors);
+            if (schemaErrors.length === 0 && (!existing || item.status !== existing.status)) {
+                // Imports may skip steps of the workflow, but not its statuses or required fields
+                try {
+                    workflows.assertTransition(item, undefined);
+                } catch (error) {
+                    errors.push(`status: ${error instanceof Error ? error.message : error}`);
+                }
+            }
+
+            if (errors.length > 0) {
+                plan.rejected.push({ source: record.source, errors });
+                continue;
+            }
+            if (warnings.length > 0) {
+                plan.warnings.push({ source: record.source, warnings });
+            }
+
+            plan.operations.push(operation);
+            if (existing) {
+                plan.updated++;
+            } else {
+                plan.created++;
+            }
+        }
+
+        return plan;
+    }
+
+    // What the dashboard's Add Item form starts a new item with
+    private getDefaults(manager: DataManager, type: ProjectItem['type']): Record<string, unknown> {
+        const defaults: Record<string, unknown> = {
+            description: '',
+            tags: [],
+            priority: 'medium',
+            status: manager.getWorkflowService().getWorkflow(type).statuses[0]
+        };
+        if (type === 'feature') {
+            defaults['acceptanceCriteria'] = [];
+        } else if (type === 'bug') {
+            Object.assign(defaults, { severity: 'medium', reproducible: false, stepsToReproduce: [], environment: '' });
+        } else {
+            defaults['subtasks'] = [];
+        }
+        return defaults;
+    }
+
+    /**
+     * Shows the plan, with a report of the rejected records, and applies it
+     * as one batch once confirmed. Returns whether anything was imported.
+     */
+    public async confirmImport(manager: DataManager, plan: ImportPlan, name: string): Promise<boolean> {
+        const summary = [
+            `${plan.created} new`,
+            `${plan.updated} updated`,
+            ...(plan.unchanged > 0 ? [`${plan.unchanged} unchanged`] : []),
+            ...(plan.rejected.length > 0 ? [`${plan.rejected.length} with errors`] : [])
+        ].join(', ');
+
+        if (plan.rejected.length > 0 || plan.warnings.length > 0 || plan.unmapped.length > 0) {
+            await this.showReport(name, summary, plan);
+        }
+
+        if (plan.operations.length === 0) {
+            vscode.window.showWarningMessage(`Nothing to import from ${name} (${summary})`);
+            return false;
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `Import ${name} into ${manager.getProjectName()}?`,
+            {
+                modal: true,
+                detail: plan.rejected.length > 0
+                    ? `${summary}. Records with errors are skipped, see the import report.`
+                    : plan.warnings.length > 0 || plan.unmapped.length > 0
+                        ? `${summary}. Some values aren't imported, see the import report.`
+                        : summary
+            },
+            'Import'
+        );
+        if (choice !== 'Import') {
+            return false;
+        }
+
+        const mark = UndoService.getInstance().mark();
+        await manager.applyBatch(plan.operations, `Import ${name}`);
+        UndoService.getInstance().offerUndo(`Imported ${name}: ${plan.created} new, ${plan.updated} updated`, mark);
+        return true;
+    }
+
+    private async showReport(name: string, summary: string, plan: ImportPlan): Promise<void> {
+        const content = [
+            `# Import report: ${name}`,
+            '',
+            summary,
+            ...(plan.unmapped.length > 0
+                ? ['', '## Not imported', '', 'No item field takes these fields of the file:', '', ...plan.unmapped.map(field => `- ${field}`)]
+                : []),
+            ...(plan.rejected.length > 0 ? ['', '## Skipped'] : []),
+            ...plan.rejected.flatMap(({ source, errors }) => ['', `### ${source}`, '', ...errors.map(error => `- ${error}`)]),
+            ...(plan.warnings.length > 0 ? ['', '## Imported without some values'] : []),
+            ...plan.warnings.flatMap(({ source, warnings }) => ['', `### ${source}`, '', ...warnings.map(warning => `- ${warning}`)])
+        ].join('\n') + '\n';
+
+        const document = await vscode.workspace.openTextDocument({ language: 'markdown', content });
+        await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.Beside, preview: true });
+    }
+}
@@ -0,0 +1,64 @@
+import { ProjectData } from '@/schemas/project-schemas';
+import { FileSnapshots } from '@/services/FileSnapshots';
+import { StorageAdapter, StoredSnapshot, watchDataFiles } from '@/services/StorageAdapter';
+import { writeFileAtomic } from '@/utils/fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+const DATA_FILE = 'project-data.json';
+
+// The default storage: everything in .docsToCode/project-data.json
+export class JsonFileStore implements StorageAdapter {
+    public readonly kind = 'json';
+    public readonly dataFile: string;
+    private readonly snapshots: FileSnapshots;
+
+    constructor(private readonly dataPath: string) {
+        this.dataFile = path.join(dataPath, DATA_FILE);
+        this.snapshots = new FileSnapshots(dataPath);
+    }
+
+    public async exists(): Promise<boolean> {
+        try {
+            await fs.access(this.dataFile);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    public load(): Promise<string> {
+        return fs.readFile(this.dataFile, 'utf-8');
+    }
+
+    public async save(data: ProjectData): Promise<string> {
+        const content = JSON.stringify(data, null, 2);
+        await writeFileAtomic(this.dataFile, content);
+        return content;
+    }
+
+    public watch(listener: () => void): vscode.Disposable {
+        return watchDataFiles(this.dataPath, DATA_FILE, listener);
+    }
+
+    public remove(): Promise<void> {
+        return fs.unlink(this.dataFile);
+    }
+
+    public listSnapshots(): Promise<StoredSnapshot[]> {
+        return this.snapshots.list();
+    }
+
+    public readSnapshot(id: string): Promise<string> {
+        return this.snapshots.read(id);
+    }
+
+    public writeSnapshot(content: string, timestamp?: number): Promise<void> {
+        return this.snapshots.write(content, timestamp);
+    }
+
+    public deleteSnapshot(id: string): Promise<void> {
+        return this.snapshots.delete(id);
+    }
+}
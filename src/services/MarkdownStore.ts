@@ -0,0 +1,209 @@
+import { asRecord, RawProjectData } from '@/schemas/migrations';
+import { ProjectData, ProjectItem } from '@/schemas/project-schemas';
+import { CorruptDataError } from '@/services/errors';
+import { FileSnapshots } from '@/services/FileSnapshots';
+import { StorageAdapter, StoredSnapshot, watchDataFiles } from '@/services/StorageAdapter';
+import { getAllItems } from '@/utils/diff';
+import { writeFileAtomic } from '@/utils/fs';
+import { parseItem, serializeItem } from '@/utils/markdown';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+const COLLECTIONS = ['features', 'bugs', 'tasks'] as const;
+
+const PROJECT_FILE = 'project.json';
+
+// Ids become file names; anything that isn't safe in one is percent-encoded
+function itemFileName(item: ProjectItem): string {
+    const safeId = item.id.replace(/[^\w.-]/g, char => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`);
+    return `${item.type}s/${safeId}.md`;
+}
+
+/**
+ * The per-item storage layout: `.docsToCode/<features|bugs|tasks>/<id>.md`
+ * for items and `.docsToCode/project.json` for project metadata and sprints.
+ *
+ * Reads assemble the files into the same JSON document project-data.json
+ * holds. `lastUpdated` and `revision` are not stored, since rewriting them
+ * on every save would make every branch conflict; `lastUpdated` is derived
+ * from the items instead.
+ */
+export class MarkdownStore implements StorageAdapter {
+    public readonly kind = 'markdown';
+    // Items are spread over many files, there is no single document
+    public readonly dataFile = undefined;
+    private readonly snapshots: FileSnapshots;
+
+    constructor(private readonly dataPath: string) {
+        this.snapshots = new FileSnapshots(dataPath);
+    }
+
+    public getProjectFile(): string {
+        return path.join(this.dataPath, PROJECT_FILE);
+    }
+
+    public async exists(): Promise<boolean> {
+        try {
+            await fs.access(this.getProjectFile());
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * The files as project-data.json content. Throws CorruptDataError when
+     * project.json or an item file cannot be read back.
+     */
+    public async load(): Promise<string> {
+        const files = new Map<string, string>();
+        files.set(PROJECT_FILE, await fs.readFile(this.getProjectFile(), 'utf-8'));
+
+        for (const collection of COLLECTIONS) {
+            for (const file of await this.listItemFiles(collection)) {
+                files.set(`${collection}/${file}`, await fs.readFile(path.join(this.dataPath, collection, file), 'utf-8'));
+            }
+        }
+
+        return JSON.stringify(this.assemble(files), null, 2);
+    }
+
+    /**
+     * Writes only the files whose content changed, then removes the files
+     * of deleted items. A save that fails part way leaves stale files
+     * behind rather than losing items.
+     */
+    public async save(data: ProjectData): Promise<string> {
+        const files = this.toFiles(data);
+
+        for (const collection of COLLECTIONS) {
+            await fs.mkdir(path.join(this.dataPath, collection), { recursive: true });
+        }
+
+        for (const [file, content] of files) {
+            const filePath = path.join(this.dataPath, file);
+            const existing = await fs.readFile(filePath, 'utf-8').catch(() => undefined);
+            if (existing !== content) {
+                await writeFileAtomic(filePath, content);
+            }
+        }
+
+        for (const collection of COLLECTIONS) {
+            for (const file of await this.listItemFiles(collection)) {
+                if (!files.has(`${collection}/${file}`)) {
+                    await fs.unlink(path.join(this.dataPath, collection, file));
+                }
+            }
+        }
+
+        return JSON.stringify(this.assemble(files), null, 2);
+    }
+
+    public watch(listener: () => void): vscode.Disposable {
+        return watchDataFiles(this.dataPath, `{${PROJECT_FILE},${COLLECTIONS.map(collection => `${collection}/*.md`).join(',')}}`, listener);
+    }
+
+    // Deletes every file of this layout, e.g. after converting to a single file
+    public async remove(): Promise<void> {
+        for (const collection of COLLECTIONS) {
+            for (const file of await this.listItemFiles(collection)) {
+                await fs.unlink(path.join(this.dataPath, collection, file));
+            }
+            await fs.rmdir(path.join(this.dataPath, collection)).catch(() => undefined);
+        }
+        await fs.unlink(this.getProjectFile()).catch(() => undefined);
+    }
+
+    public listSnapshots(): Promise<StoredSnapshot[]> {
+        return this.snapshots.list();
+    }
+
+    public readSnapshot(id: string): Promise<string> {
+        return this.snapshots.read(id);
+    }
+
+    public writeSnapshot(content: string, timestamp?: number): Promise<void> {
+        return this.snapshots.write(content, timestamp);
+    }
+
+    public deleteSnapshot(id: string): Promise<void> {
+        return this.snapshots.delete(id);
+    }
+
+    private async listItemFiles(collection: string): Promise<string[]> {
+        try {
+            return (await fs.readdir(path.join(this.dataPath, collection))).filter(file => file.endsWith('.md')).sort();
+        } catch {
+            return [];
+        }
+    }
+
+    private toFiles(data: ProjectData): Map<string, string> {
+        const files = new Map<string, string>();
+        const items = getAllItems(data);
+        const project = {
+            metadata: {
+                projectName: data.metadata.projectName,
+                version: data.metadata.version,
+                // Only while there is nothing to derive it from
+                ...(items.length === 0 && data.sprints.length === 0 ? { lastUpdated: data.metadata.lastUpdated } : {})
+            },
+            sprints: data.sprints
+        };
+
+        files.set(PROJECT_FILE, JSON.stringify(project, null, 2) + '\n');
+        for (const item of items) {
+            files.set(itemFileName(item), serializeItem(item));
+        }
+        return files;
+    }
+
+    private assemble(files: Map<string, string>): RawProjectData {
+        const projectContent = files.get(PROJECT_FILE) ?? '';
+        let project: RawProjectData | undefined;
+        try {
+            project = asRecord(JSON.parse(projectContent));
+        } catch {
+            // Reported below
+        }
+        if (!project) {
+            throw new CorruptDataError(`Invalid ${PROJECT_FILE}`, projectContent);
+        }
+
+        const collections: Record<string, Record<string, unknown>[]> = { features: [], bugs: [], tasks: [] };
+        for (const [file, content] of files) {
+            const collection = collections[file.split('/')[0] ?? ''];
+            if (!collection || file === PROJECT_FILE) {
+                continue;
+            }
+            try {
+                collection.push(parseItem(content));
+            } catch (error) {
+                throw new CorruptDataError(`Invalid item file ${file}: ${error instanceof Error ? error.message : error}`, content);
+            }
+        }
+
+        const byCreation = (a: Record<string, unknown>, b: Record<string, unknown>): number =>
+            String(a['createdAt']).localeCompare(String(b['createdAt'])) || String(a['id']).localeCompare(String(b['id']));
+        Object.values(collections).forEach(collection => collection.sort(byCreation));
+
+        const sprints: unknown[] = Array.isArray(project['sprints']) ? project['sprints'] : [];
+        const updates = [...Object.values(collections).flat(), ...sprints]
+            .map(entry => asRecord(entry)?.['updatedAt'])
+            .filter((value): value is string => typeof value === 'string')
+            .sort();
+
+        const metadata = asRecord(project['metadata']);
+        return {
+            features: collections['features'],
+            bugs: collections['bugs'],
+            tasks: collections['tasks'],
+            sprints,
+            metadata: {
+                ...metadata,
+                lastUpdated: updates[updates.length - 1] ?? metadata?.['lastUpdated'] ?? new Date(0).toISOString()
+            }
+        };
+    }
+}
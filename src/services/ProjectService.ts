@@ -0,0 +1,193 @@
+import { CodeLocation, DATA_FORMAT_VERSION, ProjectData, ProjectItem } from '@/schemas/project-schemas';
+import { AuditEntry } from '@/services/AuditLogService';
+import { DataManager } from '@/services/DataManager';
+import { ItemRef } from '@/utils/diff';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+// Project switcher value for the aggregated view of every project
+export const ALL_PROJECTS = '*';
+
+export type TransferMode = 'copy' | 'move';
+
+export interface ProjectSummary {
+    id: string;
+    name: string;
+}
+
+// Marks what belongs to which project in the combined view
+export interface ProjectTag {
+    projectId: string;
+    projectName: string;
+}
+
+export interface AggregatedData {
+    /** Every project's items, each tagged with projectId and projectName */
+    data: ProjectData;
+    /** Which project each item belongs to, keyed by `<type>:<id>` */
+    owners: Map<string, DataManager>;
+}
+
+function itemKey(item: ItemRef): string {
+    return `${item.type}:${item.id}`;
+}
+
+/**
+ * Works across the projects of a multi-root workspace: switching the
+ * active one, the combined "All projects" view, and copying or moving
+ * items from one project to another.
+ */
+export class ProjectService {
+    private static instance: ProjectService;
+
+    private constructor() { }
+
+    public static getInstance(): ProjectService {
+        if (!ProjectService.instance) {
+            ProjectService.instance = new ProjectService();
+        }
+        return ProjectService.instance;
+    }
+
+    public getProjects(): ProjectSummary[] {
+        return DataManager.getProjects().map(manager => ({ id: manager.getProjectId(), name: manager.getProjectName() }));
+    }
+
+    public async pickProject(title: string, exclude?: DataManager): Promise<DataManager | undefined> {
+        const picked = await vscode.window.showQuickPick(
+            DataManager.getProjects()
+                .filter(manager => manager !== exclude)
+                .map(manager => ({
+                    label: manager.getProjectName(),
+                    description: manager === DataManager.getInstance() ? 'active' : '',
+                    manager
+                })),
+            { title }
+        );
+        return picked?.manager;
+    }
+
+    /**
+     * All projects' items as one data set. Sprints are planned per project
+     * and left out; a project that fails to load is skipped.
+     */
+    public async loadAll(): Promise<AggregatedData> {
+        const data: ProjectData = {
+            features: [],
+            bugs: [],
+            tasks: [],
+            sprints: [],
+            metadata: { projectName: 'All projects', version: DATA_FORMAT_VERSION, lastUpdated: new Date(0).toISOString() }
+        };
+        const owners = new Map<string, DataManager>();
+
+        for (const manager of DataManager.getProjects()) {
+            let projectData: ProjectData;
+            try {
+                projectData = await manager.loadData();
+            } catch (error) {
+                console.warn(`Failed to load project ${manager.getProjectName()}:`, error);
+                continue;
+            }
+
+            const tag = this.tagOf(manager);
+            data.features.push(...projectData.features.map(item => ({ ...item, ...tag })));
+            data.bugs.push(...projectData.bugs.map(item => ({ ...item, ...tag })));
+            data.tasks.push(...projectData.tasks.map(item => ({ ...item, ...tag })));
+            [...projectData.features, ...projectData.bugs, ...projectData.tasks]
+                .forEach(item => owners.set(itemKey(item), manager));
+
+            if (projectData.metadata.lastUpdated > data.metadata.lastUpdated) {
+                data.metadata.lastUpdated = projectData.metadata.lastUpdated;
+            }
+        }
+
+        return { data, owners };
+    }
+
+    // The newest audit entries across all projects, tagged like loadAll's items
+    public async readActivity(limit: number): Promise<(AuditEntry & ProjectTag)[]> {
+        const entries = await Promise.all(DataManager.getProjects().map(async manager =>
+            (await manager.getAuditLog().read(undefined, limit)).map(entry => ({ ...entry, ...this.tagOf(manager) }))
+        ));
+        return entries.flat().sort((a, b) => b.at.localeCompare(a.at)).slice(0, limit);
+    }
+
+    private tagOf(manager: DataManager): ProjectTag {
+        return { projectId: manager.getProjectId(), projectName: manager.getProjectName() };
+    }
+
+    /**
+     * Copies or moves an item into `target`. A copy is a new item with its
+     * own id and history; a moved item keeps both and is deleted from
+     * `source`. Links to items the target project lacks are dropped, and so
+     * is a code location outside the target's folder. Throws a WorkflowError
+     * when the target's workflow has no such status.
+     */
+    public async transferItem(source: DataManager, item: ItemRef, target: DataManager, mode: TransferMode): Promise<ProjectItem> {
+        const original = await source.getItem(item.type, item.id);
+        if (!original) {
+            throw new Error('The item no longer exists');
+        }
+
+        const { location, ...rest } = original;
+        const rebased = location && this.rebaseLocation(location, source, target);
+        const transferred = { ...rest, ...(rebased ? { location: rebased } : {}) } as ProjectItem;
+
+        if (mode === 'copy') {
+            const { id, createdAt, updatedAt, statusHistory, links, ...fields } = transferred;
+            return target.createItem(item.type, fields);
+        }
+
+        if (await target.getItem(item.type, item.id)) {
+            throw new Error(`${target.getProjectName()} already has a ${item.type} with id ${item.id}`);
+        }
+        target.getWorkflowService().assertTransition(transferred, undefined);
+        await target.restoreItem(transferred);
+        try {
+            await source.deleteItem(item.type, item.id);
+        } catch {
+            // Once more, so the item doesn't end up in both projects
+            try {
+                await source.deleteItem(item.type, item.id);
+            } catch (error) {
+                throw new Error(
+                    `Added to ${target.getProjectName()} but could not delete it from ${source.getProjectName()}, so it is now in both: ${error instanceof Error ? error.message : error}`
+                );
+            }
+        }
+        return transferred;
+    }
+
+    // Locations are relative to the project's folder; undefined when the file is outside the target's
+    private rebaseLocation(location: CodeLocation, source: DataManager, target: DataManager): CodeLocation | undefined {
+        const file = path.relative(target.getProjectPath(), path.join(source.getProjectPath(), location.file));
+        if (!file || file === '..' || file.startsWith(`..${path.sep}`) || path.isAbsolute(file)) {
+            return undefined;
+        }
+        return { ...location, file: file.replace(/\\/g, '/') };
+    }
+
+    // Asks for the target project; returns whether the item was transferred
+    public async promptTransfer(source: DataManager, item: ItemRef, mode: TransferMode): Promise<boolean> {
+        if (DataManager.getProjects().length < 2) {
+            vscode.window.showInformationMessage('Add another workspace folder with a .docsToCode folder to copy or move items between projects.');
+            return false;
+        }
+
+        const verb = mode === 'copy' ? 'Copy' : 'Move';
+        const target = await this.pickProject(`${verb} ${item.type} to project`, source);
+        if (!target) {
+            return false;
+        }
+
+        try {
+            const transferred = await this.transferItem(source, item, target, mode);
+            vscode.window.showInformationMessage(`${verb === 'Copy' ? 'Copied' : 'Moved'} "${transferred.title}" to ${target.getProjectName()}`);
+            return true;
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to ${mode} item: ${error instanceof Error ? error.message : error}`);
+            return false;
+        }
+    }
+}
@@ -0,0 +1,189 @@
+import { ProjectItem } from '@/schemas/project-schemas';
+import { Annotation, findAnnotations } from '@/utils/annotations';
+import * as vscode from 'vscode';
+
+export interface ItemReference extends Annotation {
+    uri: vscode.Uri;
+    /** Zero-based position of the annotation */
+    line: number;
+    character: number;
+}
+
+// Larger files are skipped; they are rarely hand-written source
+const MAX_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Index of item annotations (see utils/annotations.ts) across the workspace.
+ * Built once by scanning and kept current from editor and file events.
+ */
+export class ReferenceService implements vscode.Disposable {
+    private static instance: ReferenceService;
+    private readonly referencesByFile = new Map<string, ItemReference[]>();
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly _onDidChangeReferences = new vscode.EventEmitter<void>();
+    public readonly onDidChangeReferences = this._onDidChangeReferences.event;
+    private scanning: Promise<void> | undefined;
+
+    private constructor() {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+
+        this.disposables.push(
+            this._onDidChangeReferences,
+            watcher,
+            watcher.onDidCreate(uri => this.rescanFile(uri)),
+            watcher.onDidChange(uri => {
+                // Open documents are indexed from their editor buffer instead
+                if (!vscode.workspace.textDocuments.some(document => document.uri.toString() === uri.toString())) {
+                    this.rescanFile(uri);
+                }
+            }),
+            watcher.onDidDelete(uri => {
+                if (this.referencesByFile.delete(uri.toString())) {
+                    this._onDidChangeReferences.fire();
+                }
+            }),
+            vscode.workspace.onDidChangeTextDocument(event => this.indexDocument(event.document)),
+            vscode.workspace.onDidOpenTextDocument(document => this.indexDocument(document)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('docstocode.annotations')) {
+                    this.scanWorkspace().catch(error => console.warn('Failed to scan for item references:', error));
+                }
+            })
+        );
+    }
+
+    public static getInstance(): ReferenceService {
+        if (!ReferenceService.instance) {
+            ReferenceService.instance = new ReferenceService();
+        }
+        return ReferenceService.instance;
+    }
+
+    public async scanWorkspace(): Promise<void> {
+        if (!this.scanning) {
+            this.scanning = this.doScan().finally(() => {
+                this.scanning = undefined;
+            });
+        }
+        return this.scanning;
+    }
+
+    private async doScan(): Promise<void> {
+        const config = vscode.workspace.getConfiguration('docstocode.annotations');
+        const files = await vscode.workspace.findFiles(
+            '**/*',
+            `**/{${this.getExcludedFolders().join(',')}}/**`,
+            config.get<number>('maxFiles', 5000)
+        );
+
+        this.referencesByFile.clear();
+        for (const uri of files) {
+            await this.scanFile(uri);
+        }
+        vscode.workspace.textDocuments.forEach(document => this.indexDocument(document, false));
+
+        this._onDidChangeReferences.fire();
+    }
+
+    private async scanFile(uri: vscode.Uri): Promise<void> {
+        try {
+            const stat = await vscode.workspace.fs.stat(uri);
+            if (stat.type !== vscode.FileType.File || stat.size > MAX_FILE_SIZE) {
+                return;
+            }
+
+            const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+            // Binary content
+            if (text.includes('\0')) {
+                return;
+            }
+            this.setReferences(uri, text);
+        } catch {
+            // Deleted or unreadable since listing
+        }
+    }
+
+    private rescanFile(uri: vscode.Uri): void {
+        if (!this.isIncluded(uri)) {
+            return;
+        }
+        this.scanFile(uri).then(() => this._onDidChangeReferences.fire());
+    }
+
+    private indexDocument(document: vscode.TextDocument, notify = true): void {
+        if (!this.isIncluded(document.uri)) {
+            return;
+        }
+        const changed = this.setReferences(document.uri, document.getText());
+        if (changed && notify) {
+            this._onDidChangeReferences.fire();
+        }
+    }
+
+    // Returns whether the file's references differ from before
+    private setReferences(uri: vscode.Uri, text: string): boolean {
+        const key = uri.toString();
+        const previous = this.referencesByFile.get(key) ?? [];
+        const annotations = findAnnotations(text);
+
+        if (annotations.length === 0) {
+            this.referencesByFile.delete(key);
+            return previous.length > 0;
+        }
+
+        const lineStarts = [0];
+        for (let i = 0; i < text.length; i++) {
+            if (text[i] === '\n') {
+                lineStarts.push(i + 1);
+            }
+        }
+
+        let line = 0;
+        const references = annotations.map(annotation => {
+            while (line + 1 < lineStarts.length && lineStarts[line + 1]! <= annotation.offset) {
+                line++;
+            }
+            return { ...annotation, uri, line, character: annotation.offset - lineStarts[line]! };
+        });
+
+        this.referencesByFile.set(key, references);
+        return JSON.stringify(previous.map(this.describe)) !== JSON.stringify(references.map(this.describe));
+    }
+
+    private describe(reference: ItemReference): string {
+        return `${reference.type}:${reference.id}@${reference.line}:${reference.character}`;
+    }
+
+    public getExcludedFolders(): string[] {
+        return vscode.workspace.getConfiguration('docstocode.annotations')
+            .get<string[]>('excludeFolders', ['node_modules', 'dist', 'out', '.git', '.docsToCode']);
+    }
+
+    private isIncluded(uri: vscode.Uri): boolean {
+        if (uri.scheme !== 'file' || !vscode.workspace.getWorkspaceFolder(uri)) {
+            return false;
+        }
+        const excluded = this.getExcludedFolders();
+        return !uri.fsPath.split(/[\\/]/).some(segment => excluded.includes(segment));
+    }
+
+    public getReferencesInFile(uri: vscode.Uri): ItemReference[] {
+        return this.referencesByFile.get(uri.toString()) ?? [];
+    }
+
+    public getReferences(type: ProjectItem['type'], id: string): ItemReference[] {
+        const references: ItemReference[] = [];
+        for (const fileReferences of this.referencesByFile.values()) {
+            references.push(...fileReferences.filter(reference => reference.type === type && reference.id === id));
+        }
+        return references.sort((a, b) => a.uri.fsPath.localeCompare(b.uri.fsPath) || a.line - b.line);
+    }
+
+    public getAllReferences(): ItemReference[] {
+        return [...this.referencesByFile.values()].flat();
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -0,0 +1,86 @@
+import { ProjectItem } from '@/schemas/project-schemas';
+import { DataManager } from '@/services/DataManager';
+import { writeFileAtomic } from '@/utils/fs';
+import { parseQuery, QueryContext, searchItems } from '@/utils/query';
+import { getCurrentUser } from '@/utils/user';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+export interface SavedQuery {
+    name: string;
+    query: string;
+}
+
+/**
+ * Runs item queries (see utils/query.ts) and keeps named queries in
+ * .docsToCode/queries.json so they can be shared with the team.
+ */
+export class SearchService {
+    private static instance: SearchService;
+    private readonly _onDidChangeSavedQueries = new vscode.EventEmitter<SavedQuery[]>();
+    public readonly onDidChangeSavedQueries = this._onDidChangeSavedQueries.event;
+
+    private constructor() { }
+
+    public static getInstance(): SearchService {
+        if (!SearchService.instance) {
+            SearchService.instance = new SearchService();
+        }
+        return SearchService.instance;
+    }
+
+    private get dataManager(): DataManager {
+        return DataManager.getInstance();
+    }
+
+    public getContext(): QueryContext {
+        const { customFields } = this.dataManager.getConfigService().getConfig();
+        return { me: getCurrentUser(), now: new Date(), customFields: Object.values(customFields).flat() };
+    }
+
+    public async search(query: string): Promise<ProjectItem[]> {
+        const data = await this.dataManager.loadData();
+        return searchItems(data, query, this.getContext());
+    }
+
+    // Throws with a description of the problem if `query` cannot be parsed
+    public validateQuery(query: string): void {
+        parseQuery(query);
+    }
+
+    private getQueriesPath(): string {
+        return path.join(this.dataManager.getDataPath(), 'queries.json');
+    }
+
+    public async getSavedQueries(): Promise<SavedQuery[]> {
+        try {
+            const parsed = JSON.parse(await fs.readFile(this.getQueriesPath(), 'utf-8'));
+            const queries: unknown[] = Array.isArray(parsed?.queries) ? parsed.queries : [];
+            return queries.filter((entry): entry is SavedQuery =>
+                typeof (entry as SavedQuery)?.name === 'string' && typeof (entry as SavedQuery)?.query === 'string'
+            );
+        } catch {
+            return [];
+        }
+    }
+
+    // Adds the query, replacing any saved query with the same name
+    public async saveQuery(name: string, query: string): Promise<void> {
+        this.validateQuery(query);
+        const queries = (await this.getSavedQueries()).filter(saved => saved.name !== name);
+        queries.push({ name, query });
+        queries.sort((a, b) => a.name.localeCompare(b.name));
+        await this.writeQueries(queries);
+    }
+
+    public async deleteQuery(name: string): Promise<void> {
+        const queries = await this.getSavedQueries();
+        await this.writeQueries(queries.filter(saved => saved.name !== name));
+    }
+
+    private async writeQueries(queries: SavedQuery[]): Promise<void> {
+        await writeFileAtomic(this.getQueriesPath(), JSON.stringify({ queries }, null, 2));
+        this._onDidChangeSavedQueries.fire(queries);
+    }
+}
@@ -0,0 +1,198 @@
+import { ProjectData, Sprint } from '@/schemas/project-schemas';
+import { DataManager } from '@/services/DataManager';
+import { getAllItems } from '@/utils/diff';
+import {
+    Burndown,
+    computeBurndown,
+    computeVelocity,
+    getCurrentSprint,
+    itemPoints,
+    toDateString,
+    Velocity
+} from '@/utils/sprints';
+import * as vscode from 'vscode';
+
+export interface SprintReport {
+    sprints: Sprint[];
+    currentSprintId: string | undefined;
+    burndowns: Record<string, Burndown>;
+    velocity: Velocity;
+}
+
+const DEFAULT_SPRINT_DAYS = 14;
+
+function addDays(date: string, days: number): string {
+    const result = new Date(`${date}T00:00:00`);
+    result.setDate(result.getDate() + days);
+    return toDateString(result);
+}
+
+function validateDate(value: string): string | undefined {
+    return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(`${value}T00:00:00`).getTime())
+        ? undefined
+        : 'Enter a date as YYYY-MM-DD';
+}
+
+/**
+ * Sprint planning on top of DataManager's sprint storage: creating sprints,
+ * committing items with a capacity check, and burndown/velocity reports.
+ */
+export class SprintService {
+    private static instance: SprintService;
+
+    private constructor() { }
+
+    public static getInstance(): SprintService {
+        if (!SprintService.instance) {
+            SprintService.instance = new SprintService();
+        }
+        return SprintService.instance;
+    }
+
+    // The active project's, which can change while the service lives
+    private get dataManager(): DataManager {
+        return DataManager.getInstance();
+    }
+
+    public getReport(data: ProjectData, now = new Date()): SprintReport {
+        const closed = this.dataManager.getWorkflowService().getAllClosedStatuses();
+        return {
+            sprints: [...data.sprints].sort((a, b) => a.startDate.localeCompare(b.startDate)),
+            currentSprintId: getCurrentSprint(data.sprints, now)?.id,
+            burndowns: Object.fromEntries(data.sprints.map(sprint => [sprint.id, computeBurndown(data, sprint, now, closed)])),
+            velocity: computeVelocity(data, now, closed)
+        };
+    }
+
+    /**
+     * Asks for the new sprint's details. It defaults to starting the day
+     * after the last sprint ends and to the same length.
+     */
+    public async promptCreateSprint(): Promise<Sprint | undefined> {
+        const { sprints } = await this.dataManager.loadData();
+        const last = [...sprints].sort((a, b) => a.endDate.localeCompare(b.endDate)).pop();
+        const lengthDays = last
+            ? Math.round((new Date(`${last.endDate}T00:00:00`).getTime() - new Date(`${last.startDate}T00:00:00`).getTime()) / 86400000) + 1
+            : DEFAULT_SPRINT_DAYS;
+        const defaultStart = last && last.endDate >= toDateString(new Date())
+            ? addDays(last.endDate, 1)
+            : toDateString(new Date());
+
+        const name = await vscode.window.showInputBox({
+            title: 'New Sprint (1/5)',
+            prompt: 'Sprint name',
+            value: `Sprint ${sprints.length + 1}`,
+            validateInput: value => value.trim() ? undefined : 'The name cannot be empty'
+        });
+        if (!name) {
+            return undefined;
+        }
+
+        const startDate = await vscode.window.showInputBox({
+            title: 'New Sprint (2/5)',
+            prompt: 'First day (YYYY-MM-DD)',
+            value: defaultStart,
+            validateInput: validateDate
+        });
+        if (!startDate) {
+            return undefined;
+        }
+
+        const endDate = await vscode.window.showInputBox({
+            title: 'New Sprint (3/5)',
+            prompt: 'Last day (YYYY-MM-DD)',
+            value: addDays(startDate, lengthDays - 1),
+            validateInput: value => validateDate(value) ?? (value < startDate ? 'The sprint cannot end before it starts' : undefined)
+        });
+        if (!endDate) {
+            return undefined;
+        }
+
+        const capacity = await vscode.window.showInputBox({
+            title: 'New Sprint (4/5)',
+            prompt: 'Capacity in story points (optional)',
+            value: last?.capacity !== undefined ? String(last.capacity) : '',
+            validateInput: value => !value.trim() || Number(value) >= 0 ? undefined : 'Enter a number of points'
+        });
+        if (capacity === undefined) {
+            return undefined;
+        }
+
+        const goal = await vscode.window.showInputBox({
+            title: 'New Sprint (5/5)',
+            prompt: 'Sprint goal (optional)'
+        });
+        if (goal === undefined) {
+            return undefined;
+        }
+
+        return this.dataManager.createSprint({
+            name: name.trim(),
+            startDate,
+            endDate,
+            itemIds: [],
+            ...(capacity.trim() ? { capacity: Number(capacity) } : {}),
+            ...(goal.trim() ? { goal: goal.trim() } : {})
+        });
+    }
+
+    /**
+     * Commits items to the sprint. When that takes the sprint over its
+     * capacity the user is asked first; returns whether the items were added.
+     */
+    public async addItems(sprintId: string, itemIds: string[]): Promise<boolean> {
+        const data = await this.dataManager.loadData();
+        const sprint = data.sprints.find(candidate => candidate.id === sprintId);
+        if (!sprint) {
+            throw new Error('The sprint no longer exists');
+        }
+
+        const newIds = itemIds.filter(id => !sprint.itemIds.includes(id));
+        if (newIds.length === 0) {
+            return false;
+        }
+
+        if (sprint.capacity !== undefined) {
+            const items = getAllItems(data);
+            const pointsOf = (ids: string[]): number => items
+                .filter(item => ids.includes(item.id))
+                .reduce((total, item) => total + itemPoints(item), 0);
+            const committed = pointsOf(sprint.itemIds) + pointsOf(newIds);
+
+            if (committed > sprint.capacity) {
+                const choice = await vscode.window.showWarningMessage(
+                    `${sprint.name} would be at ${committed} of ${sprint.capacity} story points.`,
+                    { modal: true, detail: 'Committing more than the capacity makes the sprint less likely to finish.' },
+                    'Add Anyway'
+                );
+                if (choice !== 'Add Anyway') {
+                    return false;
+                }
+            }
+        }
+
+        // Only the capacity check uses the data read above; the ids are added to the sprint as saved by then
+        if (!(await this.dataManager.addSprintItems(sprintId, newIds))) {
+            throw new Error('The sprint no longer exists');
+        }
+        return true;
+    }
+
+    public async removeItem(sprintId: string, itemId: string): Promise<void> {
+        await this.dataManager.removeSprintItems(sprintId, [itemId]);
+    }
+
+    public async deleteSprint(sprintId: string): Promise<boolean> {
+        const sprint = (await this.dataManager.loadData()).sprints.find(candidate => candidate.id === sprintId);
+        if (!sprint) {
+            return false;
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `Delete ${sprint.name}?`,
+            { modal: true, detail: 'Its items stay in the project and go back to the backlog.' },
+            'Delete'
+        );
+        return choice === 'Delete' && this.dataManager.deleteSprint(sprintId);
+    }
+}
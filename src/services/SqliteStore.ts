@@ -0,0 +1,217 @@
+import { ProjectData } from '@/schemas/project-schemas';
+import { CorruptDataError } from '@/services/errors';
+import { getBackupTimestamp, getSnapshotId, StorageAdapter, StoredSnapshot, watchDataFiles } from '@/services/StorageAdapter';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+type SqliteValue = string | number | null;
+
+// The part of node:sqlite used here; @types/node for the bundled Node.js predates it
+interface SqliteStatement {
+    run(...parameters: SqliteValue[]): unknown;
+    all(...parameters: SqliteValue[]): Record<string, SqliteValue>[];
+    get(...parameters: SqliteValue[]): Record<string, SqliteValue> | undefined;
+}
+
+interface SqliteDatabase {
+    exec(sql: string): void;
+    prepare(sql: string): SqliteStatement;
+    close(): void;
+}
+
+const DATABASE_FILE = 'project-data.sqlite';
+
+const COLLECTIONS = ['features', 'bugs', 'tasks'] as const;
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS items (
+        type TEXT NOT NULL,
+        id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        PRIMARY KEY (type, id)
+    );
+    CREATE TABLE IF NOT EXISTS project (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS snapshots (
+        timestamp INTEGER PRIMARY KEY,
+        content TEXT NOT NULL
+    );
+`;
+
+function openDatabase(file: string): SqliteDatabase {
+    let sqlite: { DatabaseSync: new (file: string) => SqliteDatabase };
+    try {
+        // Built into Node.js 22.13 and later, which older VS Code releases don't ship
+        sqlite = require('node:sqlite');
+    } catch {
+        throw new Error('SQLite storage needs a VS Code release running on Node.js 22.13 or later');
+    }
+
+    const database = new sqlite.DatabaseSync(file);
+    database.exec(SCHEMA);
+    return database;
+}
+
+function parseRow(value: SqliteValue, description: string): unknown {
+    try {
+        return JSON.parse(String(value));
+    } catch {
+        throw new CorruptDataError(`Invalid ${description} in ${DATABASE_FILE}`, String(value));
+    }
+}
+
+/**
+ * Items as rows of .docsToCode/project-data.sqlite, for projects large
+ * enough that rewriting one JSON document on every save gets slow. A save
+ * only touches the rows of items that changed. Snapshots are kept in the
+ * database too.
+ */
+export class SqliteStore implements StorageAdapter {
+    public readonly kind = 'sqlite';
+    // The database is binary, there is no document to open or diff
+    public readonly dataFile = undefined;
+    private readonly databaseFile: string;
+
+    constructor(private readonly dataPath: string) {
+        this.databaseFile = path.join(dataPath, DATABASE_FILE);
+    }
+
+    public async exists(): Promise<boolean> {
+        try {
+            await fs.access(this.databaseFile);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    public async load(): Promise<string> {
+        if (!await this.exists()) {
+            throw new Error(`${DATABASE_FILE} does not exist`);
+        }
+
+        return this.withDatabase(database => {
+            const project = new Map(database.prepare('SELECT key, value FROM project').all()
+                .map(row => [String(row['key']), row['value'] ?? null]));
+            if (!project.has('metadata')) {
+                throw new CorruptDataError(`${DATABASE_FILE} has no project metadata`, '');
+            }
+
+            const collections: Record<string, unknown[]> = { features: [], bugs: [], tasks: [] };
+            for (const row of database.prepare('SELECT type, id, content FROM items ORDER BY position').all()) {
+                const collection = collections[`${row['type']}s`];
+                if (collection) {
+                    collection.push(parseRow(row['content'] ?? null, `${row['type']} ${row['id']}`));
+                }
+            }
+
+            return JSON.stringify({
+                features: collections['features'],
+                bugs: collections['bugs'],
+                tasks: collections['tasks'],
+                sprints: project.has('sprints') ? parseRow(project.get('sprints') ?? null, 'sprints') : [],
+                metadata: parseRow(project.get('metadata') ?? null, 'project metadata')
+            }, null, 2);
+        });
+    }
+
+    public async save(data: ProjectData): Promise<string> {
+        await fs.mkdir(this.dataPath, { recursive: true });
+
+        this.withDatabase(database => {
+            const stored = new Map(database.prepare('SELECT type, id, position, content FROM items').all()
+                .map(row => [`${row['type']}:${row['id']}`, `${row['position']}:${row['content']}`]));
+            const upsert = database.prepare('INSERT OR REPLACE INTO items (type, id, position, content) VALUES (?, ?, ?, ?)');
+            const remove = database.prepare('DELETE FROM items WHERE type = ? AND id = ?');
+            const setProject = database.prepare('INSERT OR REPLACE INTO project (key, value) VALUES (?, ?)');
+
+            database.exec('BEGIN IMMEDIATE');
+            try {
+                for (const collection of COLLECTIONS) {
+                    data[collection].forEach((item, position) => {
+                        const key = `${item.type}:${item.id}`;
+                        const content = JSON.stringify(item);
+                        if (stored.get(key) !== `${position}:${content}`) {
+                            upsert.run(item.type, item.id, position, content);
+                        }
+                        stored.delete(key);
+                    });
+                }
+                for (const key of stored.keys()) {
+                    const separator = key.indexOf(':');
+                    remove.run(key.slice(0, separator), key.slice(separator + 1));
+                }
+
+                setProject.run('metadata', JSON.stringify(data.metadata));
+                setProject.run('sprints', JSON.stringify(data.sprints));
+                database.exec('COMMIT');
+            } catch (error) {
+                database.exec('ROLLBACK');
+                throw error;
+            }
+        });
+
+        return JSON.stringify({
+            features: data.features,
+            bugs: data.bugs,
+            tasks: data.tasks,
+            sprints: data.sprints,
+            metadata: data.metadata
+        }, null, 2);
+    }
+
+    public watch(listener: () => void): vscode.Disposable {
+        return watchDataFiles(this.dataPath, DATABASE_FILE, listener);
+    }
+
+    public async remove(): Promise<void> {
+        await fs.unlink(this.databaseFile);
+        await fs.unlink(`${this.databaseFile}-journal`).catch(() => undefined);
+    }
+
+    public async listSnapshots(): Promise<StoredSnapshot[]> {
+        if (!await this.exists()) {
+            return [];
+        }
+
+        return this.withDatabase(database => database
+            .prepare('SELECT timestamp, length(CAST(content AS BLOB)) AS size FROM snapshots ORDER BY timestamp DESC')
+            .all()
+            .map(row => ({ id: getSnapshotId(Number(row['timestamp'])), timestamp: Number(row['timestamp']), size: Number(row['size']) })));
+    }
+
+    public async readSnapshot(id: string): Promise<string> {
+        const row = this.withDatabase(database =>
+            database.prepare('SELECT content FROM snapshots WHERE timestamp = ?').get(getBackupTimestamp(id)));
+        if (!row) {
+            throw new Error(`Snapshot ${id} does not exist`);
+        }
+        return String(row['content']);
+    }
+
+    public async writeSnapshot(content: string, timestamp = Date.now()): Promise<void> {
+        this.withDatabase(database => {
+            database.prepare('INSERT OR REPLACE INTO snapshots (timestamp, content) VALUES (?, ?)').run(timestamp, content);
+        });
+    }
+
+    public async deleteSnapshot(id: string): Promise<void> {
+        this.withDatabase(database => {
+            database.prepare('DELETE FROM snapshots WHERE timestamp = ?').run(getBackupTimestamp(id));
+        });
+    }
+
+    // A connection per operation, so other processes can open the file in between
+    private withDatabase<R>(operation: (database: SqliteDatabase) => R): R {
+        const database = openDatabase(this.databaseFile);
+        try {
+            return operation(database);
+        } finally {
+            database.close();
+        }
+    }
+}
@@ -0,0 +1,66 @@
+import { ProjectData } from '@/schemas/project-schemas';
+import * as vscode from 'vscode';
+
+/**
+ * Where project data lives: `json` keeps everything in project-data.json,
+ * `markdown` writes one Markdown file per item (see MarkdownStore) and
+ * `sqlite` keeps items as rows of project-data.sqlite (see SqliteStore).
+ */
+export type StorageKind = 'json' | 'markdown' | 'sqlite';
+
+export const STORAGE_KINDS: StorageKind[] = ['json', 'markdown', 'sqlite'];
+
+export interface StoredSnapshot {
+    /** Stable name of the snapshot, `backup-<timestamp>.json` */
+    id: string;
+    timestamp: number;
+    size: number;
+    /** The snapshot on disk, when the adapter keeps snapshots as files */
+    file?: string;
+}
+
+/**
+ * Persistence behind DataManager. Adapters exchange the project data as a
+ * project-data.json document so DataManager can parse, migrate, validate
+ * and etag it the same way whatever the storage. Snapshots are the backups
+ * taken after every save; DataManager applies the retention policy.
+ */
+export interface StorageAdapter {
+    readonly kind: StorageKind;
+    /** A single JSON document holding all the data, if the adapter keeps one */
+    readonly dataFile: string | undefined;
+
+    /** Whether this project has data stored this way */
+    exists(): Promise<boolean>;
+    /** The stored data as project-data.json content */
+    load(): Promise<string>;
+    /** Stores `data` and returns what load() will read back */
+    save(data: ProjectData): Promise<string>;
+    /** Calls `listener` whenever the stored data may have changed on disk */
+    watch(listener: () => void): vscode.Disposable;
+    /** Deletes the stored data, e.g. after converting to another adapter */
+    remove(): Promise<void>;
+
+    /** Newest first */
+    listSnapshots(): Promise<StoredSnapshot[]>;
+    readSnapshot(id: string): Promise<string>;
+    writeSnapshot(content: string, timestamp?: number): Promise<void>;
+    deleteSnapshot(id: string): Promise<void>;
+}
+
+// Watches files in the data folder matching `pattern` for any change
+export function watchDataFiles(dataPath: string, pattern: string, listener: () => void): vscode.Disposable {
+    const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(dataPath, pattern));
+    watcher.onDidChange(listener);
+    watcher.onDidCreate(listener);
+    watcher.onDidDelete(listener);
+    return watcher;
+}
+
+export function getBackupTimestamp(id: string): number {
+    return Number(id.slice('backup-'.length, -'.json'.length));
+}
+
+export function getSnapshotId(timestamp: number): string {
+    return `backup-${timestamp}.json`;
+}
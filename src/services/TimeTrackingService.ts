@@ -0,0 +1,192 @@
+import { Task, TimeEntry } from '@/schemas/project-schemas';
+import { DataManager } from '@/services/DataManager';
+import { getCurrentUser } from '@/utils/user';
+import * as vscode from 'vscode';
+
+interface RunningTimer {
+    taskId: string;
+    title: string;
+    start: string;
+    /** Project holding the task; absent for timers started before projects were tracked */
+    projectId?: string;
+}
+
+const TIMER_STATE_KEY = 'docstocode.timer';
+
+// How often the elapsed time in the status bar is refreshed
+const TICK_MS = 30 * 1000;
+
+export function entryHours(entry: TimeEntry): number {
+    return Math.max(new Date(entry.end).getTime() - new Date(entry.start).getTime(), 0) / 3600000;
+}
+
+// Sum of the entries' durations, to two decimals as shown in the dashboard
+export function totalHours(entries: TimeEntry[]): number {
+    return Math.round(entries.reduce((total, entry) => total + entryHours(entry), 0) * 100) / 100;
+}
+
+/**
+ * Start/stop timer for tasks, shown in the status bar. Stopping it appends
+ * a time entry to the task and recomputes its actualHours.
+ */
+export class TimeTrackingService implements vscode.Disposable {
+    private static instance: TimeTrackingService;
+    private readonly statusBarItem: vscode.StatusBarItem;
+    private state: vscode.Memento | undefined;
+    private ticker: NodeJS.Timeout | undefined;
+
+    private constructor() {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+    }
+
+    public static getInstance(): TimeTrackingService {
+        if (!TimeTrackingService.instance) {
+            TimeTrackingService.instance = new TimeTrackingService();
+        }
+        return TimeTrackingService.instance;
+    }
+
+    private get dataManager(): DataManager {
+        return DataManager.getInstance();
+    }
+
+    // The running timer lives in workspace state so it survives reloads
+    public initialize(state: vscode.Memento): void {
+        this.state = state;
+        this.render();
+        this.statusBarItem.show();
+    }
+
+    public getRunningTimer(): RunningTimer | undefined {
+        return this.state?.get<RunningTimer>(TIMER_STATE_KEY);
+    }
+
+    /**
+     * Starts timing `task`, or asks which task to time when omitted. A timer
+     * already running for another task is stopped first.
+     */
+    public async start(task?: Task): Promise<void> {
+        const selected = task ?? await this.pickTask();
+        if (!selected) {
+            return;
+        }
+
+        const running = this.getRunningTimer();
+        if (running?.taskId === selected.id) {
+            return;
+        }
+        if (running) {
+            await this.stop();
+        }
+
+        await this.state?.update(TIMER_STATE_KEY, {
+            taskId: selected.id,
+            title: selected.title,
+            start: new Date().toISOString(),
+            projectId: this.dataManager.getProjectId()
+        } satisfies RunningTimer);
+        this.render();
+    }
+
+    public async stop(): Promise<void> {
+        const running = this.getRunningTimer();
+        if (!running) {
+            return;
+        }
+
+        const end = new Date().toISOString();
+        const note = await vscode.window.showInputBox({
+            title: `Stop timer for "${running.title}"`,
+            prompt: 'What did you work on? (optional)'
+        });
+
+        // Cleared first so a failed save can't leave a timer that logs twice
+        await this.state?.update(TIMER_STATE_KEY, undefined);
+        this.render();
+
+        const entry: TimeEntry = { start: running.start, end, user: getCurrentUser(), ...(note ? { note } : {}) };
+        try {
+            await this.addEntry(running, entry);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to log time for "${running.title}": ${error}`);
+        }
+    }
+
+    // Logged in the task's own project, even if another one is active by now
+    private async addEntry(running: RunningTimer, entry: TimeEntry): Promise<void> {
+        const dataManager = (running.projectId && DataManager.getProject(running.projectId)) || this.dataManager;
+        const task = (await dataManager.loadData()).tasks.find(candidate => candidate.id === running.taskId);
+        if (!task) {
+            throw new Error('The task no longer exists');
+        }
+
+        const timeEntries = [...(task.timeEntries ?? []), entry];
+        await dataManager.updateItem<Task>('task', running.taskId, {
+            timeEntries,
+            actualHours: totalHours(timeEntries)
+        }, task);
+    }
+
+    private async pickTask(): Promise<Task | undefined> {
+        const me = getCurrentUser().toLowerCase();
+        const closed = this.dataManager.getWorkflowService().getClosedStatuses('task');
+        const tasks = (await this.dataManager.loadData()).tasks
+            .filter(task => !closed.includes(task.status))
+            // Own tasks first, then the most recently touched
+            .sort((a, b) =>
+                Number((b.assignee ?? '').toLowerCase() === me) - Number((a.assignee ?? '').toLowerCase() === me) ||
+                b.updatedAt.localeCompare(a.updatedAt)
+            );
+
+        if (tasks.length === 0) {
+            vscode.window.showInformationMessage('There are no open tasks to time');
+            return undefined;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            tasks.map(task => ({
+                label: task.title,
+                description: [task.status, task.assignee].filter(Boolean).join(' · '),
+                detail: task.estimatedHours !== undefined
+                    ? `${task.actualHours ?? 0}h of ${task.estimatedHours}h estimated`
+                    : `${task.actualHours ?? 0}h logged`,
+                task
+            })),
+            { title: 'Start Timer', placeHolder: 'Which task are you working on?', matchOnDescription: true }
+        );
+        return picked?.task;
+    }
+
+    private render(): void {
+        const running = this.getRunningTimer();
+
+        if (this.ticker) {
+            clearInterval(this.ticker);
+            this.ticker = undefined;
+        }
+
+        if (!running) {
+            this.statusBarItem.text = '$(watch) Start Timer';
+            this.statusBarItem.tooltip = 'Start timing a task';
+            this.statusBarItem.command = 'docstocode.startTimer';
+            return;
+        }
+
+        const update = (): void => {
+            const minutes = Math.floor((Date.now() - new Date(running.start).getTime()) / 60000);
+            const elapsed = `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+            this.statusBarItem.text = `$(debug-stop) ${elapsed} ${running.title}`;
+        };
+        update();
+        this.statusBarItem.tooltip = `Timing "${running.title}" since ${new Date(running.start).toLocaleTimeString()}. Click to stop.`;
+        this.statusBarItem.command = 'docstocode.stopTimer';
+        this.ticker = setInterval(update, TICK_MS);
+    }
+
+    public dispose(): void {
+        if (this.ticker) {
+            clearInterval(this.ticker);
+        }
+        this.statusBarItem.dispose();
+    }
+}
@@ -0,0 +1,183 @@
+import { BASE_ITEM_SCHEMA, CodeLocation, Task } from '@/schemas/project-schemas';
+import { BatchOperation, DataManager } from '@/services/DataManager';
+import { ReferenceService } from '@/services/ReferenceService';
+import { findTodos, TodoComment } from '@/utils/todos';
+import { shorten } from '@/utils/trackers';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+export interface TodoImportResult {
+    created: number;
+    /** TODOs that already have a task */
+    skipped: number;
+    /** Tasks whose title had to be shortened; their description has the full text */
+    shortened: number;
+}
+
+/**
+ * Turns TODO/FIXME comments into tasks and maps item locations back to
+ * workspace files.
+ */
+export class TodoService {
+    private static instance: TodoService;
+
+    private constructor() { }
+
+    public static getInstance(): TodoService {
+        if (!TodoService.instance) {
+            TodoService.instance = new TodoService();
+        }
+        return TodoService.instance;
+    }
+
+    private get dataManager(): DataManager {
+        return DataManager.getInstance();
+    }
+
+    // The project of the file's workspace folder; undefined when that folder has none
+    public projectFor(uri: vscode.Uri): DataManager | undefined {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        return folder && DataManager.getProject(folder.uri.toString());
+    }
+
+    // Locations are relative to the folder of the project holding the item
+    public toLocation(uri: vscode.Uri, line: number, text?: string, dataManager = this.projectFor(uri) ?? this.dataManager): CodeLocation {
+        return {
+            file: path.relative(dataManager.getProjectPath(), uri.fsPath).replace(/\\/g, '/'),
+            line: line + 1,
+            ...(text !== undefined ? { text } : {})
+        };
+    }
+
+    public resolveLocation(location: CodeLocation, dataManager = this.dataManager): vscode.Uri | undefined {
+        return vscode.Uri.joinPath(dataManager.getFolder().uri, ...location.file.split('/'));
+    }
+
+    public async openLocation(location: CodeLocation, dataManager = this.dataManager): Promise<void> {
+        const uri = this.resolveLocation(location, dataManager);
+        if (!uri) {
+            return;
+        }
+        const line = Math.max(location.line - 1, 0);
+        await vscode.window.showTextDocument(uri, { selection: new vscode.Range(line, 0, line, 0) });
+    }
+
+    /**
+     * The task for a TODO comment. A comment too long for a title is
+     * shortened, noted in `warnings`, and kept whole in the description.
+     */
+    public toTaskData(
+        todo: TodoComment,
+        location: CodeLocation,
+        dataManager = this.dataManager,
+        warnings: string[] = []
+    ): Omit<Task, 'id' | 'createdAt' | 'updatedAt'> {
+        const workflow = dataManager.getWorkflowService().getWorkflow('task');
+        const title = shorten(todo.text, BASE_ITEM_SCHEMA.properties.title.maxLength, 'title', warnings);
+        const origin = `${todo.kind} in ${location.file}:${location.line}`;
+        return {
+            type: 'task',
+            title,
+            description: title === todo.text
+                ? origin
+                : shorten(`${todo.text}\n\n${origin}`, BASE_ITEM_SCHEMA.properties.description.maxLength, 'description', warnings),
+            status: (workflow.statuses[0] ?? 'todo') as Task['status'],
+            priority: todo.kind === 'FIXME' ? 'high' : 'medium',
+            tags: [todo.kind.toLowerCase()],
+            subtasks: [],
+            location
+        };
+    }
+
+    /**
+     * Creates a task for every TODO/FIXME comment in the workspace, in the
+     * project of the comment's workspace folder. A comment whose file and
+     * text match an existing item's location is skipped, so running it
+     * again only picks up new comments. Each project's tasks are added as
+     * one batch, which a single undo takes back.
+     */
+    public async importWorkspaceTodos(
+        progress?: vscode.Progress<{ message?: string; increment?: number }>,
+        token?: vscode.CancellationToken
+    ): Promise<TodoImportResult> {
+        const config = vscode.workspace.getConfiguration('docstocode.annotations');
+        const excluded = ReferenceService.getInstance().getExcludedFolders();
+        const files = await vscode.workspace.findFiles(
+            '**/*',
+            `**/{${excluded.join(',')}}/**`,
+            config.get<number>('maxFiles', 5000)
+        );
+
+        const imports = new Map<DataManager, { known: Set<string>; operations: BatchOperation[] }>();
+        const result: TodoImportResult = { created: 0, skipped: 0, shortened: 0 };
+        for (const uri of files) {
+            if (token?.isCancellationRequested) {
+                break;
+            }
+            progress?.report({ message: vscode.workspace.asRelativePath(uri), increment: 100 / files.length });
+
+            // Folders without a project have nowhere to put their tasks
+            const dataManager = this.projectFor(uri);
+            if (!dataManager) {
+                continue;
+            }
+
+            let text: string;
+            try {
+                text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+            } catch {
+                continue;
+            }
+            if (text.includes('\0')) {
+                continue;
+            }
+
+            let projectImport = imports.get(dataManager);
+            for (const todo of findTodos(text)) {
+                if (!projectImport) {
+                    projectImport = { known: await this.readKnownTodos(dataManager), operations: [] };
+                    imports.set(dataManager, projectImport);
+                }
+
+                const location = this.toLocation(uri, todo.line, todo.text, dataManager);
+                const key = `${location.file}\n${todo.text}`;
+                if (projectImport.known.has(key)) {
+                    result.skipped++;
+                    continue;
+                }
+
+                const now = new Date().toISOString();
+                const warnings: string[] = [];
+                const task = this.toTaskData(todo, location, dataManager, warnings);
+                if (warnings.length > 0) {
+                    result.shortened++;
+                }
+                projectImport.operations.push({
+                    kind: 'create',
+                    // applyBatch gives out the id
+                    item: { ...task, id: 'new', statusHistory: [{ status: task.status, at: now }], createdAt: now, updatedAt: now }
+                });
+                projectImport.known.add(key);
+            }
+        }
+
+        for (const [dataManager, { operations }] of imports) {
+            if (operations.length > 0) {
+                await dataManager.applyBatch(operations, 'Import TODOs');
+                result.created += operations.length;
+            }
+        }
+
+        return result;
+    }
+
+    // File and text of every item location, to tell which TODOs already have a task
+    private async readKnownTodos(dataManager: DataManager): Promise<Set<string>> {
+        const data = await dataManager.loadData();
+        return new Set(
+            [...data.features, ...data.bugs, ...data.tasks]
+                .filter(item => item.location?.text !== undefined)
+                .map(item => `${item.location!.file}\n${item.location!.text}`)
+        );
+    }
+}
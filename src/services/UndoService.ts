@@ -0,0 +1,146 @@
+import { DataManager, RecordedChange } from '@/services/DataManager';
+import * as vscode from 'vscode';
+
+interface UndoEntry {
+    /** Increases with every entry, so mark() can tell which came later */
+    seq: number;
+    manager: DataManager;
+    change: RecordedChange;
+}
+
+// Older changes drop off the bottom of the undo stack
+const MAX_UNDO_ENTRIES = 100;
+
+/**
+ * Undo and redo for item changes across all projects, in the order they
+ * were made. DataManager reports what reverts each change it saves;
+ * undoing applies that and keeps what reverts the undo for redo.
+ */
+export class UndoService implements vscode.Disposable {
+    private static instance: UndoService;
+    private undoStack: UndoEntry[] = [];
+    private redoStack: UndoEntry[] = [];
+    private nextSeq = 0;
+    private readonly subscriptions = new Map<DataManager, vscode.Disposable>();
+    private readonly projectsListener: vscode.Disposable;
+
+    private constructor() {
+        this.projectsListener = DataManager.onDidChangeProjects(() => this.subscribe());
+        this.subscribe();
+    }
+
+    public static getInstance(): UndoService {
+        if (!UndoService.instance) {
+            UndoService.instance = new UndoService();
+        }
+        return UndoService.instance;
+    }
+
+    // Follows projects being opened and closed with the workspace folders
+    private subscribe(): void {
+        const projects = new Set(DataManager.getProjects());
+        for (const [manager, subscription] of this.subscriptions) {
+            if (!projects.has(manager)) {
+                subscription.dispose();
+                this.subscriptions.delete(manager);
+                this.undoStack = this.undoStack.filter(entry => entry.manager !== manager);
+                this.redoStack = this.redoStack.filter(entry => entry.manager !== manager);
+            }
+        }
+        for (const manager of projects) {
+            if (!this.subscriptions.has(manager)) {
+                this.subscriptions.set(manager, manager.onDidRecordChange(change => this.record(manager, change)));
+            }
+        }
+    }
+
+    private record(manager: DataManager, change: RecordedChange): void {
+        this.undoStack.push({ seq: this.nextSeq++, manager, change });
+        if (this.undoStack.length > MAX_UNDO_ENTRIES) {
+            this.undoStack.shift();
+        }
+        // A new change makes the undone ones unreachable, like in an editor
+        this.redoStack = [];
+    }
+
+    // Pass to offerUndo() to undo everything recorded from now on
+    public mark(): number {
+        return this.nextSeq;
+    }
+
+    /** Reverts the latest change; returns its label, or undefined if there was none */
+    public async undo(): Promise<string | undefined> {
+        const entry = this.undoStack.pop();
+        if (!entry) {
+            return undefined;
+        }
+
+        try {
+            this.redoStack.push(await this.revert(entry));
+        } catch (error) {
+            this.undoStack.push(entry);
+            throw error;
+        }
+        return entry.change.label;
+    }
+
+    /** Re-applies the latest undone change; returns its label, or undefined if there was none */
+    public async redo(): Promise<string | undefined> {
+        const entry = this.redoStack.pop();
+        if (!entry) {
+            return undefined;
+        }
+
+        try {
+            this.undoStack.push(await this.revert(entry));
+        } catch (error) {
+            this.redoStack.push(entry);
+            throw error;
+        }
+        return entry.change.label;
+    }
+
+    /**
+     * Shows `message` with an "Undo" button that reverts the changes
+     * recorded since `mark`, even if others were made after them.
+     */
+    public offerUndo(message: string, mark: number): void {
+        if (!this.undoStack.some(entry => entry.seq >= mark)) {
+            vscode.window.showInformationMessage(message);
+            return;
+        }
+
+        vscode.window.showInformationMessage(message, 'Undo').then(async choice => {
+            if (choice !== 'Undo') {
+                return;
+            }
+            try {
+                for (const entry of this.undoStack.filter(candidate => candidate.seq >= mark).reverse()) {
+                    this.undoStack.splice(this.undoStack.indexOf(entry), 1);
+                    this.redoStack.push(await this.revert(entry));
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to undo: ${error instanceof Error ? error.message : error}`);
+            }
+        });
+    }
+
+    // Applies the entry's revert and returns the entry that reverts that again
+    private async revert({ manager, change }: UndoEntry): Promise<UndoEntry> {
+        const { revert } = change;
+        let reverse: RecordedChange['revert'];
+        if (revert.kind === 'batch') {
+            reverse = { kind: 'batch', operations: (await manager.applyBatch(revert.operations)).inverse };
+        } else {
+            reverse = { kind: 'replace', data: await manager.loadData() };
+            await manager.replaceData(revert.data);
+        }
+        return { seq: this.nextSeq++, manager, change: { label: change.label, revert: reverse } };
+    }
+
+    public dispose(): void {
+        this.projectsListener.dispose();
+        this.subscriptions.forEach(subscription => subscription.dispose());
+        this.subscriptions.clear();
+    }
+}
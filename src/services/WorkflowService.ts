@@ -0,0 +1,159 @@
+import { CLOSED_STATUSES, ProjectItem } from '@/schemas/project-schemas';
+import {
+    createPermissiveWorkflows,
+    WORKFLOW_TEMPLATE,
+    WorkflowDefinition,
+    Workflows,
+    WORKFLOWS_SCHEMA
+} from '@/schemas/workflow-schemas';
+import { WorkflowError } from '@/services/errors';
+import { writeFileAtomic } from '@/utils/fs';
+import { formatValidationErrors } from '@/utils/validation';
+import Ajv from 'ajv';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * Loads the per-type status workflows from .docsToCode/workflow.json and
+ * checks status changes against them. The workflow decides which statuses
+ * items can have; without workflow.json they are those of ITEM_STATUSES.
+ */
+export class WorkflowService {
+    private workflows: Workflows = createPermissiveWorkflows();
+    private readonly _onDidChangeWorkflows = new vscode.EventEmitter<Workflows>();
+    public readonly onDidChangeWorkflows = this._onDidChangeWorkflows.event;
+
+    constructor(
+        private readonly dataPath: string,
+        private readonly ajv: Ajv
+    ) { }
+
+    public getWorkflowPath(): string {
+        return path.join(this.dataPath, 'workflow.json');
+    }
+
+    public getWorkflows(): Workflows {
+        return this.workflows;
+    }
+
+    public getWorkflow(type: ProjectItem['type']): WorkflowDefinition {
+        return this.workflows[type];
+    }
+
+    // Statuses in which an item of the type is finished with
+    public getClosedStatuses(type: ProjectItem['type']): string[] {
+        return this.workflows[type].closed ?? CLOSED_STATUSES[type];
+    }
+
+    public getAllClosedStatuses(): Record<ProjectItem['type'], string[]> {
+        return {
+            feature: this.getClosedStatuses('feature'),
+            bug: this.getClosedStatuses('bug'),
+            task: this.getClosedStatuses('task')
+        };
+    }
+
+    /**
+     * Re-reads workflow.json. A missing file means any transition is
+     * allowed; an invalid one is reported and the previous workflows stay.
+     */
+    public async load(): Promise<void> {
+        let rawData: string;
+        try {
+            rawData = await fs.readFile(this.getWorkflowPath(), 'utf-8');
+        } catch {
+            this.setWorkflows(createPermissiveWorkflows());
+            return;
+        }
+
+        try {
+            this.setWorkflows(this.parse(rawData));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Invalid workflow.json, keeping the previous workflow: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    private parse(rawData: string): Workflows {
+        const parsed = JSON.parse(rawData);
+
+        const validate = this.ajv.compile(WORKFLOWS_SCHEMA);
+        if (!validate(parsed)) {
+            throw new Error(formatValidationErrors(parsed, validate.errors ?? []).join('; '));
+        }
+
+        const workflows = { ...createPermissiveWorkflows(), ...(parsed as Partial<Workflows>) };
+
+        for (const type of Object.keys(workflows) as ProjectItem['type'][]) {
+            const { statuses, transitions, closed } = workflows[type];
+            const unknown = (closed ?? []).filter(status => !statuses.includes(status));
+            if (unknown.length > 0) {
+                throw new Error(`${type} closed statuses are not listed for ${type}: ${unknown.join(', ')}`);
+            }
+
+            for (const [from, targets] of Object.entries(transitions)) {
+                const invalid = [from, ...targets].filter(status => !statuses.includes(status));
+                if (invalid.length > 0) {
+                    throw new Error(`${type} transition from "${from}" uses statuses not listed for ${type}: ${invalid.join(', ')}`);
+                }
+            }
+        }
+
+        return workflows;
+    }
+
+    private setWorkflows(workflows: Workflows): void {
+        this.workflows = workflows;
+        this._onDidChangeWorkflows.fire(workflows);
+    }
+
+    // Writes the template workflow unless the project already has one
+    public async createWorkflowFile(): Promise<boolean> {
+        try {
+            await fs.access(this.getWorkflowPath());
+            return false;
+        } catch {
+            await writeFileAtomic(this.getWorkflowPath(), JSON.stringify(WORKFLOW_TEMPLATE, null, 2));
+            await this.load();
+            return true;
+        }
+    }
+
+    /**
+     * Throws a WorkflowError if `item` may not enter its status, coming from
+     * `previousStatus` (undefined for a new item).
+     */
+    public assertTransition(item: ProjectItem, previousStatus: string | undefined): void {
+        if (previousStatus === item.status) {
+            return;
+        }
+
+        const workflow = this.getWorkflow(item.type);
+
+        if (!workflow.statuses.includes(item.status)) {
+            throw new WorkflowError(`"${item.status}" is not a ${item.type} status in this project's workflow`);
+        }
+
+        if (previousStatus !== undefined) {
+            const allowed = workflow.transitions[previousStatus] ?? [];
+            if (!allowed.includes(item.status)) {
+                const options = allowed.length > 0 ? allowed.join(', ') : 'none';
+                throw new WorkflowError(
+                    `A ${item.type} cannot move from "${previousStatus}" to "${item.status}" (allowed: ${options})`
+                );
+            }
+        }
+
+        const guard = workflow.guards?.[item.status];
+        const record = item as unknown as Record<string, unknown>;
+        const missing = (guard?.requires ?? []).filter(field => {
+            const value = record[field];
+            return value === undefined || value === null || value === '' ||
+                (Array.isArray(value) && value.length === 0);
+        });
+
+        if (missing.length > 0) {
+            throw new WorkflowError(`Moving a ${item.type} to "${item.status}" requires ${missing.join(', ')}`);
+        }
+    }
+}
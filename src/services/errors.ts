@@ -0,0 +1,65 @@
+import { ProjectItem } from '@/schemas/project-schemas';
+import { FieldConflict } from '@/utils/merge';
+
+/**
+ * Raised by a compare-and-swap save when project-data.json was rewritten by
+ * another writer after it was read.
+ */
+export class ConcurrentModificationError extends Error {
+    constructor() {
+        super('Project data was modified by another writer');
+        this.name = 'ConcurrentModificationError';
+    }
+}
+
+/**
+ * Raised when an update touches fields that were also changed, to different
+ * values, since the caller read the item.
+ */
+export class MergeConflictError extends Error {
+    constructor(
+        public readonly type: ProjectItem['type'],
+        public readonly id: string,
+        public readonly conflicts: FieldConflict[],
+        public readonly latest: ProjectItem
+    ) {
+        super(`Conflicting changes to ${conflicts.map(conflict => conflict.field).join(', ')}`);
+        this.name = 'MergeConflictError';
+    }
+}
+
+/**
+ * Raised when project-data.json cannot be parsed or fails validation.
+ * Carries the raw content so recovery can report what would be lost.
+ */
+export class CorruptDataError extends Error {
+    constructor(
+        message: string,
+        public readonly rawData: string
+    ) {
+        super(message);
+        this.name = 'CorruptDataError';
+    }
+}
+
+/**
+ * Raised when project data is in a format version this extension cannot
+ * migrate, e.g. a file written by a newer release.
+ */
+export class MigrationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MigrationError';
+    }
+}
+
+/**
+ * Raised when a status change is not allowed by the project's workflow
+ * definition or one of its guards.
+ */
+export class WorkflowError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WorkflowError';
+    }
+}
@@ -0,0 +1,39 @@
+import { ProjectItem } from '@/schemas/project-schemas';
+
+export interface Annotation {
+    type: ProjectItem['type'];
+    id: string;
+    /** Offset and length of the whole annotation, e.g. `DTC-BUG: 42` */
+    offset: number;
+    length: number;
+}
+
+// `DTC-BUG: <id>` (colon optional) or `@bug <id>`, for features, bugs and tasks.
+// Ids must contain a digit so prose such as "@bug in the parser" is ignored.
+const ANNOTATION_PATTERN = /\bDTC-(FEATURE|BUG|TASK):?\s*((?=[\w.-]*\d)[\w.-]+)|@(feature|bug|task)\s+((?=[\w.-]*\d)[\w.-]+)/gi;
+
+/**
+ * Finds item references in source text. Matches anywhere in the text, so
+ * the same syntax works in any language's comments and in Markdown.
+ */
+export function findAnnotations(text: string): Annotation[] {
+    const annotations: Annotation[] = [];
+
+    for (const match of text.matchAll(ANNOTATION_PATTERN)) {
+        const type = (match[1] ?? match[3])!.toLowerCase() as ProjectItem['type'];
+        // Ids never end in punctuation; "see DTC-BUG: 42." refers to 42
+        const id = (match[2] ?? match[4])!.replace(/[.-]+$/, '');
+        if (!id) {
+            continue;
+        }
+
+        annotations.push({
+            type,
+            id,
+            offset: match.index!,
+            length: match[0].length - ((match[2] ?? match[4])!.length - id.length)
+        });
+    }
+
+    return annotations;
+}
@@ -0,0 +1,63 @@
+/**
+ * CSV as described in RFC 4180: comma separated, fields with commas,
+ * quotes or line breaks quoted, quotes doubled. Spreadsheets write a byte
+ * order mark and CRLF line ends, both are accepted.
+ */
+
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+    for (let index = 0; index < input.length; index++) {
+        const char = input[index];
+
+        if (quoted) {
+            if (char === '"' && input[index + 1] === '"') {
+                field += '"';
+                index++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[index + 1] === '\n') {
+                index++;
+            }
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+function formatField(value: string): string {
+    return /[",\r\n]/.test(value) || value !== value.trim()
+        ? `"${value.replace(/"/g, '""')}"`
+        : value;
+}
+
+export function formatCsv(rows: string[][]): string {
+    return rows.map(row => row.map(formatField).join(',')).join('\r\n') + '\r\n';
+}
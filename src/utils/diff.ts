@@ -0,0 +1,48 @@
+import { ProjectData, ProjectItem } from '@/schemas/project-schemas';
+
+export interface ItemRef {
+    type: ProjectItem['type'];
+    id: string;
+}
+
+export interface ProjectDataChanges {
+    added: ProjectItem[];
+    updated: ProjectItem[];
+    removed: ItemRef[];
+}
+
+export function getAllItems(data: ProjectData): ProjectItem[] {
+    return [...data.features, ...data.bugs, ...data.tasks];
+}
+
+function itemKey(item: ItemRef): string {
+    return `${item.type}:${item.id}`;
+}
+
+// Compares two snapshots item by item, keyed by type and id
+export function diffProjectData(previous: ProjectData, next: ProjectData): ProjectDataChanges {
+    const previousItems = new Map(getAllItems(previous).map(item => [itemKey(item), item]));
+    const changes: ProjectDataChanges = { added: [], updated: [], removed: [] };
+
+    for (const item of getAllItems(next)) {
+        const key = itemKey(item);
+        const before = previousItems.get(key);
+        previousItems.delete(key);
+
+        if (!before) {
+            changes.added.push(item);
+        } else if (JSON.stringify(before) !== JSON.stringify(item)) {
+            changes.updated.push(item);
+        }
+    }
+
+    for (const item of previousItems.values()) {
+        changes.removed.push({ type: item.type, id: item.id });
+    }
+
+    return changes;
+}
+
+export function hasChanges(changes: ProjectDataChanges): boolean {
+    return changes.added.length > 0 || changes.updated.length > 0 || changes.removed.length > 0;
+}
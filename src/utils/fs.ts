@@ -0,0 +1,29 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Writes a file by writing a sibling temp file, flushing it to disk and
+ * renaming it over the target. Readers see either the old or the new
+ * content, never a partial write.
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+    const tempPath = path.join(
+        path.dirname(filePath),
+        `.${path.basename(filePath)}.${process.pid}.${Date.now()}.tmp`
+    );
+
+    const handle = await fs.open(tempPath, 'w');
+    try {
+        await handle.writeFile(content, 'utf-8');
+        await handle.sync();
+    } finally {
+        await handle.close();
+    }
+
+    try {
+        await fs.rename(tempPath, filePath);
+    } catch (error) {
+        await fs.unlink(tempPath).catch(() => undefined);
+        throw error;
+    }
+}
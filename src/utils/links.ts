@@ -0,0 +1,112 @@
+import { ItemLink, LinkType, ProjectData, ProjectItem } from '@/schemas/project-schemas';
+import { getAllItems, ItemRef } from '@/utils/diff';
+
+export const INVERSE_LINK_TYPES: Record<LinkType, LinkType> = {
+    'blocks': 'blocked-by',
+    'blocked-by': 'blocks',
+    'relates-to': 'relates-to',
+    'duplicate-of': 'duplicated-by',
+    'duplicated-by': 'duplicate-of',
+    'implements': 'implemented-by',
+    'implemented-by': 'implements',
+    'parent-of': 'child-of',
+    'child-of': 'parent-of'
+};
+
+export interface DanglingLink {
+    source: ProjectItem;
+    link: ItemLink;
+    index: number;
+}
+
+export function findItem(data: ProjectData, ref: ItemRef): ProjectItem | undefined {
+    return getAllItems(data).find(item => item.type === ref.type && item.id === ref.id);
+}
+
+function sameLink(a: ItemLink, b: ItemLink): boolean {
+    return a.type === b.type && a.targetType === b.targetType && a.targetId === b.targetId;
+}
+
+function linkKey(link: ItemLink): string {
+    return `${link.type}:${link.targetType}:${link.targetId}`;
+}
+
+export function findDanglingLinks(data: ProjectData): DanglingLink[] {
+    const dangling: DanglingLink[] = [];
+
+    for (const source of getAllItems(data)) {
+        (source.links ?? []).forEach((link, index) => {
+            if (!findItem(data, { type: link.targetType, id: link.targetId })) {
+                dangling.push({ source, link, index });
+            }
+        });
+    }
+
+    return dangling;
+}
+
+// Throws if any link of `item` points at itself or at an item that does not exist
+export function assertLinksResolve(data: ProjectData, item: ProjectItem): void {
+    for (const link of item.links ?? []) {
+        if (link.targetType === item.type && link.targetId === item.id) {
+            throw new Error('An item cannot be linked to itself');
+        }
+        if (!findItem(data, { type: link.targetType, id: link.targetId })) {
+            throw new Error(`Linked ${link.targetType} ${link.targetId} does not exist`);
+        }
+    }
+}
+
+/**
+ * Brings the inverse links on target items in line with `item.links`,
+ * given the links the item had before. Returns the targets that changed.
+ */
+export function syncInverseLinks(data: ProjectData, item: ProjectItem, previous: ItemLink[]): ProjectItem[] {
+    const current = item.links ?? [];
+    const currentKeys = new Set(current.map(linkKey));
+    const previousKeys = new Set(previous.map(linkKey));
+    const touched = new Set<ProjectItem>();
+
+    for (const link of previous.filter(link => !currentKeys.has(linkKey(link)))) {
+        const target = findItem(data, { type: link.targetType, id: link.targetId });
+        if (!target?.links) continue;
+
+        const inverse: ItemLink = { type: INVERSE_LINK_TYPES[link.type], targetType: item.type, targetId: item.id };
+        const remaining = target.links.filter(existing => !sameLink(existing, inverse));
+        if (remaining.length !== target.links.length) {
+            target.links = remaining;
+            touched.add(target);
+        }
+    }
+
+    for (const link of current.filter(link => !previousKeys.has(linkKey(link)))) {
+        const target = findItem(data, { type: link.targetType, id: link.targetId });
+        if (!target) continue;
+
+        const inverse: ItemLink = { type: INVERSE_LINK_TYPES[link.type], targetType: item.type, targetId: item.id };
+        const links = target.links ?? [];
+        if (!links.some(existing => sameLink(existing, inverse))) {
+            target.links = [...links, inverse];
+            touched.add(target);
+        }
+    }
+
+    return [...touched];
+}
+
+// Drops every link that points at `ref`, e.g. after it was deleted
+export function removeLinksTo(data: ProjectData, ref: ItemRef): ProjectItem[] {
+    const touched: ProjectItem[] = [];
+
+    for (const item of getAllItems(data)) {
+        if (!item.links) continue;
+
+        const remaining = item.links.filter(link => !(link.targetType === ref.type && link.targetId === ref.id));
+        if (remaining.length !== item.links.length) {
+            item.links = remaining;
+            touched.push(item);
+        }
+    }
+
+    return touched;
+}
@@ -0,0 +1,145 @@
+import { ProjectItem } from '@/schemas/project-schemas';
+
+/**
+ * Items as Markdown files with YAML front matter. The front matter uses a
+ * small YAML subset: one `key: value` per line where the value is a plain
+ * scalar or JSON (which YAML also accepts), so files written here stay
+ * readable by any YAML parser and simple hand edits parse back.
+ */
+
+// Fields kept in the Markdown body, per type, as a list under a heading
+const BODY_LISTS: Partial<Record<ProjectItem['type'], { field: string; heading: string; ordered: boolean }>> = {
+    feature: { field: 'acceptanceCriteria', heading: 'Acceptance Criteria', ordered: false },
+    bug: { field: 'stepsToReproduce', heading: 'Steps to Reproduce', ordered: true }
+};
+
+const SECTION_HEADING = /^##\s+(Acceptance Criteria|Steps to Reproduce)\s*$/im;
+// Lines of a description that read as a section heading, with any backslashes escaping them
+const ESCAPED_HEADING = /^(\\*)(##\s+(?:Acceptance Criteria|Steps to Reproduce)\s*)$/gim;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/;
+
+// List entries that would not read back as written: on several lines, padded, empty or already quoted
+function needsListQuotes(entry: string): boolean {
+    return entry === '' || /[\r\n]/.test(entry) || entry.trim() !== entry || entry.startsWith('"');
+}
+
+// Strings a YAML parser would read as something else, e.g. `true`, `42` or a date
+function needsQuotes(value: string): boolean {
+    return !/^[A-Za-z0-9_][\w .,/()+-]*$/.test(value) ||
+        value.endsWith(' ') ||
+        /^(true|false|null|yes|no|on|off|~)$/i.test(value) ||
+        !Number.isNaN(Number(value)) ||
+        /^\d{4}-\d{2}-\d{2}/.test(value);
+}
+
+export function formatFrontMatterValue(value: unknown): string {
+    if (typeof value === 'string') {
+        return needsQuotes(value) ? JSON.stringify(value) : value;
+    }
+    if (Array.isArray(value) && value.every(element => typeof element !== 'object' || element === null)) {
+        return `[${value.map(element => JSON.stringify(element)).join(', ')}]`;
+    }
+    return JSON.stringify(value);
+}
+
+export function parseFrontMatterValue(text: string): unknown {
+    const value = text.trim();
+    try {
+        return JSON.parse(value);
+    } catch {
+        // Not JSON: a plain or single-quoted YAML scalar
+    }
+    if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+        return value.slice(1, -1).replace(/''/g, "'");
+    }
+    if (value === '~') {
+        return null;
+    }
+    return value;
+}
+
+function parseListEntry(text: string): string {
+    if (text.startsWith('"')) {
+        try {
+            const value: unknown = JSON.parse(text);
+            if (typeof value === 'string') {
+                return value;
+            }
+        } catch {
+            // Not quoted by serializeItem, kept as written
+        }
+    }
+    return text;
+}
+
+export function serializeItem(item: ProjectItem): string {
+    const list = BODY_LISTS[item.type];
+    const fields = item as unknown as Record<string, unknown>;
+
+    const frontMatter = Object.entries(fields)
+        .filter(([field, value]) => value !== undefined && field !== 'description' && field !== list?.field)
+        .map(([field, value]) => `${field}: ${formatFrontMatterValue(value)}`);
+
+    // Such a line gets one more backslash, so it stays part of the description
+    const description = item.description.replace(ESCAPED_HEADING, '\\$1$2');
+    // parseItem takes off exactly the newline added on each side
+    let body = description ? `\n${description}\n` : '';
+    if (list) {
+        const entries = (fields[list.field] as string[] | undefined) ?? [];
+        body += `\n## ${list.heading}\n\n`;
+        body += entries
+            .map(entry => needsListQuotes(entry) ? JSON.stringify(entry) : entry)
+            .map((entry, index) => `${list.ordered ? `${index + 1}.` : '-'} ${entry}\n`)
+            .join('');
+    }
+
+    return `---\n${frontMatter.join('\n')}\n---\n${body}`;
+}
+
+/**
+ * Reads an item file back into an object. The result is not validated;
+ * throws only when the file has no front matter at all.
+ */
+export function parseItem(content: string): Record<string, unknown> {
+    // Line endings are only rewritten for files saved with CRLF, a lone \r may be part of the text
+    const text = content.startsWith('---\r\n') ? content.replace(/\r\n/g, '\n') : content;
+    const match = /^---\n([\s\S]*?)\n---(?:\n|$)/.exec(text);
+    if (!match) {
+        throw new Error('missing front matter');
+    }
+
+    const item: Record<string, unknown> = {};
+    for (const line of (match[1] ?? '').split('\n')) {
+        const field = /^([A-Za-z_][\w-]*):\s*(.*)$/.exec(line);
+        if (field?.[1] && field[2] !== undefined && field[2] !== '') {
+            item[field[1]] = parseFrontMatterValue(field[2]);
+        }
+    }
+
+    const body = text.slice(match[0].length);
+    const heading = SECTION_HEADING.exec(body);
+    // The newline serializeItem adds on each side, and the blank line before a heading
+    item['description'] = (heading ? body.slice(0, heading.index).replace(/\n$/, '') : body)
+        .replace(/^\n/, '')
+        .replace(/\n$/, '')
+        .replace(ESCAPED_HEADING, (line, backslashes: string, headingText: string) => backslashes ? backslashes.slice(1) + headingText : line);
+
+    const list = BODY_LISTS[item['type'] as ProjectItem['type']];
+    if (list) {
+        const entries: string[] = [];
+        if (heading) {
+            for (const line of body.slice(heading.index + heading[0].length).split('\n')) {
+                const entry = LIST_ITEM.exec(line);
+                if (entry) {
+                    entries.push(parseListEntry(entry[1] ?? ''));
+                } else if (line.trim() && entries.length > 0) {
+                    // Continuation of an entry wrapped by hand; serializeItem quotes entries on several lines
+                    entries[entries.length - 1] += ` ${line.trim()}`;
+                }
+            }
+        }
+        item[list.field] = entries;
+    }
+
+    return item;
+}
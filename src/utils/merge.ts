@@ -0,0 +1,47 @@
+export interface FieldConflict {
+    field: string;
+    base: unknown;
+    ours: unknown;
+    theirs: unknown;
+}
+
+export interface MergeResult {
+    merged: Record<string, unknown>;
+    conflicts: FieldConflict[];
+}
+
+export function valuesEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Three-way merge of a set of field updates. `base` is the item the caller
+ * started editing from, `theirs` is the item currently stored and `updates`
+ * holds the caller's field values. Fields the caller left untouched keep the
+ * stored value; a field changed on both sides to different values conflicts.
+ */
+export function mergeItemUpdates(
+    base: Record<string, unknown>,
+    theirs: Record<string, unknown>,
+    updates: Record<string, unknown>
+): MergeResult {
+    const merged: Record<string, unknown> = {};
+    const conflicts: FieldConflict[] = [];
+
+    for (const [field, ours] of Object.entries(updates)) {
+        const baseValue = base[field];
+        const theirValue = theirs[field];
+
+        if (valuesEqual(ours, theirValue) || valuesEqual(ours, baseValue)) {
+            continue;
+        }
+
+        if (valuesEqual(baseValue, theirValue)) {
+            merged[field] = ours;
+        } else {
+            conflicts.push({ field, base: baseValue, ours, theirs: theirValue });
+        }
+    }
+
+    return { merged, conflicts };
+}
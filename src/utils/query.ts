@@ -0,0 +1,247 @@
+import { CustomFieldDefinition } from '@/schemas/config-schemas';
+import { ProjectData, ProjectItem } from '@/schemas/project-schemas';
+import { getAllItems } from '@/utils/diff';
+
+/**
+ * Query language for searching items, e.g.
+ * `type:bug severity:>=high assignee:me tag:frontend updated:<7d "login"`.
+ *
+ * - `field:value` matches a field, custom fields by their name;
+ *   `field:a,b` matches either value
+ * - `>`, `>=`, `<`, `<=` compare ordered values (priority, severity, the
+ *   options of custom enums), numbers, dates and relative ages such as
+ *   `7d`, `2w`, `12h`
+ * - `-term` negates a term
+ * - bare words and "quoted phrases" search title, description, tags, id,
+ *   the id of an imported issue and the text of custom fields
+ */
+
+export type QueryOperator = '=' | '>' | '>=' | '<' | '<=';
+
+export interface FieldTerm {
+    kind: 'field';
+    field: string;
+    operator: QueryOperator;
+    values: string[];
+    negated: boolean;
+}
+
+export interface TextTerm {
+    kind: 'text';
+    text: string;
+    negated: boolean;
+}
+
+export type QueryTerm = FieldTerm | TextTerm;
+
+export interface QueryContext {
+    /** Value `assignee:me` resolves to */
+    me: string;
+    now: Date;
+    /** The project's custom fields, to compare their values by type */
+    customFields?: CustomFieldDefinition[];
+}
+
+const FIELD_ALIASES: Record<string, string> = {
+    tags: 'tag',
+    points: 'storyPoints',
+    estimate: 'estimatedHours',
+    actual: 'actualHours',
+    due: 'dueDate',
+    updated: 'updatedAt',
+    created: 'createdAt'
+};
+
+// Names a query uses for something other than the item field of that name
+export function isQueryAlias(name: string): boolean {
+    return name === 'tag' || FIELD_ALIASES[name] !== undefined;
+}
+
+const LEVELS = ['low', 'medium', 'high', 'critical'];
+
+const ORDERED_FIELDS: Record<string, string[]> = {
+    priority: LEVELS,
+    severity: LEVELS
+};
+
+const DATE_FIELDS = new Set(['updatedAt', 'createdAt', 'dueDate']);
+
+const DURATION_UNITS: Record<string, number> = {
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
+    m: 30 * 24 * 60 * 60 * 1000,
+    y: 365 * 24 * 60 * 60 * 1000
+};
+
+const DURATION_PATTERN = /^(\d+(?:\.\d+)?)([hdwmy])$/;
+
+// Splits on whitespace, keeping "quoted phrases" (also as field values) together
+function tokenize(query: string): string[] {
+    const tokens: string[] = [];
+    const pattern = /(?:[^\s"]+|"[^"]*"?)+/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(query)) !== null) {
+        tokens.push(match[0]);
+    }
+    return tokens;
+}
+
+function unquote(value: string): string {
+    return value.replace(/"/g, '');
+}
+
+export function parseQuery(query: string): QueryTerm[] {
+    return tokenize(query).map(token => {
+        const negated = token.length > 1 && token.startsWith('-');
+        const body = negated ? token.slice(1) : token;
+        const fieldMatch = /^([A-Za-z][\w-]*):(.*)$/.exec(body);
+
+        if (!fieldMatch || body.startsWith('"')) {
+            return { kind: 'text', text: unquote(body).toLowerCase(), negated };
+        }
+
+        const field = fieldMatch[1]!;
+        const operatorMatch = /^(>=|<=|>|<|=)?(.*)$/.exec(fieldMatch[2]!)!;
+        const operator = (operatorMatch[1] ?? '=') as QueryOperator;
+        const values = unquote(operatorMatch[2]!).split(',').map(value => value.trim()).filter(Boolean);
+
+        if (values.length === 0) {
+            throw new Error(`Missing value for "${field}:"`);
+        }
+        if (operator !== '=' && values.length > 1) {
+            throw new Error(`"${field}:${operator}" takes a single value`);
+        }
+
+        return {
+            kind: 'field',
+            field: FIELD_ALIASES[field] ?? field,
+            operator,
+            values,
+            negated
+        };
+    });
+}
+
+function compare(actual: number, operator: QueryOperator, expected: number): boolean {
+    switch (operator) {
+        case '>': return actual > expected;
+        case '>=': return actual >= expected;
+        case '<': return actual < expected;
+        case '<=': return actual <= expected;
+        default: return actual === expected;
+    }
+}
+
+function matchesDate(raw: unknown, term: FieldTerm, value: string, context: QueryContext): boolean {
+    if (typeof raw !== 'string') {
+        return false;
+    }
+    const time = new Date(raw).getTime();
+
+    // Relative values compare distance from now: age for past dates, time left for due dates
+    const duration = DURATION_PATTERN.exec(value);
+    if (duration) {
+        const limit = Number(duration[1]) * DURATION_UNITS[duration[2]!]!;
+        const distance = term.field === 'dueDate'
+            ? time - context.now.getTime()
+            : context.now.getTime() - time;
+        return compare(distance, term.operator === '=' ? '<=' : term.operator, limit);
+    }
+
+    const expected = new Date(value);
+    if (isNaN(expected.getTime())) {
+        throw new Error(`"${value}" is not a date or a duration like 7d`);
+    }
+
+    if (term.operator === '=') {
+        return raw.slice(0, 10) === value.slice(0, 10);
+    }
+    return compare(time, term.operator, expected.getTime());
+}
+
+function matchesValue(item: ProjectItem, term: FieldTerm, value: string, context: QueryContext): boolean {
+    const record = item as unknown as Record<string, unknown>;
+    const expected = value.toLowerCase();
+    const custom = context.customFields?.find(field => field.name === term.field);
+
+    switch (term.field) {
+        case 'type':
+            return item.type === expected.replace(/s$/, '');
+
+        case 'tag':
+            return item.tags.some(tag => tag.toLowerCase() === expected);
+
+        case 'assignee':
+            if (expected === 'none') {
+                return !item.assignee;
+            }
+            return (item.assignee ?? '').toLowerCase() === (expected === 'me' ? context.me.toLowerCase() : expected);
+
+        case 'title':
+        case 'description':
+            return String(record[term.field] ?? '').toLowerCase().includes(expected);
+    }
+
+    // Custom field names never clash with built-in ones, see ConfigService
+    const raw = record[term.field] ?? item.customFields?.[term.field];
+
+    if (DATE_FIELDS.has(term.field) || custom?.type === 'date') {
+        return matchesDate(raw, term, value, context);
+    }
+    if (custom?.type === 'user' && expected === 'me') {
+        return typeof raw === 'string' && raw.toLowerCase() === context.me.toLowerCase();
+    }
+
+    const levels = ORDERED_FIELDS[term.field] ?? (custom?.type === 'enum' ? custom.options?.map(option => option.toLowerCase()) : undefined);
+    if (levels && term.operator !== '=') {
+        const expectedLevel = levels.indexOf(expected);
+        if (expectedLevel === -1) {
+            throw new Error(`"${value}" is not a ${term.field}; use ${levels.join(', ')}`);
+        }
+        return typeof raw === 'string' && compare(levels.indexOf(raw.toLowerCase()), term.operator, expectedLevel);
+    }
+
+    if (term.operator !== '=') {
+        const number = Number(value);
+        if (isNaN(number)) {
+            throw new Error(`"${term.field}:${term.operator}" needs a number`);
+        }
+        return typeof raw === 'number' && compare(raw, term.operator, number);
+    }
+
+    if (Array.isArray(raw)) {
+        return raw.some(entry => String(entry).toLowerCase() === expected);
+    }
+    return raw !== undefined && raw !== null && String(raw).toLowerCase() === expected;
+}
+
+function matchesTerm(item: ProjectItem, term: QueryTerm, context: QueryContext): boolean {
+    if (term.kind === 'text') {
+        const haystack = [
+            item.id,
+            item.externalRef?.id ?? '',
+            item.title,
+            item.description,
+            ...item.tags,
+            ...Object.values(item.customFields ?? {}).flat().map(String)
+        ].join('\n').toLowerCase();
+        return haystack.includes(term.text);
+    }
+    return term.values.some(value => matchesValue(item, term, value, context));
+}
+
+export function matchesQuery(item: ProjectItem, terms: QueryTerm[], context: QueryContext): boolean {
+    return terms.every(term => matchesTerm(item, term, context) !== term.negated);
+}
+
+/**
+ * Items across all collections matching `query`, most recently updated first.
+ * Throws an Error describing the problem if the query is malformed.
+ */
+export function searchItems(data: ProjectData, query: string, context: QueryContext): ProjectItem[] {
+    const terms = parseQuery(query);
+    return getAllItems(data)
+        .filter(item => matchesQuery(item, terms, context))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
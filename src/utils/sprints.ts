@@ -0,0 +1,155 @@
+import { CLOSED_STATUSES, ProjectData, ProjectItem, Sprint } from '@/schemas/project-schemas';
+import { getAllItems } from '@/utils/diff';
+
+export type SprintUnit = 'points' | 'items';
+
+export interface BurndownPoint {
+    date: string;
+    /** Work left at the end of the day; null for days still ahead */
+    remaining: number | null;
+    ideal: number;
+}
+
+export interface Burndown {
+    sprintId: string;
+    unit: SprintUnit;
+    total: number;
+    days: BurndownPoint[];
+}
+
+export interface VelocityEntry {
+    sprintId: string;
+    name: string;
+    committed: number;
+    completed: number;
+}
+
+export interface Velocity {
+    unit: SprintUnit;
+    sprints: VelocityEntry[];
+    /** Mean completed work over the listed sprints */
+    average: number;
+}
+
+// How many finished sprints the velocity chart looks back over
+const VELOCITY_SPRINTS = 6;
+
+// Local YYYY-MM-DD, the format of sprint dates
+export function toDateString(date: Date): string {
+    const pad = (value: number): string => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function endOfDay(date: string): Date {
+    return new Date(`${date}T23:59:59.999`);
+}
+
+function eachDay(startDate: string, endDate: string): string[] {
+    const days: string[] = [];
+    for (const day = new Date(`${startDate}T00:00:00`); toDateString(day) <= endDate; day.setDate(day.getDate() + 1)) {
+        days.push(toDateString(day));
+    }
+    return days;
+}
+
+export function itemPoints(item: ProjectItem): number {
+    return item.type === 'feature' ? item.storyPoints ?? 0 : 0;
+}
+
+export function getSprintItems(data: ProjectData, sprint: Sprint): ProjectItem[] {
+    const ids = new Set(sprint.itemIds);
+    return getAllItems(data).filter(item => ids.has(item.id));
+}
+
+// Story points when any of the items is estimated, otherwise a plain item count
+export function getSprintUnit(items: ProjectItem[]): SprintUnit {
+    return items.some(item => itemPoints(item) > 0) ? 'points' : 'items';
+}
+
+function measure(items: ProjectItem[], unit: SprintUnit): number {
+    return unit === 'points' ? items.reduce((total, item) => total + itemPoints(item), 0) : items.length;
+}
+
+/**
+ * Whether the item was in a closed status at `time`, going by its status
+ * history. Items saved before history was recorded count as closed from
+ * their last update if they are closed now. `closed` holds the closed
+ * statuses of the project's workflow.
+ */
+export function wasClosedAt(item: ProjectItem, time: Date, closed = CLOSED_STATUSES): boolean {
+    const history = item.statusHistory ?? [];
+    if (history.length === 0) {
+        return closed[item.type].includes(item.status) && new Date(item.updatedAt) <= time;
+    }
+
+    const last = [...history].reverse().find(change => new Date(change.at) <= time);
+    return !!last && closed[item.type].includes(last.status);
+}
+
+export function isSprintActive(sprint: Sprint, now: Date): boolean {
+    const today = toDateString(now);
+    return sprint.startDate <= today && today <= sprint.endDate;
+}
+
+// The sprint running today, else the next one to start, else the last to end
+export function getCurrentSprint(sprints: Sprint[], now: Date): Sprint | undefined {
+    const today = toDateString(now);
+    const byStart = [...sprints].sort((a, b) => a.startDate.localeCompare(b.startDate));
+    return byStart.find(sprint => isSprintActive(sprint, now)) ??
+        byStart.find(sprint => sprint.startDate > today) ??
+        byStart.filter(sprint => sprint.endDate < today).pop();
+}
+
+/**
+ * Work remaining at the end of each sprint day for the items committed now,
+ * next to the straight line from the full commitment down to zero.
+ */
+export function computeBurndown(data: ProjectData, sprint: Sprint, now: Date, closed = CLOSED_STATUSES): Burndown {
+    const items = getSprintItems(data, sprint);
+    const unit = getSprintUnit(items);
+    const total = measure(items, unit);
+    const days = eachDay(sprint.startDate, sprint.endDate);
+    const today = toDateString(now);
+
+    return {
+        sprintId: sprint.id,
+        unit,
+        total,
+        days: days.map((date, index) => ({
+            date,
+            remaining: date > today
+                ? null
+                : measure(items.filter(item => !wasClosedAt(item, endOfDay(date), closed)), unit),
+            ideal: days.length > 1 ? total * (1 - index / (days.length - 1)) : 0
+        }))
+    };
+}
+
+// Committed against completed work for the most recently finished sprints
+export function computeVelocity(data: ProjectData, now: Date, closed = CLOSED_STATUSES): Velocity {
+    const today = toDateString(now);
+    const finished = data.sprints
+        .filter(sprint => sprint.endDate < today)
+        .sort((a, b) => a.endDate.localeCompare(b.endDate))
+        .slice(-VELOCITY_SPRINTS);
+
+    const sprintItems = finished.map(sprint => getSprintItems(data, sprint));
+    const unit = getSprintUnit(sprintItems.flat());
+    const sprints = finished.map((sprint, index) => {
+        const items = sprintItems[index] ?? [];
+        return {
+            sprintId: sprint.id,
+            name: sprint.name,
+            committed: measure(items, unit),
+            completed: measure(items.filter(item => wasClosedAt(item, endOfDay(sprint.endDate), closed)), unit)
+        };
+    });
+
+    return {
+        unit,
+        sprints,
+        average: sprints.length > 0
+            ? sprints.reduce((total, entry) => total + entry.completed, 0) / sprints.length
+            : 0
+    };
+}
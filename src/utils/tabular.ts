@@ -0,0 +1,194 @@
+import { ProjectItem } from '@/schemas/project-schemas';
+import { formatCsv } from '@/utils/csv';
+import { toDateString } from '@/utils/sprints';
+
+/**
+ * Items as rows of a table: the columns of a CSV export, how cells convert
+ * back to field values on import, and the Markdown report.
+ */
+
+type CellKind = 'text' | 'enum' | 'list' | 'tags' | 'number' | 'boolean';
+
+export interface ItemColumn {
+    field: string;
+    kind: CellKind;
+    /** The item types that have the field; all when absent */
+    types?: ProjectItem['type'][];
+    /** Other header names the field is recognized by on import */
+    aliases?: string[];
+    /** Written on export but never taken from an import */
+    exportOnly?: boolean;
+}
+
+export const ITEM_TYPES: ProjectItem['type'][] = ['feature', 'bug', 'task'];
+
+export const ITEM_COLUMNS: ItemColumn[] = [
+    { field: 'type', kind: 'enum', aliases: ['kind', 'item type', 'issue type'] },
+    { field: 'id', kind: 'text', aliases: ['key'] },
+    { field: 'title', kind: 'text', aliases: ['name', 'summary', 'subject'] },
+    { field: 'description', kind: 'text', aliases: ['body', 'details'] },
+    { field: 'status', kind: 'enum', aliases: ['state'] },
+    { field: 'priority', kind: 'enum' },
+    { field: 'assignee', kind: 'text', aliases: ['owner', 'assigned to'] },
+    { field: 'tags', kind: 'tags', aliases: ['labels'] },
+    { field: 'epic', kind: 'text', types: ['feature'] },
+    { field: 'storyPoints', kind: 'number', types: ['feature'], aliases: ['points', 'story points'] },
+    { field: 'acceptanceCriteria', kind: 'list', types: ['feature'] },
+    { field: 'severity', kind: 'enum', types: ['bug'] },
+    { field: 'reproducible', kind: 'boolean', types: ['bug'] },
+    { field: 'stepsToReproduce', kind: 'list', types: ['bug'], aliases: ['steps'] },
+    { field: 'environment', kind: 'text', types: ['bug'] },
+    { field: 'resolution', kind: 'text', types: ['bug'] },
+    { field: 'dueDate', kind: 'text', types: ['task'], aliases: ['due', 'due date'] },
+    { field: 'estimatedHours', kind: 'number', types: ['task'], aliases: ['estimate'] },
+    { field: 'actualHours', kind: 'number', types: ['task'] },
+    { field: 'subtasks', kind: 'list', types: ['task'] },
+    { field: 'createdAt', kind: 'text', aliases: ['created'] },
+    { field: 'updatedAt', kind: 'text', aliases: ['updated'], exportOnly: true }
+];
+
+/** Field each CSV column is imported into, by column index; undefined skips the column */
+export type ColumnMapping = (string | undefined)[];
+
+function formatCell(column: ItemColumn, value: unknown): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    switch (column.kind) {
+        case 'tags':
+            return (value as string[]).join(', ');
+        case 'list':
+            return (value as string[]).join('\n');
+        default:
+            return String(value);
+    }
+}
+
+// Items in the column order above; a project column is added for items from several projects
+export function formatItemsCsv(items: (ProjectItem & { projectName?: string })[]): string {
+    const withProject = items.some(item => item.projectName);
+    const header = [...ITEM_COLUMNS.map(column => column.field), ...(withProject ? ['project'] : [])];
+    const rows = items.map(item => {
+        const fields = item as unknown as Record<string, unknown>;
+        return [
+            ...ITEM_COLUMNS.map(column => formatCell(column, fields[column.field])),
+            ...(withProject ? [item.projectName ?? ''] : [])
+        ];
+    });
+    return formatCsv([header, ...rows]);
+}
+
+function normalizeHeader(header: string): string {
+    return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Maps each header to the field of the same name or alias, at most one column per field
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+    const mapping: ColumnMapping = [];
+    headers.forEach((header, index) => {
+        const name = normalizeHeader(header);
+        const column = ITEM_COLUMNS.find(candidate => !candidate.exportOnly && (
+            normalizeHeader(candidate.field) === name ||
+            (candidate.aliases ?? []).some(alias => normalizeHeader(alias) === name)
+        ));
+        mapping[index] = column && !mapping.includes(column.field) ? column.field : undefined;
+    });
+    return mapping;
+}
+
+/**
+ * Converts a cell to the field's value. Empty cells give undefined so the
+ * field is left as it is; throws with a message for the row report when
+ * the cell can't be converted.
+ */
+export function parseCell(column: ItemColumn, cell: string): unknown {
+    const text = cell.trim();
+    if (text === '') {
+        return undefined;
+    }
+
+    switch (column.kind) {
+        case 'enum':
+            // "In Progress" and "in_progress" mean in-progress; the schema checks the rest
+            return text.toLowerCase().replace(/[\s_]+/g, '-');
+        case 'tags':
+            return text.split(/[,;]/).map(tag => tag.trim()).filter(Boolean);
+        case 'list':
+            return text.split(/\r?\n/).map(line => line.replace(/^\s*(?:[-*]|\d+[.)])\s+/, '').trim()).filter(Boolean);
+        case 'number': {
+            const value = Number(text);
+            if (Number.isNaN(value)) {
+                throw new Error(`${column.field}: "${text}" is not a number`);
+            }
+            return value;
+        }
+        case 'boolean':
+            if (/^(true|yes|y|1)$/i.test(text)) {
+                return true;
+            }
+            if (/^(false|no|n|0)$/i.test(text)) {
+                return false;
+            }
+            throw new Error(`${column.field}: "${text}" is not yes or no`);
+        default:
+            return text;
+    }
+}
+
+export function parseItemType(value: string): ProjectItem['type'] | undefined {
+    const type = value.trim().toLowerCase().replace(/s$/, '');
+    return ITEM_TYPES.find(candidate => candidate === type);
+}
+
+function escapeTableCell(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function titleCase(text: string): string {
+    return text.replace(/(^|-)(\w)/g, (_match, separator: string, letter: string) => `${separator ? ' ' : ''}${letter.toUpperCase()}`);
+}
+
+/**
+ * A Markdown report of the items: a section per type and a table per
+ * status, statuses in workflow order as given by `statusOrder`.
+ */
+export function formatMarkdownReport(
+    title: string,
+    items: (ProjectItem & { projectName?: string })[],
+    statusOrder: (type: ProjectItem['type']) => string[]
+): string {
+    const withProject = items.some(item => item.projectName);
+    const lines = [`# ${title}`, '', `_${items.length} item${items.length === 1 ? '' : 's'}, exported ${toDateString(new Date())}_`];
+
+    for (const type of ITEM_TYPES) {
+        const ofType = items.filter(item => item.type === type);
+        if (ofType.length === 0) {
+            continue;
+        }
+        lines.push('', `## ${titleCase(type)}s (${ofType.length})`);
+
+        const order = statusOrder(type);
+        const statuses = [...new Set([...order, ...ofType.map(item => item.status)])]
+            .filter(status => ofType.some(item => item.status === status));
+        for (const status of statuses) {
+            const rows = ofType.filter(item => item.status === status);
+            lines.push(
+                '',
+                `### ${titleCase(status)} (${rows.length})`,
+                '',
+                `| Title | Priority | Assignee | Tags | Updated |${withProject ? ' Project |' : ''}`,
+                `| --- | --- | --- | --- | --- |${withProject ? ' --- |' : ''}`,
+                ...rows.map(item => '| ' + [
+                    item.title,
+                    item.priority,
+                    item.assignee ?? '',
+                    item.tags.join(', '),
+                    toDateString(new Date(item.updatedAt)),
+                    ...(withProject ? [item.projectName ?? ''] : [])
+                ].map(escapeTableCell).join(' | ') + ' |')
+            );
+        }
+    }
+
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,29 @@
+export interface TodoComment {
+    kind: 'TODO' | 'FIXME';
+    /** Comment text after the marker, e.g. "handle timeouts" */
+    text: string;
+    /** Zero-based line number */
+    line: number;
+}
+
+// A TODO/FIXME right after a comment marker, with an optional "(owner)" and colon
+const TODO_PATTERN = /(?:\/\/|#|\/\*+|\*|<!--|--|;|%)\s*(TODO|FIXME)\b(?:\([^)]*\))?:?\s*(.*?)\s*(?:\*\/|-->)?\s*$/;
+
+export function parseTodo(lineText: string): Omit<TodoComment, 'line'> | undefined {
+    const match = TODO_PATTERN.exec(lineText);
+    if (!match) {
+        return undefined;
+    }
+    return { kind: match[1] as TodoComment['kind'], text: match[2]! };
+}
+
+export function findTodos(text: string): TodoComment[] {
+    const todos: TodoComment[] = [];
+    text.split(/\r?\n/).forEach((lineText, line) => {
+        const todo = parseTodo(lineText);
+        if (todo && todo.text) {
+            todos.push({ ...todo, line });
+        }
+    });
+    return todos;
+}
@@ -0,0 +1,732 @@
+import { BASE_ITEM_SCHEMA, ExternalRef, FEATURE_SCHEMA, ProjectItem } from '@/schemas/project-schemas';
+import { parseCsv } from '@/utils/csv';
+import { toDateString } from '@/utils/sprints';
+
+/**
+ * Reads the offline exports of GitHub Issues, GitLab issues and Jira into
+ * one shape, and turns those issues into item fields:
+ *
+ * - GitHub: the REST API's issue list or `gh issue list --json`, and CSV
+ *   with the same field names as headers
+ * - GitLab: the REST API's issue list, and the CSV export of an issue list
+ * - Jira: a REST search result (`{ issues: [...] }`), and the CSV export
+ *   of an issue search
+ */
+
+export type Tracker = ExternalRef['system'];
+
+export const TRACKER_NAMES: Record<Tracker, string> = {
+    github: 'GitHub',
+    gitlab: 'GitLab',
+    jira: 'Jira'
+};
+
+/** Where an issue stands, whatever its tracker calls the state */
+type StateCategory = 'todo' | 'in-progress' | 'done' | 'declined';
+
+export interface TrackerIssue {
+    ref: ExternalRef;
+    title: string;
+    description: string;
+    /** Item type from the issue type or a type label; undefined when neither says */
+    type?: ProjectItem['type'];
+    /** The state as named in the tracker */
+    state: string;
+    category: StateCategory;
+    labels: string[];
+    assignee?: string;
+    priority?: ProjectItem['priority'];
+    storyPoints?: number;
+    estimatedHours?: number;
+    dueDate?: string;
+    createdAt?: string;
+    environment?: string;
+    resolution?: string;
+    /** Values that were read but can't be kept as they are */
+    warnings: string[];
+}
+
+export interface TrackerExport {
+    tracker: Tracker;
+    issues: TrackerIssue[];
+    /** Fields of the export that no item field takes, with how many issues have a value */
+    unmapped: { field: string; count: number }[];
+    /** Entries of the export that aren't issues, e.g. pull requests */
+    skipped: number;
+}
+
+// An issue as the export has it, before any field is interpreted
+type RawIssue = Record<string, unknown>;
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+        ? value as Record<string, unknown>
+        : undefined;
+}
+
+function asText(value: unknown): string | undefined {
+    if (typeof value === 'number') {
+        return String(value);
+    }
+    return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+// A name out of the shapes trackers use for people, types and states: a string or { name | login | username | displayName }
+function nameOf(value: unknown): string | undefined {
+    const record = asRecord(value);
+    return record
+        ? asText(record['displayName']) ?? asText(record['login']) ?? asText(record['username']) ?? asText(record['name'])
+        : asText(value);
+}
+
+function isEmpty(value: unknown): boolean {
+    if (value === undefined || value === null || value === false || (typeof value === 'string' && value.trim() === '')) {
+        return true;
+    }
+    if (Array.isArray(value)) {
+        return value.length === 0;
+    }
+    const record = asRecord(value);
+    return record !== undefined && Object.keys(record).length === 0;
+}
+
+function normalize(name: string): string {
+    return name.trim().toLowerCase().replace(/['’]/g, '').replace(/[\s_]+/g, '-');
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// ISO dates and the "18/Oct/26 10:15 AM" format of Jira's CSV export
+function parseDate(value: string): Date | undefined {
+    const jira = /^(\d{1,2})\/([A-Za-z]{3})\/(\d{2,4})(?:\s+(\d{1,2}):(\d{2})\s*([AP]M)?)?$/i.exec(value.trim());
+    if (jira) {
+        const [, day, month, year, hour = '0', minute = '0', meridiem] = jira;
+        const monthIndex = MONTHS.indexOf(month!.toLowerCase());
+        if (monthIndex === -1) {
+            return undefined;
+        }
+        let hours = Number(hour);
+        if (meridiem) {
+            hours = hours % 12 + (meridiem.toUpperCase() === 'PM' ? 12 : 0);
+        }
+        const fullYear = year!.length === 2 ? 2000 + Number(year) : Number(year);
+        return new Date(fullYear, monthIndex, Number(day), hours, Number(minute));
+    }
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/** Every value of each column, keyed by header; Jira repeats headers such as Labels */
+function readCsvRows(text: string): { headers: string[]; rows: Record<string, string[]>[] } {
+    const [headers = [], ...rows] = parseCsv(text);
+    const names = headers.map(header => header.trim());
+    return {
+        headers: names,
+        rows: rows
+            .filter(row => row.some(cell => cell.trim() !== ''))
+            .map(row => {
+                const values: Record<string, string[]> = {};
+                names.forEach((name, index) => {
+                    const cell = (row[index] ?? '').trim();
+                    values[name] = [...(values[name] ?? []), ...(cell ? [cell] : [])];
+                });
+                return values;
+            })
+    };
+}
+
+// "owner/repo#12" from an issue's web URL, so issues of different repositories don't collide
+function issueRef(system: Tracker, number: string, url: string | undefined): ExternalRef {
+    const path = url && /^https?:\/\/[^/]+\/(.+?)(?:\/-)?\/issues\/\d+/.exec(url)?.[1];
+    return { system, id: path ? `${path}#${number}` : `#${number}`, ...(url ? { url } : {}) };
+}
+
+const PRIORITY_NAMES: Record<string, ProjectItem['priority']> = {
+    'highest': 'critical',
+    'blocker': 'critical',
+    'critical': 'critical',
+    'urgent': 'critical',
+    'p0': 'critical',
+    'high': 'high',
+    'major': 'high',
+    'p1': 'high',
+    'medium': 'medium',
+    'normal': 'medium',
+    'p2': 'medium',
+    'low': 'low',
+    'lowest': 'low',
+    'minor': 'low',
+    'trivial': 'low',
+    'p3': 'low',
+    'p4': 'low'
+};
+
+const TYPE_NAMES: Record<string, ProjectItem['type']> = {
+    'bug': 'bug',
+    'defect': 'bug',
+    'incident': 'bug',
+    'feature': 'feature',
+    'feature-request': 'feature',
+    'new-feature': 'feature',
+    'enhancement': 'feature',
+    'improvement': 'feature',
+    'story': 'feature',
+    'user-story': 'feature',
+    'epic': 'feature',
+    'task': 'task',
+    'sub-task': 'task',
+    'subtask': 'task',
+    'chore': 'task'
+};
+
+// The part of a scoped label after its scope: "type::bug", "kind/bug", "priority: high"
+function labelValue(name: string): { scope?: string; value: string } {
+    const match = /^(.+?)\s*(?:::|:|\/)\s*(.+)$/.exec(name);
+    return match ? { scope: normalize(match[1]!), value: normalize(match[2]!) } : { value: normalize(name) };
+}
+
+// Type and priority labels of GitHub and GitLab; the labels are kept as tags too
+function readLabels(labels: string[]): { type?: ProjectItem['type']; priority?: ProjectItem['priority'] } {
+    let type: ProjectItem['type'] | undefined;
+    let priority: ProjectItem['priority'] | undefined;
+    for (const name of labels) {
+        const { scope, value } = labelValue(name);
+        if (!scope || scope === 'type' || scope === 'kind') {
+            type ??= TYPE_NAMES[value];
+        }
+        if (scope === 'priority' || scope === 'prio' || (!scope && /^p\d$/.test(value))) {
+            priority ??= PRIORITY_NAMES[value];
+        }
+    }
+    return withValues({}, { type, priority });
+}
+
+// Labels and assignees: a list of names or objects, or a comma separated cell
+function namesOf(value: unknown): string[] {
+    if (Array.isArray(value)) {
+        return value.map(nameOf).filter((name): name is string => name !== undefined);
+    }
+    return (asText(value) ?? '').split(',').map(name => name.trim()).filter(Boolean);
+}
+
+function hoursFromSeconds(seconds: number | undefined): number | undefined {
+    return seconds ? Math.round(seconds / 36) / 100 : undefined;
+}
+
+// Adds optional fields that have a value, leaving the others out as the item types expect
+function withValues<T extends object>(target: T, values: Record<string, unknown>): T {
+    for (const [key, value] of Object.entries(values)) {
+        if (value !== undefined) {
+            (target as Record<string, unknown>)[key] = value;
+        }
+    }
+    return target;
+}
+
+/** Reads one export format's issues; `used` names the raw fields it took */
+interface TrackerReader {
+    tracker: Tracker;
+    used: Set<string>;
+    /** Fields that say nothing about the issue itself, such as API links; never reported */
+    ignored?: (field: string) => boolean;
+    read(raw: RawIssue): TrackerIssue | undefined;
+}
+
+const GITHUB_FIELDS = [
+    'number', 'title', 'body', 'state', 'state_reason', 'stateReason', 'labels', 'assignee', 'assignees',
+    'html_url', 'url', 'created_at', 'createdAt', 'type', 'issueType', 'pull_request'
+];
+
+const githubReader: TrackerReader = {
+    tracker: 'github',
+    used: new Set(GITHUB_FIELDS),
+    ignored: field => /(^|_)(id|url)$/.test(field) || ['node_id', 'locked', 'author_association', 'reactions', 'updated_at', 'updatedAt', 'sub_issues_summary', 'issue_dependencies_summary'].includes(field),
+    read(raw) {
+        if (raw['pull_request'] !== undefined) {
+            return undefined;
+        }
+        const number = asText(raw['number']) ?? '?';
+        // The REST API's `url` points at the API, `gh` gives the web page under that name
+        const webUrl = [raw['html_url'], raw['url']].map(asText).find(url => url && !/\/\/api\./.test(url));
+        const labels = namesOf(raw['labels']);
+        const fromLabels = readLabels(labels);
+        const state = asText(raw['state']) ?? 'open';
+        const reason = normalize(asText(raw['state_reason']) ?? asText(raw['stateReason']) ?? '');
+        const assignees = namesOf(raw['assignees']);
+        const issueType = nameOf(raw['type']) ?? nameOf(raw['issueType']);
+
+        return withValues<TrackerIssue>({
+            ref: issueRef('github', number, webUrl),
+            title: asText(raw['title']) ?? '',
+            description: asText(raw['body']) ?? '',
+            state,
+            category: normalize(state) === 'open' ? 'todo' : reason === 'not-planned' ? 'declined' : 'done',
+            labels,
+            warnings: assignees.length > 1 ? [`assignees: only the first of ${assignees.join(', ')} is kept`] : []
+        }, {
+            type: (issueType ? TYPE_NAMES[normalize(issueType)] : undefined) ?? fromLabels.type,
+            priority: fromLabels.priority,
+            assignee: nameOf(raw['assignee']) ?? assignees[0],
+            createdAt: asText(raw['created_at']) ?? asText(raw['createdAt'])
+        });
+    }
+};
+
+const GITLAB_FIELDS = [
+    'iid', 'title', 'description', 'state', 'labels', 'assignee', 'assignees', 'web_url', 'created_at',
+    'due_date', 'weight', 'time_stats', 'issue_type', 'type'
+];
+
+const gitlabReader: TrackerReader = {
+    tracker: 'gitlab',
+    used: new Set(GITLAB_FIELDS),
+    ignored: field => /(^|_)(id|url)$/.test(field) || ['_links', 'references', 'task_completion_status', 'updated_at', 'has_tasks', 'upvotes', 'downvotes', 'user_notes_count', 'merge_requests_count', 'confidential', 'discussion_locked', 'subscribed', 'blocking_issues_count'].includes(field),
+    read(raw) {
+        const number = asText(raw['iid']) ?? '?';
+        const labels = namesOf(raw['labels']);
+        const fromLabels = readLabels(labels);
+        const state = asText(raw['state']) ?? 'opened';
+        const issueType = asText(raw['issue_type']) ?? asText(raw['type']);
+        const timeStats = asRecord(raw['time_stats']);
+        const assignees = namesOf(raw['assignees']);
+
+        return withValues<TrackerIssue>({
+            ref: issueRef('gitlab', number, asText(raw['web_url'])),
+            title: asText(raw['title']) ?? '',
+            description: asText(raw['description']) ?? '',
+            state,
+            category: state === 'closed' ? 'done' : 'todo',
+            labels,
+            warnings: assignees.length > 1 ? [`assignees: only the first of ${assignees.join(', ')} is kept`] : []
+        }, {
+            // "issue" says nothing about which kind of item it is
+            type: (issueType ? TYPE_NAMES[normalize(issueType)] : undefined) ?? fromLabels.type,
+            priority: fromLabels.priority,
+            assignee: nameOf(raw['assignee']) ?? assignees[0],
+            storyPoints: asNumber(raw['weight']),
+            estimatedHours: hoursFromSeconds(asNumber(timeStats?.['time_estimate'])),
+            dueDate: asText(raw['due_date']),
+            createdAt: asText(raw['created_at'])
+        });
+    }
+};
+
+// Columns of the CSV export of a GitLab issue list, by the API field they hold
+const GITLAB_CSV_COLUMNS: Record<string, string> = {
+    'Issue ID': 'id',
+    'IID': 'iid',
+    'Title': 'title',
+    'Description': 'description',
+    'URL': 'web_url',
+    'State': 'state',
+    'Assignee Username': 'assignee',
+    'Labels': 'labels',
+    'Weight': 'weight',
+    'Due Date': 'due_date',
+    'Created At (UTC)': 'created_at'
+};
+
+function gitlabCsvIssue(row: Record<string, string[]>): RawIssue {
+    const raw: RawIssue = {};
+    for (const [column, field] of Object.entries(GITLAB_CSV_COLUMNS)) {
+        const value = row[column]?.[0];
+        if (value !== undefined) {
+            raw[field] = value;
+        }
+    }
+    raw['state'] = normalize(asText(raw['state']) ?? '') === 'closed' ? 'closed' : 'opened';
+    // "2026-01-05 10:00:00", in UTC as the header says
+    const created = asText(raw['created_at']);
+    if (created && /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(created)) {
+        raw['created_at'] = `${created.replace(' ', 'T')}Z`;
+    }
+    // Older exports have no IID column; the number is the last part of the URL
+    raw['iid'] ??= asText(raw['web_url'])?.split('/').pop() ?? row['Issue ID']?.[0];
+    const estimate = row['Time Estimate']?.[0];
+    if (estimate) {
+        raw['time_stats'] = { time_estimate: Number(estimate) };
+    }
+    return raw;
+}
+
+const JIRA_CATEGORIES: Record<string, StateCategory> = {
+    'new': 'todo',
+    'to-do': 'todo',
+    'indeterminate': 'in-progress',
+    'in-progress': 'in-progress',
+    'done': 'done'
+};
+
+const DECLINED_RESOLUTIONS = /wont|duplicate|cannot|declined|rejected|obsolete|invalid/;
+
+function jiraCategory(status: string, category: string | undefined, resolution: string | undefined): StateCategory {
+    if (resolution && DECLINED_RESOLUTIONS.test(normalize(resolution))) {
+        return 'declined';
+    }
+    const known = category ? JIRA_CATEGORIES[normalize(category)] : undefined;
+    if (known) {
+        return known;
+    }
+    // Exports without a status category column: go by the name
+    const name = normalize(status);
+    if (resolution || /done|closed|resolved|complete/.test(name)) {
+        return 'done';
+    }
+    return /progress|review|test|doing|develop/.test(name) ? 'in-progress' : 'todo';
+}
+
+// Plain text out of the Atlassian document format of Jira Cloud's v3 API
+function documentText(node: unknown): string {
+    const record = asRecord(node);
+    if (!record) {
+        return typeof node === 'string' ? node : '';
+    }
+    if (typeof record['text'] === 'string') {
+        return record['text'];
+    }
+    const children = Array.isArray(record['content']) ? record['content'].map(documentText) : [];
+    const block = ['paragraph', 'heading', 'listItem', 'codeBlock', 'blockquote'].includes(String(record['type']));
+    return children.join(block ? '' : '\n') + (block ? '\n' : '');
+}
+
+function jiraIssue(
+    key: string,
+    values: {
+        summary?: string;
+        description?: string;
+        issueType?: string;
+        status?: string;
+        statusCategory?: string;
+        priority?: string;
+        assignee?: string;
+        labels: string[];
+        storyPoints?: number;
+        estimateSeconds?: number;
+        dueDate?: string;
+        created?: string;
+        environment?: string;
+        resolution?: string;
+        url?: string;
+    }
+): TrackerIssue {
+    const warnings: string[] = [];
+    const type = values.issueType ? TYPE_NAMES[normalize(values.issueType)] : undefined;
+    if (values.issueType && !type) {
+        warnings.push(`issue type: "${values.issueType}" is not a feature, bug or task`);
+    }
+    const priority = values.priority ? PRIORITY_NAMES[normalize(values.priority)] : undefined;
+    if (values.priority && !priority) {
+        warnings.push(`priority: "${values.priority}" has no matching priority`);
+    }
+    const status = values.status ?? 'To Do';
+
+    return withValues<TrackerIssue>({
+        ref: { system: 'jira', id: key, ...(values.url ? { url: values.url } : {}) },
+        title: values.summary ?? '',
+        description: values.description?.trim() ?? '',
+        state: status,
+        category: jiraCategory(status, values.statusCategory, values.resolution),
+        labels: values.labels,
+        warnings
+    }, {
+        type,
+        priority,
+        assignee: values.assignee,
+        storyPoints: values.storyPoints,
+        estimatedHours: hoursFromSeconds(values.estimateSeconds),
+        dueDate: values.dueDate,
+        createdAt: values.created,
+        environment: values.environment,
+        resolution: values.resolution
+    });
+}
+
+const JIRA_FIELDS = [
+    'summary', 'description', 'issuetype', 'status', 'priority', 'assignee', 'labels', 'timeoriginalestimate',
+    'duedate', 'created', 'environment', 'resolution'
+];
+
+// Fields Jira fills in on every issue that describe the tracker rather than the issue
+const JIRA_BOOKKEEPING = [
+    'updated', 'lastViewed', 'statuscategorychangedate', 'watches', 'votes', 'progress', 'aggregateprogress',
+    'workratio', 'timeestimate', 'aggregatetimeestimate', 'aggregatetimeoriginalestimate', 'aggregatetimespent',
+    'issuerestriction', 'project', 'resolutiondate'
+];
+
+// Story points are a custom field whose id differs between sites; `names` (from ?expand=names) tells which
+function storyPointsField(names: Record<string, unknown> | undefined): string {
+    const named = Object.entries(names ?? {}).find(([, name]) => /^story points?( estimate)?$/i.test(String(name)));
+    return named?.[0] ?? 'customfield_10016';
+}
+
+function jiraReader(names: Record<string, unknown> | undefined): TrackerReader {
+    const pointsField = storyPointsField(names);
+    return {
+        tracker: 'jira',
+        used: new Set([...JIRA_FIELDS, pointsField]),
+        ignored: field => JIRA_BOOKKEEPING.includes(field),
+        read(raw) {
+            const key = asText(raw['key']) ?? '?';
+            const fields = asRecord(raw['fields']) ?? {};
+            const status = asRecord(fields['status']);
+            const self = asText(raw['self']);
+            const site = self ? /^(https?:\/\/[^/]+)/.exec(self)?.[1] : undefined;
+
+            return jiraIssue(key, {
+                labels: namesOf(fields['labels']),
+                ...withValues({}, {
+                    summary: asText(fields['summary']),
+                    description: typeof fields['description'] === 'string' ? fields['description'] : documentText(fields['description']),
+                    issueType: nameOf(fields['issuetype']),
+                    status: nameOf(status),
+                    statusCategory: asText(asRecord(status?.['statusCategory'])?.['key']),
+                    priority: nameOf(fields['priority']),
+                    assignee: nameOf(fields['assignee']),
+                    storyPoints: asNumber(fields[pointsField]),
+                    estimateSeconds: asNumber(fields['timeoriginalestimate']),
+                    dueDate: asText(fields['duedate']),
+                    created: asText(fields['created']),
+                    environment: typeof fields['environment'] === 'string' ? fields['environment'] : documentText(fields['environment']).trim() || undefined,
+                    resolution: nameOf(fields['resolution']),
+                    url: site ? `${site}/browse/${key}` : undefined
+                })
+            });
+        }
+    };
+}
+
+const JIRA_CSV_COLUMNS = [
+    'Summary', 'Issue key', 'Issue Type', 'Status', 'Status Category', 'Priority', 'Assignee', 'Labels', 'Description',
+    'Custom field (Story Points)', 'Custom field (Story point estimate)', 'Original Estimate', 'Due Date', 'Due date',
+    'Created', 'Environment', 'Resolution'
+];
+
+// The CSV counterparts of JIRA_BOOKKEEPING
+const JIRA_CSV_BOOKKEEPING = [
+    'Issue id', 'Updated', 'Last Viewed', 'Status Category Changed', 'Resolved', 'Watchers', 'Votes',
+    'Project key', 'Project name', 'Project type', 'Project lead', 'Project description', 'Project url'
+];
+
+function jiraCsvIssue(row: Record<string, string[]>): TrackerIssue {
+    const first = (column: string): string | undefined => row[column]?.[0];
+    const date = (value: string | undefined): Date | undefined => value ? parseDate(value) : undefined;
+    const created = date(first('Created'));
+    const due = date(first('Due Date') ?? first('Due date'));
+    const key = first('Issue key') ?? '?';
+
+    return jiraIssue(key, {
+        labels: row['Labels'] ?? [],
+        ...withValues({}, {
+            summary: first('Summary'),
+            description: first('Description'),
+            issueType: first('Issue Type'),
+            status: first('Status'),
+            statusCategory: first('Status Category'),
+            priority: first('Priority'),
+            assignee: first('Assignee'),
+            storyPoints: asNumber(first('Custom field (Story Points)') ?? first('Custom field (Story point estimate)')),
+            estimateSeconds: asNumber(first('Original Estimate')),
+            dueDate: due ? toDateString(due) : undefined,
+            created: created?.toISOString(),
+            environment: first('Environment'),
+            resolution: first('Resolution')
+        })
+    });
+}
+
+function countUnmapped(raws: RawIssue[], reader: TrackerReader, nested?: string): TrackerExport['unmapped'] {
+    const counts = new Map<string, number>();
+    for (const raw of raws) {
+        const fields = nested ? asRecord(raw[nested]) ?? {} : raw;
+        for (const [field, value] of Object.entries(fields)) {
+            if (!reader.used.has(field) && !reader.ignored?.(field) && !isEmpty(value)) {
+                counts.set(field, (counts.get(field) ?? 0) + 1);
+            }
+        }
+    }
+    return [...counts].map(([field, count]) => ({ field, count }));
+}
+
+function readIssues(raws: RawIssue[], reader: TrackerReader, nested?: string, names?: Record<string, unknown>): TrackerExport {
+    const issues = raws.map(raw => reader.read(raw));
+    return {
+        tracker: reader.tracker,
+        issues: issues.filter((issue): issue is TrackerIssue => issue !== undefined),
+        // Custom fields by their names where the export has them
+        unmapped: countUnmapped(raws, reader, nested).map(({ field, count }) => ({ field: asText(names?.[field]) ?? field, count })),
+        skipped: issues.filter(issue => issue === undefined).length
+    };
+}
+
+function readCsvExport(text: string): TrackerExport | undefined {
+    const { headers, rows } = readCsvRows(text);
+    const columns = new Set(headers);
+    const unmapped = (known: string[]): TrackerExport['unmapped'] => [...columns]
+        .filter(column => !known.includes(column))
+        .map(field => ({ field, count: rows.filter(row => (row[field] ?? []).length > 0).length }))
+        .filter(({ count }) => count > 0);
+
+    if (columns.has('Issue key') && columns.has('Summary')) {
+        return { tracker: 'jira', issues: rows.map(jiraCsvIssue), unmapped: unmapped([...JIRA_CSV_COLUMNS, ...JIRA_CSV_BOOKKEEPING]), skipped: 0 };
+    }
+
+    if (columns.has('Issue ID') && columns.has('Title') && columns.has('URL')) {
+        return {
+            tracker: 'gitlab',
+            issues: rows.map(row => gitlabReader.read(gitlabCsvIssue(row))!),
+            // Assignee is the display name of the same person as Assignee Username
+            unmapped: unmapped([...Object.keys(GITLAB_CSV_COLUMNS), 'Assignee', 'Time Estimate']),
+            skipped: 0
+        };
+    }
+
+    // GitHub has no CSV export of its own; tools write the API's field names as headers
+    const github = headers.map(header => header.trim().toLowerCase());
+    if (github.includes('number') && github.includes('title') && github.includes('state')) {
+        const raws = rows.map(row => Object.fromEntries(
+            Object.entries(row).map(([column, values]) => [GITHUB_FIELDS.find(field => field.toLowerCase() === column.toLowerCase()) ?? column, values.join(',')])
+        ));
+        return readIssues(raws, githubReader);
+    }
+
+    return undefined;
+}
+
+function readJsonExport(parsed: unknown): TrackerExport | undefined {
+    const root = asRecord(parsed);
+
+    // Jira: a search result, or just its issues
+    const jiraIssues = root && Array.isArray(root['issues']) ? root['issues'] : parsed;
+    if (Array.isArray(jiraIssues) && jiraIssues.length > 0 && jiraIssues.every(issue => asRecord(issue)?.['key'] !== undefined && asRecord(asRecord(issue)?.['fields']))) {
+        const names = asRecord(root?.['names']);
+        const reader = jiraReader(names);
+        return readIssues(jiraIssues as RawIssue[], reader, 'fields', names);
+    }
+
+    if (!Array.isArray(parsed) || parsed.length === 0 || !parsed.every(issue => asRecord(issue) && asRecord(issue)!['title'] !== undefined)) {
+        return undefined;
+    }
+    const raws = parsed as RawIssue[];
+
+    if (raws.every(raw => raw['iid'] !== undefined)) {
+        return readIssues(raws, gitlabReader);
+    }
+    if (raws.every(raw => raw['number'] !== undefined)) {
+        return readIssues(raws, githubReader);
+    }
+    return undefined;
+}
+
+/**
+ * Reads a GitHub, GitLab or Jira export. Returns undefined when the file
+ * is none of them, e.g. DocsToCode's own project data.
+ */
+export function readTrackerExport(text: string, format: 'json' | 'csv'): TrackerExport | undefined {
+    if (format === 'csv') {
+        return readCsvExport(text);
+    }
+    try {
+        return readJsonExport(JSON.parse(text));
+    } catch {
+        return undefined;
+    }
+}
+
+// Preferred statuses for each state category, the first one the workflow has wins
+const CATEGORY_STATUSES: Record<StateCategory, string[]> = {
+    'todo': [],
+    'in-progress': ['in-progress', 'testing'],
+    'done': ['completed', 'closed', 'resolved'],
+    'declined': ['wont-fix', 'closed', 'completed']
+};
+
+/**
+ * The item status for the issue's state: the status of the same name if
+ * the workflow has one, otherwise by what the state means. `statuses` is
+ * the item type's workflow, in order.
+ */
+export function mapState(issue: TrackerIssue, statuses: string[]): string {
+    const named = normalize(issue.state);
+    if (statuses.includes(named)) {
+        return named;
+    }
+    const preferred = CATEGORY_STATUSES[issue.category].find(status => statuses.includes(status));
+    if (preferred) {
+        return preferred;
+    }
+    return issue.category === 'done' || issue.category === 'declined' ? statuses[statuses.length - 1]! : statuses[0]!;
+}
+
+const MAX_TITLE_LENGTH = BASE_ITEM_SCHEMA.properties.title.maxLength;
+const MAX_DESCRIPTION_LENGTH = BASE_ITEM_SCHEMA.properties.description.maxLength;
+const STORY_POINTS_RANGE = { min: FEATURE_SCHEMA.properties.storyPoints.minimum, max: FEATURE_SCHEMA.properties.storyPoints.maximum };
+
+// Cuts text down to `maxLength` with an ellipsis, noting it in `warnings`
+export function shorten(text: string, maxLength: number, field: string, warnings: string[]): string {
+    if (text.length <= maxLength) {
+        return text;
+    }
+    warnings.push(`${field}: shortened from ${text.length} to ${maxLength} characters`);
+    return text.slice(0, maxLength - 1) + '…';
+}
+
+/**
+ * Item fields for the issue as the given type, and what was lost on the
+ * way. Fields the type doesn't have are left for the import to report.
+ */
+export function issueFields(issue: TrackerIssue, type: ProjectItem['type'], statuses: string[]): { fields: Record<string, unknown>; warnings: string[] } {
+    const warnings = [...issue.warnings];
+    const fields: Record<string, unknown> = {
+        type,
+        title: shorten(issue.title, MAX_TITLE_LENGTH, 'title', warnings),
+        description: shorten(issue.description, MAX_DESCRIPTION_LENGTH, 'description', warnings),
+        status: mapState(issue, statuses),
+        tags: issue.labels,
+        externalRef: issue.ref
+    };
+
+    if (issue.storyPoints !== undefined && (issue.storyPoints < STORY_POINTS_RANGE.min || issue.storyPoints > STORY_POINTS_RANGE.max)) {
+        warnings.push(`story points: ${issue.storyPoints} is outside ${STORY_POINTS_RANGE.min}–${STORY_POINTS_RANGE.max} and not kept`);
+    } else if (issue.storyPoints !== undefined) {
+        fields['storyPoints'] = issue.storyPoints;
+    }
+
+    if (issue.createdAt) {
+        const created = parseDate(issue.createdAt);
+        if (created) {
+            fields['createdAt'] = created.toISOString();
+        } else {
+            warnings.push(`created: "${issue.createdAt}" is not a date`);
+        }
+    }
+
+    if (issue.dueDate) {
+        const due = /^\d{4}-\d{2}-\d{2}/.exec(issue.dueDate)?.[0];
+        if (due) {
+            fields['dueDate'] = due;
+        } else {
+            warnings.push(`due date: "${issue.dueDate}" is not a date`);
+        }
+    }
+
+    // Closed bugs need a resolution in workflows that guard the closed states
+    const closed = issue.category === 'done' || issue.category === 'declined';
+    const resolution = issue.resolution ?? (closed ? `Closed in ${TRACKER_NAMES[issue.ref.system]}` : undefined);
+
+    return {
+        fields: withValues(fields, {
+            priority: issue.priority,
+            assignee: issue.assignee,
+            estimatedHours: issue.estimatedHours,
+            environment: issue.environment,
+            // Jira resolves stories and tasks too; only bugs keep a resolution
+            resolution: type === 'bug' ? resolution : undefined
+        }),
+        warnings
+    };
+}
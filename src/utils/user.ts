@@ -0,0 +1,15 @@
+import * as os from 'os';
+import * as vscode from 'vscode';
+
+// The docstocode.userName setting, else the operating system user name
+export function getCurrentUser(): string {
+    const configured = vscode.workspace.getConfiguration('docstocode').get<string>('userName', '').trim();
+    if (configured) {
+        return configured;
+    }
+    try {
+        return os.userInfo().username;
+    } catch {
+        return '';
+    }
+}
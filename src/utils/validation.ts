@@ -0,0 +1,243 @@
+import type { ErrorObject } from 'ajv';
+import { findNodeAtLocation, JSONPath, Node, ParseError, parseTree, printParseErrorCode } from 'jsonc-parser';
+
+export interface QuickFix {
+    label: string;
+    /** Path of the value to set */
+    path: JSONPath;
+    /** Replacement value; undefined removes the value at `path` */
+    value: unknown;
+}
+
+export interface ValidationIssue {
+    message: string;
+    offset: number;
+    length: number;
+    fixes: QuickFix[];
+}
+
+const COLLECTION_TYPES: Record<string, string> = {
+    features: 'Feature',
+    bugs: 'Bug',
+    tasks: 'Task',
+    sprints: 'Sprint'
+};
+
+// Values used when a quick fix adds a missing required field
+const REQUIRED_FIELD_DEFAULTS: Record<string, unknown> = {
+    description: '',
+    tags: [],
+    acceptanceCriteria: [],
+    stepsToReproduce: [],
+    subtasks: [],
+    environment: '',
+    reproducible: false
+};
+
+const FORMAT_DESCRIPTIONS: Record<string, string> = {
+    'date': 'a date (YYYY-MM-DD)',
+    'date-time': 'an ISO 8601 date-time'
+};
+
+function toPath(instancePath: string): JSONPath {
+    return instancePath
+        .split('/')
+        .slice(1)
+        .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+        .map(segment => (/^\d+$/.test(segment) ? Number(segment) : segment));
+}
+
+function valueAt(data: unknown, path: JSONPath): unknown {
+    return path.reduce<unknown>(
+        (value, segment) => (value !== null && typeof value === 'object'
+            ? (value as Record<string | number, unknown>)[segment]
+            : undefined),
+        data
+    );
+}
+
+export interface LocatableProblem {
+    message: string;
+    path: JSONPath;
+    fixes: QuickFix[];
+}
+
+// "Bug "Login fails" (id 42)" for item paths, "Project metadata" etc. otherwise
+export function describeItemAt(data: unknown, path: JSONPath): string {
+    const [collection, index] = path;
+
+    if (typeof collection === 'string' && COLLECTION_TYPES[collection] && typeof index === 'number') {
+        const item = valueAt(data, [collection, index]) as Record<string, unknown> | undefined;
+        const name = item?.['title'] ?? item?.['name'];
+        const title = typeof name === 'string' ? `"${name}"` : `#${index + 1}`;
+        const id = typeof item?.['id'] === 'string' ? ` (id ${item['id']})` : '';
+        return `${COLLECTION_TYPES[collection]} ${title}${id}`;
+    }
+
+    if (collection === 'metadata') {
+        return 'Project metadata';
+    }
+
+    return 'project-data.json';
+}
+
+function describeProblem(error: ErrorObject, field: string | undefined, value: unknown): string {
+    const subject = field ? `"${field}"` : 'value';
+    const params = error.params as Record<string, unknown>;
+    const limit = String(params['limit']);
+
+    switch (error.keyword) {
+        case 'required':
+            return `missing required field "${String(params['missingProperty'])}"`;
+        case 'enum':
+            return Array.isArray(params['allowedValues'])
+                ? `${subject} must be one of ${params['allowedValues'].join(', ')} (got ${JSON.stringify(value)})`
+                : `${subject} ${error.message ?? 'is invalid'}`;
+        case 'const':
+            return `${subject} must be ${JSON.stringify(params['allowedValue'])}`;
+        case 'format': {
+            const format = String(params['format']);
+            return `${subject} must be ${FORMAT_DESCRIPTIONS[format] ?? format} (got ${JSON.stringify(value)})`;
+        }
+        case 'type':
+            return `${subject} must be of type ${String(params['type'])}`;
+        case 'minLength':
+            return params['limit'] === 1
+                ? `${subject} must not be empty`
+                : `${subject} must be at least ${limit} characters`;
+        case 'maxLength':
+            return `${subject} must be at most ${limit} characters`;
+        case 'minimum':
+            return `${subject} must be at least ${limit}`;
+        case 'maximum':
+            return `${subject} must be at most ${limit}`;
+        default:
+            return `${subject} ${error.message ?? 'is invalid'}`;
+    }
+}
+
+/**
+ * Turns an Ajv error into a sentence naming the item and field, e.g.
+ * `Bug "Login fails" (id 42): "severity" must be one of low, medium, high, critical (got "urgent")`.
+ */
+export function describeValidationError(data: unknown, error: ErrorObject): string {
+    const path = toPath(error.instancePath);
+    const last = path[path.length - 1];
+    const field = typeof last === 'string' && path.length > 1 ? last : undefined;
+
+    return `${describeItemAt(data, path)}: ${describeProblem(error, field, valueAt(data, path))}`;
+}
+
+export function formatValidationErrors(data: unknown, errors: ErrorObject[]): string[] {
+    return [...new Set(errors.map(error => describeValidationError(data, error)))];
+}
+
+function suggestFixes(error: ErrorObject, path: JSONPath, value: unknown): QuickFix[] {
+    const params = error.params as Record<string, unknown>;
+
+    switch (error.keyword) {
+        case 'required': {
+            const field = String(params['missingProperty']);
+            if (!(field in REQUIRED_FIELD_DEFAULTS)) {
+                return [];
+            }
+            return [{
+                label: `Add missing "${field}"`,
+                path: [...path, field],
+                value: REQUIRED_FIELD_DEFAULTS[field]
+            }];
+        }
+
+        case 'enum':
+            return (Array.isArray(params['allowedValues']) ? params['allowedValues'] as unknown[] : []).map(allowed => ({
+                label: `Change to ${JSON.stringify(allowed)}`,
+                path,
+                value: allowed
+            }));
+
+        case 'format': {
+            if (params['format'] !== 'date' && params['format'] !== 'date-time') {
+                return [];
+            }
+            const parsed = new Date(typeof value === 'string' || typeof value === 'number' ? value : NaN);
+            const date = isNaN(parsed.getTime()) ? new Date() : parsed;
+            const normalized = params['format'] === 'date'
+                ? [
+                    date.getFullYear(),
+                    String(date.getMonth() + 1).padStart(2, '0'),
+                    String(date.getDate()).padStart(2, '0')
+                ].join('-')
+                : date.toISOString();
+            return [{ label: `Change to ${JSON.stringify(normalized)}`, path, value: normalized }];
+        }
+
+        default:
+            return [];
+    }
+}
+
+function rangeFor(root: Node | undefined, path: JSONPath, keyword: string): { offset: number; length: number } {
+    const node = root ? findNodeAtLocation(root, path) : undefined;
+    if (!node) {
+        return { offset: 0, length: 0 };
+    }
+
+    // A missing field is reported on the item's id (or opening brace) rather than the whole object
+    if (keyword === 'required' && node.type === 'object') {
+        const idNode = findNodeAtLocation(node, ['id']);
+        return idNode
+            ? { offset: idNode.offset, length: idNode.length }
+            : { offset: node.offset, length: 1 };
+    }
+
+    return { offset: node.offset, length: node.length };
+}
+
+/**
+ * Maps validation errors onto positions in the raw JSON text, with quick
+ * fixes where a sensible replacement value exists.
+ */
+export function collectValidationIssues(text: string, data: unknown, errors: ErrorObject[]): ValidationIssue[] {
+    const root = parseTree(text);
+    const seen = new Set<string>();
+    const issues: ValidationIssue[] = [];
+
+    for (const error of errors) {
+        const message = describeValidationError(data, error);
+        if (seen.has(message)) {
+            continue;
+        }
+        seen.add(message);
+
+        const path = toPath(error.instancePath);
+        issues.push({
+            message,
+            ...rangeFor(root, path, error.keyword),
+            fixes: suggestFixes(error, path, valueAt(data, path))
+        });
+    }
+
+    return issues;
+}
+
+// Positions problems found by checks other than the JSON schema
+export function locateIssues(text: string, problems: LocatableProblem[]): ValidationIssue[] {
+    const root = parseTree(text);
+    return problems.map(({ message, path, fixes }) => ({
+        message,
+        ...rangeFor(root, path, ''),
+        fixes
+    }));
+}
+
+export function collectSyntaxIssues(text: string): ValidationIssue[] {
+    const errors: ParseError[] = [];
+    parseTree(text, errors);
+
+    return errors.map(error => ({
+        message: `JSON syntax error: ${printParseErrorCode(error.error)}`,
+        offset: error.offset,
+        length: Math.max(error.length, 1),
+        fixes: []
+    }));
+}